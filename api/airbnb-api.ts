@@ -1,26 +1,13 @@
 // HTTP API-based Airbnb search (no browser automation needed)
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { recordFixture } from './providers/fixtures'
+import { fetchThroughProxy } from './providers/proxy'
+import type { ProviderCursor } from './providers/types'
+import type { PriceFees, ProviderPrice } from './utils/pricing'
+import { withApi } from './middleware'
+import { logger } from './observability/logger'
 
-// Optional proxy via ScrapingBee to avoid blocking in serverless
-async function fetchThroughProxy(url: string, init?: RequestInit) {
-  const key = process.env.SCRAPINGBEE_API_KEY
-  if (!key) return fetch(url, init)
-  const proxied = new URL('https://app.scrapingbee.com/api/v1/')
-  proxied.searchParams.set('api_key', key)
-  proxied.searchParams.set('url', url)
-  // JS rendering + premium proxy greatly improve reliability on dynamic sites
-  proxied.searchParams.set('render_js', 'true')
-  proxied.searchParams.set('premium_proxy', 'true')
-  // Route via US by default
-  proxied.searchParams.set('country_code', 'us')
-  return fetch(proxied.toString(), {
-    ...init,
-    // ScrapingBee forwards headers; keep them but avoid Host/Origin confusion
-    headers: {
-      ...((init && init.headers) || {})
-    }
-  })
-}
+const log = logger.child({ component: 'airbnb' })
 
 interface AirbnbSearchParams {
   location: string
@@ -36,16 +23,13 @@ interface AirbnbListing {
   name: string
   url: string
   images: string[]
-  price: {
-    total: number
-    rate: number
-    currency: string
-  }
+  price: ProviderPrice
   rating: number
   reviewsCount: number
   location: {
     city: string
     country: string
+    coordinates?: { lat: number, lng: number }
   }
   host: {
     name: string
@@ -62,8 +46,31 @@ interface AirbnbListing {
   trustScore?: number
 }
 
+// Listings per explore_tabs page
+const ITEMS_PER_PAGE = 20
+
+// Map common amenity IDs to human readable names (also used to build amenity filters)
+const AMENITY_ID_MAP: Record<number, string> = {
+  1: 'WiFi',
+  4: 'Kitchen',
+  8: 'Parking',
+  10: 'Pool',
+  30: 'Hot Tub',
+  33: 'Air Conditioning',
+  40: 'Laundry',
+  51: 'Gym'
+}
+
+// Airbnb's room_types[] filter values for our normalized room types
+const ROOM_TYPE_FILTERS: Record<string, string> = {
+  entire_home: 'Entire home/apt',
+  private_room: 'Private room',
+  shared_room: 'Shared room',
+  hotel_room: 'Hotel room'
+}
+
 // Headers that mimic Airbnb's web frontend
-const AIRBNB_HEADERS = {
+export const AIRBNB_HEADERS = {
   'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
   'Accept': 'application/json, text/plain, */*',
   'Accept-Language': 'en-US,en;q=0.9',
@@ -76,19 +83,14 @@ const AIRBNB_HEADERS = {
   'Content-Type': 'application/json'
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' })
-  }
+export default withApi(handler, { methods: ['POST'] })
 
+async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    console.log('🔍 Starting HTTP API-based Airbnb search...')
-    
     const params: AirbnbSearchParams = req.body
-    console.log('📋 Search parameters:', params)
+    log.info('Starting HTTP API-based Airbnb search', { params })
     
     // Step 1: Initialize session and get cookies
-    console.log('🍪 Initializing session...')
     const sessionResponse = await fetchThroughProxy('https://www.airbnb.com/', {
       headers: AIRBNB_HEADERS
     })
@@ -100,15 +102,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const csrfMatch = sessionText.match(/"csrfToken":"([^"]+)"/)
     const csrfToken = csrfMatch ? csrfMatch[1] : ''
     
-    console.log('✅ Session initialized with cookies and CSRF token')
+    log.debug('Session initialized with cookies and CSRF token')
     
     // Step 2: Build search URL
     const searchUrl = buildSearchPayload(params)
-    console.log('🔧 Built search URL')
     
     // Step 3: Make search API call
-    console.log('🚀 Making search API request...')
-    console.log('URL:', searchUrl)
+    log.debug('Making search API request', { url: searchUrl })
     const searchResponse = await fetchThroughProxy(searchUrl, {
       method: 'GET',
       headers: {
@@ -124,11 +124,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
     
     const searchData = await searchResponse.json()
-    console.log('✅ Received search response')
     
     // Step 4: Transform results to our format
     const listings = transformAirbnbResults(searchData)
-    console.log(`🎉 Successfully found ${listings.length} listings`)
+    log.info('Airbnb search finished', { count: listings.length })
     
     return res.status(200).json({
       success: true,
@@ -143,7 +142,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
     
   } catch (error) {
-    console.error('❌ Airbnb API search failed:', error)
+    log.error('Airbnb API search failed', { error })
     return res.status(500).json({
       success: false,
       platform: 'airbnb',
@@ -198,7 +197,7 @@ function buildSearchPayload(params: AirbnbSearchParams) {
   return searchUrl.toString()
 }
 
-function transformAirbnbResults(data: any): AirbnbListing[] {
+export function transformAirbnbResults(data: any): AirbnbListing[] {
   try {
     // Navigate explore_tabs API response structure
     let listingCards: any[] = []
@@ -208,7 +207,7 @@ function transformAirbnbResults(data: any): AirbnbListing[] {
       for (const section of data.explore_tabs[0].sections) {
         if (section.listings?.length > 0) {
           listingCards = section.listings
-          console.log(`✅ Found ${listingCards.length} listings in section: ${section.section_type_uid}`)
+          log.debug('Found listings in section', { count: listingCards.length, section: section.section_type_uid })
           break
         }
       }
@@ -217,12 +216,11 @@ function transformAirbnbResults(data: any): AirbnbListing[] {
     // Structure 2: Direct explore_tabs listings
     if (!listingCards.length && data?.explore_tabs?.[0]?.listings) {
       listingCards = data.explore_tabs[0].listings
-      console.log(`✅ Found ${listingCards.length} listings in explore_tabs`)
+      log.debug('Found listings in explore_tabs', { count: listingCards.length })
     }
     
     if (!listingCards.length) {
-      console.warn('No listing cards found in any known response structure')
-      console.log('🔍 Available top-level keys:', Object.keys(data))
+      log.warn('No listing cards found in any known response structure', { keys: Object.keys(data || {}) })
       return []
     }
     
@@ -232,21 +230,13 @@ function transformAirbnbResults(data: any): AirbnbListing[] {
       
       // Log first listing for monitoring
       if (index === 0) {
-        console.log(`🔍 Raw listing fields:`, Object.keys(listing))
+        log.debug('Raw listing fields', { fields: Object.keys(listing) })
       }
       
       // More robust ID extraction
       const listingId = listing.id || item.id || listing.listing_id || item.listing_id || `temp_${index}`
       
-      // Extract price information
-      let price = 0
-      if (listing.pricing_quote?.rate?.amount) {
-        price = listing.pricing_quote.rate.amount
-      } else if (listing.price?.rate) {
-        price = listing.price.rate
-      } else if (item.pricing_quote?.rate?.amount) {
-        price = item.pricing_quote.rate.amount
-      }
+      const price = extractPrice(listing.pricing_quote || item.pricing_quote, listing.price)
       
       // Extract images array
       let images: string[] = []
@@ -265,16 +255,15 @@ function transformAirbnbResults(data: any): AirbnbListing[] {
         name: listing.name || listing.title || 'Untitled Property',
         url: `https://www.airbnb.com/rooms/${listingId}`,
         images,
-        price: {
-          total: price,
-          rate: price,
-          currency: 'USD'
-        },
+        price,
         rating,
         reviewsCount,
         location: {
           city: listing.localized_city || listing.city || 'Unknown',
-          country: listing.localized_country || listing.country || 'Unknown'
+          country: listing.localized_country || listing.country || 'Unknown',
+          coordinates: typeof listing.lat === 'number' && typeof listing.lng === 'number'
+            ? { lat: listing.lat, lng: listing.lng }
+            : undefined
         },
         host: {
           name: listing.primary_host?.host_name || listing.user?.firstName || listing.host?.name || 'Host',
@@ -293,31 +282,53 @@ function transformAirbnbResults(data: any): AirbnbListing[] {
     }).filter((listing: AirbnbListing) => listing.id) // Remove invalid entries
     
   } catch (error) {
-    console.error('Error transforming Airbnb results:', error)
+    log.error('Error transforming Airbnb results', { error })
     return []
   }
 }
 
+// Fee lines of a dated pricing quote, by price item type
+const PRICE_ITEM_FEES: [RegExp, keyof PriceFees][] = [
+  [/CLEANING/i, 'cleaning'],
+  [/GUEST_FEE|SERVICE/i, 'service'],
+  [/TAX/i, 'taxes']
+]
+
+interface PricingQuote {
+  rate?: { amount?: number, currency?: string }
+  price?: {
+    total?: { amount?: number, currency?: string }
+    price_items?: { type?: string, localized_title?: string, total?: { amount?: number } }[]
+  }
+}
+
+// pricing_quote.rate is nightly; with dates, pricing_quote.price carries the stay total and its line items
+function extractPrice(quote: PricingQuote | undefined, fallback: { rate?: number, currency?: string } | undefined): ProviderPrice {
+  const rate = quote?.rate?.amount || fallback?.rate || 0
+  const currency = quote?.rate?.currency || quote?.price?.total?.currency || fallback?.currency || 'USD'
+  const fees: PriceFees = {}
+  for (const item of quote?.price?.price_items || []) {
+    const amount = item?.total?.amount
+    const fee = PRICE_ITEM_FEES.find(([pattern]) => pattern.test(String(item?.type || item?.localized_title || '')))
+    if (fee && typeof amount === 'number') fees[fee[1]] = (fees[fee[1]] || 0) + amount
+  }
+  const total = quote?.price?.total?.amount
+  return {
+    rate,
+    currency,
+    total: typeof total === 'number' && total > 0 ? total : undefined,
+    fees: Object.keys(fees).length ? fees : undefined
+  }
+}
+
 function extractAmenities(listing: any): string[] {
   const amenities: string[] = []
   
   // Extract from various possible locations in the response
   if (listing.amenityIds) {
-    // Map common amenity IDs to human readable names
-    const amenityMap: Record<number, string> = {
-      1: 'WiFi',
-      4: 'Kitchen',
-      8: 'Parking',
-      10: 'Pool',
-      30: 'Hot Tub',
-      33: 'Air Conditioning',
-      40: 'Laundry',
-      51: 'Gym'
-    }
-    
     listing.amenityIds.forEach((id: number) => {
-      if (amenityMap[id]) {
-        amenities.push(amenityMap[id])
+      if (AMENITY_ID_MAP[id]) {
+        amenities.push(AMENITY_ID_MAP[id])
       }
     })
   }
@@ -363,13 +374,15 @@ function calculateTrustScore(rating: number, reviewsCount: number): number {
 
 // Export function for use by enhanced-search endpoint
 export async function callAirbnbHttpAPI(payload: any) {
-  console.log('🔍 Starting HTTP API-based Airbnb search...')
+  log.info('Starting HTTP API-based Airbnb search')
   
-  const { location, adults = 1, children = 0, checkin, checkout, priceMin, priceMax, minBedrooms, minBathrooms } = payload
+  const {
+    location, adults = 1, children = 0, checkin, checkout, priceMin, priceMax,
+    minBedrooms, minBathrooms, minBeds, roomType, amenities, superhost, minRating, cursor
+  } = payload
   
   try {
     // Step 1: Initialize session and get cookies
-    console.log('🍪 Initializing session...')
     const sessionResponse = await fetchThroughProxy('https://www.airbnb.com/', {
       headers: AIRBNB_HEADERS
     })
@@ -381,7 +394,7 @@ export async function callAirbnbHttpAPI(payload: any) {
     const csrfMatch = sessionText.match(/"csrfToken":"([^"]+)"/)
     const csrfToken = csrfMatch ? csrfMatch[1] : ''
     
-    console.log('✅ Session initialized')
+    log.debug('Session initialized')
     
     // Step 2: Build search URL with all parameters
     const searchUrl = new URL('https://www.airbnb.com/api/v2/explore_tabs')
@@ -397,7 +410,10 @@ export async function callAirbnbHttpAPI(payload: any) {
     searchUrl.searchParams.set('show_groupings', 'true')
     searchUrl.searchParams.set('supports_for_you_v3', 'true')
     searchUrl.searchParams.set('timezone_offset', '0')
-    searchUrl.searchParams.set('items_per_grid', '20')
+    searchUrl.searchParams.set('items_per_grid', String(ITEMS_PER_PAGE))
+    // Later pages continue from the offsets Airbnb handed back with the previous page
+    if (cursor?.itemsOffset) searchUrl.searchParams.set('items_offset', String(cursor.itemsOffset))
+    if (cursor?.sectionOffset) searchUrl.searchParams.set('section_offset', String(cursor.sectionOffset))
     searchUrl.searchParams.set('federated_search_session_id', Date.now().toString())
     searchUrl.searchParams.set('tab_id', 'home_tab')
     searchUrl.searchParams.set('refinement_paths[]', '/homes')
@@ -413,22 +429,30 @@ export async function callAirbnbHttpAPI(payload: any) {
     searchUrl.searchParams.set('guests', (adults + children).toString())
     searchUrl.searchParams.set('min_bathrooms', (minBathrooms || 0).toString())
     searchUrl.searchParams.set('min_bedrooms', (minBedrooms || 0).toString())
-    searchUrl.searchParams.set('min_beds', '0')
+    searchUrl.searchParams.set('min_beds', (minBeds || 0).toString())
     searchUrl.searchParams.set('min_num_pic_urls', '1')
     searchUrl.searchParams.set('monthly_start_date', '')
     searchUrl.searchParams.set('monthly_length', '')
     searchUrl.searchParams.set('price_min', (priceMin || 0).toString())
-    searchUrl.searchParams.set('price_max', (priceMax || 1000).toString())
-    // Be less restrictive to avoid zero results
-    // searchUrl.searchParams.set('room_types[]', 'Entire home/apt')
+    // No upper bound unless the query set one; a default cap silently hid pricier listings
+    if (priceMax) searchUrl.searchParams.set('price_max', priceMax.toString())
+    // Only restrict room type when the query asked for one, to avoid zero results
+    if (roomType && ROOM_TYPE_FILTERS[roomType]) {
+      searchUrl.searchParams.set('room_types[]', ROOM_TYPE_FILTERS[roomType])
+    }
+    if (Array.isArray(amenities)) {
+      for (const [id, name] of Object.entries(AMENITY_ID_MAP)) {
+        if (amenities.includes(name)) searchUrl.searchParams.append('amenities[]', id)
+      }
+    }
+    if (superhost) searchUrl.searchParams.set('superhost', 'true')
+    if (minRating) searchUrl.searchParams.set('min_rating', minRating.toString())
     searchUrl.searchParams.set('top_tier_stays[]', 'true')
     searchUrl.searchParams.set('satori_version', '1.2.0')
     searchUrl.searchParams.set('_cb', Date.now().toString())
     
-    console.log('🔗 Search URL built')
-    
     // Step 3: Make search API call
-    console.log('🚀 Making search API request...')
+    log.debug('Making search API request', { url: searchUrl.toString() })
     const searchResponse = await fetchThroughProxy(searchUrl.toString(), {
       method: 'GET',
       headers: {
@@ -444,33 +468,65 @@ export async function callAirbnbHttpAPI(payload: any) {
     }
     
     const searchData = await searchResponse.json()
-    console.log('✅ Received search response')
+    await recordFixture('airbnb', 'airbnb_explore_tabs', payload, searchData)
     
     // Step 4: Transform results to our format
     const listings = transformAirbnbResults(searchData)
-    console.log(`🎉 HTTP API found ${listings.length} listings`)
+    const pagination = explorePagination(searchData as ExplorePaging, listings.length, cursor)
+    log.info('Airbnb search finished', { count: listings.length })
     
     return {
       platform: 'airbnb',
       properties: listings,
-      hasMore: listings.length >= 20,
-      totalResults: listings.length,
+      hasMore: pagination.cursor !== null,
+      totalResults: pagination.totalResults ?? listings.length,
+      cursor: pagination.cursor,
       status: 'success' as const
     }
     
   } catch (error) {
-    console.error('❌ Airbnb HTTP API failed:', error)
+    log.error('Airbnb HTTP API failed', { error })
     return {
       platform: 'airbnb',
       properties: [],
       hasMore: false,
       totalResults: 0,
+      cursor: null,
       status: 'error' as const,
       error: error instanceof Error ? error.message : 'Unknown error'
     }
   }
 }
 
+export interface ExplorePaging {
+  explore_tabs?: {
+    home_tab_metadata?: { listings_count?: number }
+    pagination_metadata?: { has_next_page?: boolean, items_offset?: number, section_offset?: number }
+  }[]
+}
+
+/**
+ * Paging state from an explore_tabs response. Airbnb reports the offsets of the next page in
+ * pagination_metadata; without it a full page is taken to mean there may be more.
+ */
+export function explorePagination(data: ExplorePaging | undefined, count: number, previous?: ProviderCursor) {
+  const tab = data?.explore_tabs?.[0]
+  const meta = tab?.pagination_metadata
+  const totalResults = tab?.home_tab_metadata?.listings_count
+
+  let cursor: ProviderCursor | null
+  if (meta) {
+    cursor = meta.has_next_page
+      ? { itemsOffset: meta.items_offset || 0, sectionOffset: meta.section_offset || 0 }
+      : null
+  } else {
+    cursor = count >= ITEMS_PER_PAGE
+      ? { itemsOffset: Number(previous?.itemsOffset || 0) + count, sectionOffset: previous?.sectionOffset || 0 }
+      : null
+  }
+  return { cursor, totalResults }
+}
+
 async function safeText(resp: Response) {
   try { return await resp.text() } catch { return '' }
 }
@@ -0,0 +1,243 @@
+// Cost accounting for paid API calls: LLM tokens, ScrapingBee renders and SerpAPI searches
+// Each search opens a CostLedger. Calls are priced from API_CONFIG.COST_BUDGET and recorded as they are made,
+// and a call that would take the request or the day over budget is degraded instead: the orchestrator falls
+// back to extractParams, the scraping providers (Airbnb, Vrbo) drop the premium proxy, then the proxy altogether,
+// and Booking's SerpAPI calls are skipped.
+// The day's spend is read when a search starts, so concurrent searches can overshoot the daily budget slightly.
+import { AsyncLocalStorage } from 'async_hooks'
+import { API_CONFIG } from '../config'
+import type { LLMUsage } from '../llm'
+import { logger } from '../observability/logger'
+import { metrics } from '../observability/metrics'
+import { getSpendStore, spendDay, type SpendStore } from './store'
+
+export { getSpendStore, spendDay } from './store'
+
+const BUDGET = API_CONFIG.COST_BUDGET
+
+const log = logger.child({ component: 'budget' })
+
+export type CostService = 'llm' | 'scrapingbee' | 'serpapi'
+
+export const COST_SERVICES: CostService[] = ['llm', 'scrapingbee', 'serpapi']
+
+// What a search gave up to stay within budget
+export type Degradation = 'llm_skipped' | 'premium_proxy_dropped' | 'proxy_dropped' | 'serpapi_skipped'
+
+// ScrapingBee modes, most reliable and most expensive first; `direct` skips the proxy
+export type ProxyTier = 'premium' | 'render' | 'direct'
+
+export interface CostEntry {
+  service: CostService
+  usd: number
+  // Model, proxy mode or the like
+  detail?: string
+}
+
+// null means unlimited
+export interface BudgetLimits {
+  requestUsd: number | null
+  dayUsd: number | null
+}
+
+// Reported as `cost` in the search response
+export interface CostSummary {
+  currency: 'USD'
+  spentUsd: number
+  requestBudgetUsd: number | null
+  // Including this request; null when no spend store is configured or it could not be read
+  daySpentUsd: number | null
+  dayBudgetUsd: number | null
+  degraded: Degradation[]
+  calls: CostEntry[]
+}
+
+// Reported by /api/costs
+export interface DaySpend {
+  date: string
+  currency: 'USD'
+  spentUsd: number
+  budgetUsd: number | null
+  remainingUsd: number | null
+  requests: number
+  services: Record<CostService, { usd: number, calls: number }>
+  degraded: Record<Degradation, number>
+}
+
+const round = (usd: number) => Math.round(usd * 1e6) / 1e6
+
+function limitFrom(name: string, fallback: number): number | null {
+  const value = process.env[name]
+  let limit = value === undefined || value.trim() === '' ? fallback : Number(value)
+  if (!Number.isFinite(limit) || limit < 0) {
+    log.warn('Ignoring invalid budget', { variable: name, value })
+    limit = fallback
+  }
+  return limit > 0 ? limit : null
+}
+
+export function budgetLimits(): BudgetLimits {
+  return {
+    requestUsd: limitFrom('BUDGET_PER_REQUEST_USD', BUDGET.PER_REQUEST_USD),
+    dayUsd: limitFrom('BUDGET_PER_DAY_USD', BUDGET.PER_DAY_USD)
+  }
+}
+
+/** One completion; without reported usage, the estimate of a typical orchestrator turn */
+export function llmCost(model: string, usage?: LLMUsage): number {
+  const price = BUDGET.LLM_PER_MILLION_TOKENS[model]
+  if (!price) return 0
+  const { inputTokens, outputTokens } = usage || BUDGET.LLM_TURN_ESTIMATE
+  return (inputTokens * price.input + outputTokens * price.output) / 1e6
+}
+
+export function scrapingBeeCost(tier: ProxyTier): number {
+  return tier === 'direct' ? 0 : BUDGET.SCRAPINGBEE_CREDITS[tier] * BUDGET.SCRAPINGBEE_USD_PER_CREDIT
+}
+
+export function serpApiCost(): number {
+  return BUDGET.SERPAPI_USD_PER_SEARCH
+}
+
+export class CostLedger {
+  readonly day = spendDay()
+  private readonly entries: CostEntry[] = []
+  private readonly degradations = new Set<Degradation>()
+  private readonly pending = new Set<Promise<void>>()
+  private spent = 0
+
+  constructor(
+    readonly limits: BudgetLimits,
+    private readonly store: SpendStore | null,
+    private daySpent: number | null
+  ) {}
+
+  /** A ledger for one search, counted against the day's spend so far */
+  static async open(limits = budgetLimits()): Promise<CostLedger> {
+    const store = getSpendStore()
+    let daySpent: number | null = null
+    if (store) {
+      try {
+        daySpent = (await store.read(spendDay())).usd || 0
+      } catch (error) {
+        // An unreachable store must not take search down; only the daily budget goes unchecked
+        log.warn('Reading the day\'s spend failed; daily budget not enforced', { store: store.name, error })
+      }
+    }
+    const ledger = new CostLedger(limits, store, daySpent)
+    ledger.track('requests', 1)
+    return ledger
+  }
+
+  get spentUsd(): number {
+    return this.spent
+  }
+
+  /** Whether a call estimated at `usd` fits what is left of both budgets */
+  allows(usd: number): boolean {
+    if (usd <= 0) return true
+    const { requestUsd, dayUsd } = this.limits
+    if (requestUsd !== null && this.spent + usd > requestUsd) return false
+    if (dayUsd !== null && this.daySpent !== null && this.daySpent + usd > dayUsd) return false
+    return true
+  }
+
+  record(service: CostService, usd: number, detail?: string) {
+    this.entries.push({ service, usd: round(usd), ...(detail && { detail }) })
+    this.spent += usd
+    if (this.daySpent !== null) this.daySpent += usd
+    metrics.spend.inc({ service }, usd)
+    this.track('usd', usd)
+    this.track(`usd:${service}`, usd)
+    this.track(`calls:${service}`, 1)
+  }
+
+  degrade(kind: Degradation) {
+    if (this.degradations.has(kind)) return
+    this.degradations.add(kind)
+    metrics.budgetDegradations.inc({ kind })
+    log.warn('Over budget; degrading', { kind, spentUsd: round(this.spent), daySpentUsd: this.daySpent === null ? undefined : round(this.daySpent) })
+    this.track(`degraded:${kind}`, 1)
+  }
+
+  // Totals are written in the background; settle() waits for them
+  private track(field: string, amount: number) {
+    if (!this.store || amount <= 0) return
+    const done: Promise<void> = this.store.add(this.day, field, amount)
+      .catch(error => log.warn('Recording spend failed', { store: this.store?.name, field, error }))
+      .finally(() => this.pending.delete(done))
+    this.pending.add(done)
+  }
+
+  async settle(): Promise<void> {
+    await Promise.all([...this.pending])
+  }
+
+  summary(): CostSummary {
+    return {
+      currency: 'USD',
+      spentUsd: round(this.spent),
+      requestBudgetUsd: this.limits.requestUsd,
+      daySpentUsd: this.daySpent === null ? null : round(this.daySpent),
+      dayBudgetUsd: this.limits.dayUsd,
+      degraded: [...this.degradations],
+      calls: [...this.entries]
+    }
+  }
+}
+
+/** The most reliable ScrapingBee mode the budget still allows, noting each step down */
+export function proxyTier(ledger: CostLedger | undefined): ProxyTier {
+  if (!ledger || ledger.allows(scrapingBeeCost('premium'))) return 'premium'
+  ledger.degrade('premium_proxy_dropped')
+  if (ledger.allows(scrapingBeeCost('render'))) return 'render'
+  ledger.degrade('proxy_dropped')
+  return 'direct'
+}
+
+// Thrown by a provider that skipped its paid call; a search reports the provider as skipped and can retry it on a later page
+export class OverBudgetError extends Error {}
+
+/** Whether one more SerpAPI call fits the budget, noting the skip when it does not */
+export function serpApiAllowed(ledger: CostLedger | undefined): boolean {
+  if (!ledger || ledger.allows(serpApiCost())) return true
+  ledger.degrade('serpapi_skipped')
+  return false
+}
+
+const activeLedger = new AsyncLocalStorage<CostLedger>()
+
+export function withCostLedger<T>(ledger: CostLedger, fn: () => T): T {
+  return activeLedger.run(ledger, fn)
+}
+
+/** The ledger of the search being served, for provider code that is not handed one */
+export function currentCostLedger(): CostLedger | undefined {
+  return activeLedger.getStore()
+}
+
+export async function daySpend(date: string): Promise<DaySpend | null> {
+  const store = getSpendStore()
+  if (!store) return null
+  const totals = await store.read(date)
+  const spent = round(totals.usd || 0)
+  const { dayUsd } = budgetLimits()
+  return {
+    date,
+    currency: 'USD',
+    spentUsd: spent,
+    budgetUsd: dayUsd,
+    remainingUsd: dayUsd === null ? null : round(Math.max(0, dayUsd - spent)),
+    requests: totals.requests || 0,
+    services: Object.fromEntries(COST_SERVICES.map(service => [
+      service,
+      { usd: round(totals[`usd:${service}`] || 0), calls: totals[`calls:${service}`] || 0 }
+    ])) as DaySpend['services'],
+    degraded: {
+      llm_skipped: totals['degraded:llm_skipped'] || 0,
+      premium_proxy_dropped: totals['degraded:premium_proxy_dropped'] || 0,
+      proxy_dropped: totals['degraded:proxy_dropped'] || 0,
+      serpapi_skipped: totals['degraded:serpapi_skipped'] || 0
+    }
+  }
+}
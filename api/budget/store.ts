@@ -0,0 +1,79 @@
+// Daily spend totals, shared by every serverless instance through the store
+//   BUDGET_STORE=memory|redis|none  (default: redis when REDIS_URL is set, otherwise memory)
+// One hash per UTC day: `usd`, `usd:<service>`, `calls:<service>`, `requests` and `degraded:<kind>`.
+import { API_CONFIG } from '../config'
+import { redisClient, type RedisClient } from '../cache/redis'
+import { logger } from '../observability/logger'
+
+const BUDGET = API_CONFIG.COST_BUDGET
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SpendTotals = Record<string, number>
+
+export interface SpendStore {
+  name: string
+  add(day: string, field: string, amount: number): Promise<void>
+  read(day: string): Promise<SpendTotals>
+}
+
+export class MemorySpendStore implements SpendStore {
+  readonly name = 'memory'
+  private readonly days = new Map<string, SpendTotals>()
+
+  async add(day: string, field: string, amount: number) {
+    let totals = this.days.get(day)
+    if (!totals) {
+      totals = {}
+      this.days.set(day, totals)
+      // Days are added in order, so the first key is the oldest
+      while (this.days.size > BUDGET.SPEND_RETENTION_DAYS) this.days.delete(this.days.keys().next().value!)
+    }
+    totals[field] = (totals[field] || 0) + amount
+  }
+
+  async read(day: string): Promise<SpendTotals> {
+    return { ...this.days.get(day) }
+  }
+}
+
+export class RedisSpendStore implements SpendStore {
+  readonly name = 'redis'
+
+  constructor(private readonly client: RedisClient) {}
+
+  async add(day: string, field: string, amount: number) {
+    const key = `spend:${day}`
+    await this.client.command(['HINCRBYFLOAT', key, field, String(amount)])
+    await this.client.command(['EXPIRE', key, String(BUDGET.SPEND_RETENTION_DAYS * DAY_MS / 1000)])
+  }
+
+  async read(day: string): Promise<SpendTotals> {
+    const reply = await this.client.command(['HGETALL', `spend:${day}`])
+    const totals: SpendTotals = {}
+    if (!Array.isArray(reply)) return totals
+    for (let i = 0; i + 1 < reply.length; i += 2) totals[String(reply[i])] = Number(reply[i + 1])
+    return totals
+  }
+}
+
+let store: SpendStore | null | undefined
+
+export function getSpendStore(): SpendStore | null {
+  if (store !== undefined) return store
+  const backend = (process.env.BUDGET_STORE || (process.env.REDIS_URL ? 'redis' : 'memory')).trim().toLowerCase()
+  if (backend === 'none') {
+    store = null
+  } else if (backend === 'redis' && process.env.REDIS_URL) {
+    store = new RedisSpendStore(redisClient(process.env.REDIS_URL, BUDGET.REDIS_TIMEOUT_MS))
+  } else {
+    if (backend !== 'memory') logger.warn('Spend store is not available; using memory', { component: 'budget', store: backend })
+    store = new MemorySpendStore()
+  }
+  return store
+}
+
+/** UTC calendar day, YYYY-MM-DD */
+export function spendDay(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
@@ -0,0 +1,47 @@
+// File-backed cache: one JSON file per key, shared by every process on the machine (vercel dev, scripts)
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { CacheStore } from './types'
+
+interface FileEntry {
+  key: string
+  value: string
+  expiresAt: number
+}
+
+export class FileStore implements CacheStore {
+  readonly name = 'file'
+
+  constructor(private readonly dir: string) {}
+
+  private file(key: string): string {
+    return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`)
+  }
+
+  async get(key: string): Promise<string | null> {
+    const file = this.file(key)
+    let entry: FileEntry
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch {
+      return null
+    }
+    if (entry.key !== key) return null
+    if (entry.expiresAt <= Date.now()) {
+      await fs.unlink(file).catch(() => {})
+      return null
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    const entry: FileEntry = { key, value, expiresAt: Date.now() + ttlMs }
+    await fs.mkdir(this.dir, { recursive: true })
+    // Write then rename, so a concurrent reader never sees half a file
+    const file = this.file(key)
+    const tmp = `${file}.${process.pid}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(entry))
+    await fs.rename(tmp, file)
+  }
+}
@@ -0,0 +1,189 @@
+// Provider response cache: repeated searches and paging back and forth are served without calling
+// ScrapingBee/SerpAPI again. Keyed on the provider name plus its normalized params (cursor included).
+// Listing details, reviews and calendars share the store, one entry per platform and listing ID.
+//   CACHE_BACKEND=memory|file|redis|none  (default: redis when REDIS_URL is set, otherwise memory)
+//   CACHE_DIR for the file backend, REDIS_URL for redis, PROVIDER_CACHE_TTLS="airbnb=600,booking=3600" in seconds
+import { createHash } from 'crypto'
+import path from 'path'
+import { API_CONFIG } from '../config'
+import { logger } from '../observability/logger'
+import type {
+  CalendarRange,
+  ListingCalendar,
+  ListingDetails,
+  ListingReview,
+  ProviderPage,
+  ProviderParams,
+} from '../providers/types'
+import type { ReviewSummary } from '../utils/review-insights'
+import { FileStore } from './file'
+import { MemoryLRUStore } from './memory'
+import { redisClient, RedisStore } from './redis'
+import type { CacheBackend, CacheStore } from './types'
+
+// Bump when ProviderPage or the key layout changes, so old entries are never read back
+const CACHE_KEY_VERSION = 1
+
+const CACHE = API_CONFIG.PROVIDER_CACHE
+
+const log = logger.child({ component: 'cache' })
+
+let store: CacheStore | null | undefined
+
+function cacheBackend(): CacheBackend {
+  const configured = (process.env.CACHE_BACKEND || '').trim().toLowerCase()
+  if (configured === 'memory' || configured === 'file' || configured === 'redis' || configured === 'none') return configured
+  if (configured) log.warn('Unknown CACHE_BACKEND; using memory', { backend: configured })
+  return process.env.REDIS_URL ? 'redis' : 'memory'
+}
+
+export function getCacheStore(): CacheStore | null {
+  if (store !== undefined) return store
+  const backend = cacheBackend()
+  switch (backend) {
+    case 'file':
+      store = new FileStore(path.resolve(process.cwd(), process.env.CACHE_DIR || CACHE.DEFAULT_DIR))
+      break
+    case 'redis':
+      store = process.env.REDIS_URL ? new RedisStore(redisClient(process.env.REDIS_URL, CACHE.REDIS_TIMEOUT_MS)) : null
+      if (!store) log.warn('CACHE_BACKEND=redis needs REDIS_URL; provider cache disabled')
+      break
+    case 'memory':
+      store = new MemoryLRUStore(CACHE.MAX_MEMORY_ENTRIES)
+      break
+    default:
+      store = null
+  }
+  return store
+}
+
+export function providerCacheTtl(provider: string): number {
+  const override = (process.env.PROVIDER_CACHE_TTLS || '')
+    .split(',')
+    .map(pair => pair.split('=').map(s => s.trim()))
+    .find(([name]) => name === provider)
+  const seconds = override ? Number(override[1]) : NaN
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000
+  return CACHE.TTL_MS[provider] ?? CACHE.DEFAULT_TTL_MS
+}
+
+export function providerCacheEnabled(provider: string): boolean {
+  return getCacheStore() !== null && providerCacheTtl(provider) > 0
+}
+
+// Same search, same key: empty values dropped, location and amenities case-folded, keys sorted
+function normalizeParams(params: ProviderParams): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {}
+  for (const key of Object.keys(params).sort()) {
+    let value = params[key as keyof ProviderParams] as unknown
+    if (value === undefined || value === null || value === '') continue
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue
+      value = value.map(v => String(v).toLowerCase()).sort()
+    }
+    if (key === 'location') value = String(value).trim().toLowerCase().replace(/\s+/g, ' ')
+    if (key === 'cursor' && typeof value === 'object') {
+      value = Object.fromEntries(Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+    }
+    normalized[key] = value
+  }
+  if (!normalized.page) normalized.page = 1
+  return normalized
+}
+
+export function providerCacheKey(provider: string, params: ProviderParams): string {
+  const hash = createHash('sha256').update(JSON.stringify(normalizeParams(params))).digest('hex')
+  return `search:v${CACHE_KEY_VERSION}:${provider}:${hash}`
+}
+
+// Cache failures only cost a provider call; they never fail the search
+export async function readProviderCache(provider: string, params: ProviderParams): Promise<ProviderPage | null> {
+  const cache = getCacheStore()
+  if (!cache || !providerCacheEnabled(provider)) return null
+  try {
+    const raw = await cache.get(providerCacheKey(provider, params))
+    return raw ? JSON.parse(raw) as ProviderPage : null
+  } catch (error) {
+    log.warn('Provider cache read failed', { store: cache.name, provider, error: error instanceof Error ? error.message : error })
+    return null
+  }
+}
+
+export async function writeProviderCache(provider: string, params: ProviderParams, page: ProviderPage): Promise<void> {
+  const cache = getCacheStore()
+  if (!cache || !providerCacheEnabled(provider)) return
+  try {
+    await cache.set(providerCacheKey(provider, params), JSON.stringify(page), providerCacheTtl(provider))
+  } catch (error) {
+    log.warn('Provider cache write failed', { store: cache.name, provider, error: error instanceof Error ? error.message : error })
+  }
+}
+
+// Per-listing entries: details, raw reviews and their LLM summary, availability calendars
+type ListingCacheKind = 'details' | 'reviews' | 'review-summary' | 'calendar'
+
+const LISTING_TTL_MS: Record<ListingCacheKind, number> = {
+  'details': CACHE.DETAILS_TTL_MS,
+  'reviews': CACHE.REVIEWS_TTL_MS,
+  'review-summary': CACHE.REVIEWS_TTL_MS,
+  'calendar': CACHE.CALENDAR_TTL_MS,
+}
+
+export function listingCacheKey(kind: ListingCacheKind, platform: string, id: string): string {
+  return `${kind}:v${CACHE_KEY_VERSION}:${platform}:${id}`
+}
+
+async function readListingCache<T>(kind: ListingCacheKind, platform: string, id: string): Promise<T | null> {
+  const cache = getCacheStore()
+  if (!cache || LISTING_TTL_MS[kind] <= 0) return null
+  try {
+    const raw = await cache.get(listingCacheKey(kind, platform, id))
+    return raw ? JSON.parse(raw) as T : null
+  } catch (error) {
+    log.warn('Listing cache read failed', { store: cache.name, kind, platform, error: error instanceof Error ? error.message : error })
+    return null
+  }
+}
+
+async function writeListingCache(kind: ListingCacheKind, platform: string, id: string, value: unknown): Promise<void> {
+  const cache = getCacheStore()
+  if (!cache || LISTING_TTL_MS[kind] <= 0) return
+  try {
+    await cache.set(listingCacheKey(kind, platform, id), JSON.stringify(value), LISTING_TTL_MS[kind])
+  } catch (error) {
+    log.warn('Listing cache write failed', { store: cache.name, kind, platform, error: error instanceof Error ? error.message : error })
+  }
+}
+
+export function readDetailsCache(platform: string, id: string): Promise<ListingDetails | null> {
+  return readListingCache('details', platform, id)
+}
+
+export function writeDetailsCache(details: ListingDetails): Promise<void> {
+  return writeListingCache('details', details.platform, details.id, details)
+}
+
+export function readReviewsCache(platform: string, id: string): Promise<ListingReview[] | null> {
+  return readListingCache('reviews', platform, id)
+}
+
+export function writeReviewsCache(platform: string, id: string, reviews: ListingReview[]): Promise<void> {
+  return writeListingCache('reviews', platform, id, reviews)
+}
+
+export function readReviewSummaryCache(platform: string, id: string): Promise<ReviewSummary | null> {
+  return readListingCache('review-summary', platform, id)
+}
+
+export function writeReviewSummaryCache(platform: string, id: string, summary: ReviewSummary): Promise<void> {
+  return writeListingCache('review-summary', platform, id, summary)
+}
+
+// Calendars are keyed on the range too; the endpoint and flexible-date search ask for different spans
+export function readCalendarCache(platform: string, id: string, range: CalendarRange): Promise<ListingCalendar | null> {
+  return readListingCache('calendar', platform, `${id}:${range.from}:${range.to}`)
+}
+
+export function writeCalendarCache(range: CalendarRange, calendar: ListingCalendar): Promise<void> {
+  return writeListingCache('calendar', calendar.platform, `${calendar.id}:${range.from}:${range.to}`, calendar)
+}
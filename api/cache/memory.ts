@@ -0,0 +1,32 @@
+// In-process LRU cache; lives as long as the serverless instance stays warm
+import type { CacheStore } from './types'
+
+interface MemoryEntry {
+  value: string
+  expiresAt: number
+}
+
+export class MemoryLRUStore implements CacheStore {
+  readonly name = 'memory'
+  private entries = new Map<string, MemoryEntry>()
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) return null
+    // Re-inserting moves the key to the most recently used end
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+}
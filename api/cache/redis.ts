@@ -0,0 +1,181 @@
+// Redis-protocol cache (Redis, Valkey, KeyDB, Dragonfly, Upstash over TCP)
+// A minimal RESP client over one lazily opened connection; the cache needs GET and SET PX, the rate limiter EVAL.
+import net from 'net'
+import tls from 'tls'
+import type { CacheStore } from './types'
+
+export type RespValue = string | number | null | Error | RespValue[]
+
+interface PendingReply {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')
+}
+
+// One reply starting at `offset`, or null when the buffer does not hold all of it yet
+function parseReply(buf: Buffer, offset: number): { value: RespValue, next: number } | null {
+  const lineEnd = buf.indexOf('\r\n', offset)
+  if (lineEnd < 0) return null
+  const type = String.fromCharCode(buf[offset])
+  const line = buf.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, next }
+    case '-':
+      return { value: new Error(line), next }
+    case ':':
+      return { value: Number(line), next }
+    case '$': {
+      const length = Number(line)
+      if (length < 0) return { value: null, next }
+      if (buf.length < next + length + 2) return null
+      return { value: buf.toString('utf8', next, next + length), next: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count < 0) return { value: null, next }
+      const items: RespValue[] = []
+      let cursor = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, cursor)
+        if (!item) return null
+        items.push(item.value)
+        cursor = item.next
+      }
+      return { value: items, next: cursor }
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}"`)
+  }
+}
+
+export class RedisClient {
+  private socket: net.Socket | null = null
+  private connecting: Promise<net.Socket> | null = null
+  private buffer = Buffer.alloc(0)
+  private pending: PendingReply[] = []
+
+  constructor(private readonly url: string, private readonly timeoutMs: number) {}
+
+  // Error replies reject with the server's message
+  async command(args: string[]): Promise<RespValue> {
+    const socket = await this.connect()
+    return this.send(socket, args)
+  }
+
+  private send(socket: net.Socket, args: string[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a lost reply poisons the connection
+        this.reset(new Error('Redis command timed out'))
+      }, this.timeoutMs)
+      this.pending.push({
+        resolve: value => { clearTimeout(timer); resolve(value) },
+        reject: error => { clearTimeout(timer); reject(error) }
+      })
+      socket.write(encodeCommand(args))
+    }).then(value => {
+      if (value instanceof Error) throw value
+      return value
+    })
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    const url = new URL(this.url)
+    const secure = url.protocol === 'rediss:'
+    const host = url.hostname || '127.0.0.1'
+    const port = Number(url.port) || 6379
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port })
+      const timer = setTimeout(() => socket.destroy(new Error('Redis connection timed out')), this.timeoutMs)
+      // An idle cache connection should not keep a script or test process alive
+      socket.unref()
+
+      socket.on('data', chunk => this.onData(chunk))
+      // Only the current connection may fail the pending replies; a stale socket closing late is ignored
+      const current = () => this.socket === socket || this.socket === null
+      socket.on('error', error => {
+        clearTimeout(timer)
+        if (current()) this.reset(error)
+        reject(error)
+      })
+      socket.on('close', () => {
+        if (current()) this.reset(new Error('Redis connection closed'))
+      })
+      socket.once(secure ? 'secureConnect' : 'connect', async () => {
+        clearTimeout(timer)
+        try {
+          const password = decodeURIComponent(url.password)
+          const username = decodeURIComponent(url.username)
+          if (password) await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+          const db = url.pathname.replace(/^\//, '')
+          if (db && db !== '0') await this.send(socket, ['SELECT', db])
+          this.socket = socket
+          resolve(socket)
+        } catch (error) {
+          socket.destroy()
+          reject(error instanceof Error ? error : new Error(String(error)))
+        }
+      })
+    }).finally(() => { this.connecting = null })
+
+    return this.connecting
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    let offset = 0
+    for (;;) {
+      const reply = parseReply(this.buffer, offset)
+      if (!reply) break
+      offset = reply.next
+      this.pending.shift()?.resolve(reply.value)
+    }
+    this.buffer = this.buffer.subarray(offset)
+  }
+
+  private reset(error: Error) {
+    const pending = this.pending
+    this.pending = []
+    this.buffer = Buffer.alloc(0)
+    if (this.socket && !this.socket.destroyed) this.socket.destroy()
+    this.socket = null
+    pending.forEach(p => p.reject(error))
+  }
+}
+
+export class RedisStore implements CacheStore {
+  readonly name = 'redis'
+
+  constructor(private readonly client: RedisClient) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.client.command(['GET', key])
+    return typeof value === 'string' ? value : null
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command(['SET', key, value, 'PX', String(Math.max(1, Math.round(ttlMs)))])
+  }
+}
+
+// One connection per URL per instance, shared by the cache and the rate limiter
+const clients = new Map<string, RedisClient>()
+
+export function redisClient(url: string, timeoutMs: number): RedisClient {
+  let client = clients.get(url)
+  if (!client) {
+    client = new RedisClient(url, timeoutMs)
+    clients.set(url, client)
+  }
+  return client
+}
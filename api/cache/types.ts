@@ -0,0 +1,12 @@
+// Storage contract for the provider response cache
+// Values are opaque strings; expiry is the store's job so every backend can use its native TTL
+
+export interface CacheStore {
+  // Backend name, for logs
+  name: string
+  // Null when missing or expired
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+}
+
+export type CacheBackend = 'memory' | 'file' | 'redis' | 'none'
@@ -0,0 +1,76 @@
+// Night-by-night availability and prices of one listing, cached per listing and range
+//   GET /api/calendar/airbnb/52871934
+//   GET /api/calendar/airbnb/52871934?from=2026-12-01&to=2026-12-31
+// `from` defaults to today and `to` to cover API_CONFIG.CALENDAR.DEFAULT_DAYS days; both are inclusive.
+// Prices are nightly rates before fees, in the calendar's `currency`. Only platforms with SearchProvider.calendar have one.
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from '../../middleware'
+import { readCalendarCache, writeCalendarCache } from '../../cache'
+import { CostLedger, withCostLedger } from '../../budget'
+import { API_CONFIG } from '../../config'
+import { getProvider } from '../../providers/registry'
+import { withTimeout } from '../../providers/resilience'
+import type { CalendarRange } from '../../providers/types'
+import { todayDate } from '../../tools/parse-dates'
+import { ApiError } from '../../utils/api-error'
+import { shiftDate } from '../../utils/flexible-dates'
+import { assertListingRef, listingCacheEnabled, listingRef, sendListingError } from '../../utils/listing-endpoint'
+import { logger } from '../../observability/logger'
+
+const log = logger.child({ component: 'listing-calendar' })
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export default withApi(handler, { methods: ['GET'], route: '/api/calendar/:platform/:id' })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const ref = listingRef(req)
+  const { platform, id } = ref
+  let budget: CostLedger | undefined
+
+  try {
+    assertListingRef(ref, '/api/calendar')
+    const provider = getProvider(platform)
+    if (!provider?.calendar) throw new ApiError('UNKNOWN_PLATFORM', `Calendars are not available for "${platform}"`)
+    const range = calendarRange(req.query?.from, req.query?.to)
+
+    const live = listingCacheEnabled()
+    let calendar = live ? await readCalendarCache(platform, id, range) : null
+    res.setHeader('X-Cache', !live ? 'BYPASS' : calendar ? 'HIT' : 'MISS')
+    if (!calendar) {
+      budget = await CostLedger.open()
+      calendar = await withCostLedger(budget, () => withTimeout(provider.calendar!(id, range), provider.timeoutMs))
+      await budget.settle()
+      if (!calendar) throw new ApiError('LISTING_NOT_FOUND', `No ${platform} listing ${id}`)
+      if (live) await writeCalendarCache(range, calendar)
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=600')
+    return res.status(200).json({ ...calendar, ...range })
+  } catch (error) {
+    return sendListingError(res, error, ref, budget, {
+      code: 'CALENDAR_UNAVAILABLE',
+      message: `Could not fetch the calendar of ${platform} listing ${id}`,
+      log,
+      event: 'Listing calendar failed',
+    })
+  }
+}
+
+// A real calendar date: "2026-02-30" matches the pattern but does not survive the round trip
+const isDate = (value: string) => ISO_DATE.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) && shiftDate(value, 0) === value
+
+function calendarRange(from: unknown, to: unknown): CalendarRange {
+  const { DEFAULT_DAYS, MAX_DAYS } = API_CONFIG.CALENDAR
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && (typeof value !== 'string' || !isDate(value))) {
+      throw new ApiError('INVALID_DATES', `${name} must be a YYYY-MM-DD date`)
+    }
+  }
+  const start = (from as string | undefined) || todayDate()
+  const end = (to as string | undefined) || shiftDate(start, DEFAULT_DAYS - 1)
+  if (start < todayDate()) throw new ApiError('INVALID_DATES', `from ${start} is in the past`)
+  if (end < start) throw new ApiError('INVALID_DATES', `to ${end} is before from ${start}`)
+  if (end > shiftDate(start, MAX_DAYS - 1)) throw new ApiError('INVALID_DATES', `A calendar covers at most ${MAX_DAYS} days`)
+  return { from: start, to: end }
+}
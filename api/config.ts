@@ -1,8 +1,19 @@
 // API configuration constants
 export const API_CONFIG = {
-  // OpenAI API settings
-  GPT_MAX_TOKENS: 1000,
-  GPT_TEMPERATURE: 0, // Critical: Keep at 0 for deterministic responses
+  // LLM orchestrator settings; LLM_PROVIDER, LLM_MODEL and LLM_BASE_URL override them per deployment
+  LLM: {
+    MAX_TOKENS: 1000,
+    TEMPERATURE: 0, // Critical: Keep at 0 for deterministic responses
+    REQUEST_TIMEOUT_MS: 15000,
+    MODELS: {
+      openai: 'gpt-4o-mini',
+      anthropic: 'claude-3-5-haiku-latest',
+      mock: 'scripted'
+    },
+    OPENAI_BASE_URL: 'https://api.openai.com/v1', // Any OpenAI-compatible server works, e.g. http://localhost:11434/v1 for Ollama
+    ANTHROPIC_BASE_URL: 'https://api.anthropic.com',
+    ANTHROPIC_VERSION: '2023-06-01'
+  },
   
   // Fallback confidence when parsing fails
   FALLBACK_CONFIDENCE: 0.5,
@@ -14,6 +25,125 @@ export const API_CONFIG = {
   ENABLE_STABLE_SORT: true,
   SORT_BY_ID_FALLBACK: true, // Use ID as tiebreaker for stable sorting
   
+  // Request limits for /api/search
+  SEARCH_REQUEST: {
+    MAX_QUERY_LENGTH: 500, // Characters; longer input is pasted text, not a search
+    DEFAULT_MAX_RESULTS: 40,
+    MAX_RESULTS_LIMIT: 100
+  },
+
+  // Stay prices are normalized to one display currency (rates in api/data/exchange-rates.json)
+  PRICING: {
+    DEFAULT_CURRENCY: 'USD', // When the request does not pick one
+    QUERY_CURRENCY: 'USD' // Providers are asked in this currency, so price limits in queries ("under $200") are read in it too
+  },
+
+  // Provider response cache in front of the search providers (CACHE_BACKEND picks the store)
+  PROVIDER_CACHE: {
+    DEFAULT_TTL_MS: 15 * 60 * 1000, // 15 minutes
+    // Per provider; hotel rates move slower than short-term rental availability
+    TTL_MS: {
+      airbnb: 15 * 60 * 1000,
+      booking: 60 * 60 * 1000,
+      vrbo: 15 * 60 * 1000,
+      inside_airbnb: 0 // Local indexes; nothing to save
+    } as Record<string, number>,
+    DETAILS_TTL_MS: 24 * 60 * 60 * 1000, // Listing details (/api/listing); descriptions and rules rarely change
+    REVIEWS_TTL_MS: 12 * 60 * 60 * 1000, // Review insights (/api/reviews)
+    CALENDAR_TTL_MS: 60 * 60 * 1000, // Availability calendars (/api/calendar, flexible-date search); bookings land all day
+    MAX_MEMORY_ENTRIES: 500,
+    DEFAULT_DIR: '.cache/search',
+    REDIS_TIMEOUT_MS: 1000 // A slow cache must not cost more than it saves
+  },
+
+  // Retries and circuit breaking around live provider calls
+  PROVIDER_RESILIENCE: {
+    MAX_ATTEMPTS: 3, // Per search, for transient errors (connection resets, 429/5xx); timeouts are not retried
+    RETRY_BASE_DELAY_MS: 250, // Backoff doubles per attempt, with full jitter
+    RETRY_MAX_DELAY_MS: 2000,
+    MIN_ATTEMPT_MS: 1500, // No retry unless this much of the provider's timeout is left
+    FAILURE_THRESHOLD: 3, // Consecutive failed searches that open the circuit
+    COOL_DOWN_MS: 60 * 1000 // How long an open circuit skips the provider before one trial request
+  },
+
+  // Estimated prices of paid API calls and the budgets they are checked against (USD).
+  // BUDGET_PER_REQUEST_USD and BUDGET_PER_DAY_USD override the budgets; 0 disables one
+  COST_BUDGET: {
+    PER_REQUEST_USD: 0.05,
+    PER_DAY_USD: 10,
+    // List prices per million tokens; unknown models (e.g. a local server) cost nothing
+    LLM_PER_MILLION_TOKENS: {
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-4o': { input: 2.5, output: 10 },
+      'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+      'claude-3-5-sonnet-latest': { input: 3, output: 15 }
+    } as Record<string, { input: number, output: number }>,
+    // What one orchestrator turn is assumed to use before it runs, and when the backend reports no usage
+    LLM_TURN_ESTIMATE: { inputTokens: 2000, outputTokens: 300 },
+    SCRAPINGBEE_USD_PER_CREDIT: 49 / 150000, // Freelance plan
+    // Credits per request: JS rendering with a premium proxy, JS rendering alone
+    SCRAPINGBEE_CREDITS: { premium: 25, render: 5 },
+    SERPAPI_USD_PER_SEARCH: 50 / 5000, // Developer plan
+    SPEND_RETENTION_DAYS: 40,
+    REDIS_TIMEOUT_MS: 500
+  },
+
+  // Prometheus metrics served by /api/metrics
+  OBSERVABILITY: {
+    METRIC_PREFIX: 'chatbnb_',
+    // Histogram buckets for request, provider and LLM latencies
+    LATENCY_BUCKETS_SECONDS: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30],
+    REDIS_TIMEOUT_MS: 500
+  },
+
+  // Token-bucket rate limiting for every api/ route, per API key or client IP
+  RATE_LIMIT: {
+    CAPACITY: 20, // Burst size for anonymous clients
+    REFILL_PER_MINUTE: 10,
+    API_KEY_CAPACITY: 100, // Clients with a valid API key get a larger bucket
+    API_KEY_REFILL_PER_MINUTE: 60,
+    MAX_MEMORY_BUCKETS: 10000,
+    REDIS_TIMEOUT_MS: 500
+  },
+
+  // Per-listing match explanations (`matchReasons` in search results)
+  MATCH_REASONS: {
+    PRICE_NEAR_MEDIAN: 0.1, // Within 10% of the median stay price counts as near it
+    RATING_NEAR_MEDIAN: 0.1 // Stars either side of the median rating
+  },
+
+  // Review insights (/api/reviews): local sentiment and aspect analysis, with an optional LLM summary
+  REVIEW_INSIGHTS: {
+    MAX_REVIEWS: 50, // Most recent reviews fetched per listing
+    HALF_LIFE_DAYS: 180, // A review this old counts half as much as one written today
+    UNDATED_WEIGHT: 0.5, // Reviews the platform gives no date for
+    MIN_MENTIONS: 2, // Reviews that must mention an aspect before it is reported
+    POSITIVE_THRESHOLD: 0.25, // Weighted sentiment, -1 to 1, above which an aspect or the listing is positive
+    NEGATIVE_THRESHOLD: -0.1, // and below which it is negative
+    SUMMARY_EXCERPTS: 12 // Review sentences sent to the LLM for the optional summary
+  },
+
+  // Availability calendars (/api/calendar)
+  CALENDAR: {
+    DEFAULT_DAYS: 90, // Nights returned when the request gives no end date
+    MAX_DAYS: 366 // Longest range one request may ask for
+  },
+
+  // Flexible-date search (`flexibleDays` on /api/search): the same stay shifted around the requested dates
+  FLEXIBLE_DATES: {
+    MAX_DAYS: 7, // Largest shift either way a request may ask for
+    MAX_LISTINGS: 8, // Top results whose calendars are fetched and compared
+    MAX_WINDOWS: 5 // Cheapest date windows returned
+  },
+
+  // Cross-platform duplicate detection (same property on Airbnb and Booking)
+  CROSS_PLATFORM_MATCHING: {
+    NAME_SIMILARITY_THRESHOLD: 0.85, // Name match alone is enough above this
+    NEARBY_NAME_SIMILARITY_THRESHOLD: 0.5, // Looser name match when the listings are next to each other
+    NEARBY_DISTANCE_METERS: 150,
+    MAX_DISTANCE_METERS: 1000 // Never merge listings further apart than this
+  },
+  
   // Geocoding service settings
   GEOCODING: {
     CACHE_EXPIRY_MS: 24 * 60 * 60 * 1000, // 24 hours
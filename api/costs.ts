@@ -0,0 +1,26 @@
+// Daily spend on paid APIs: estimated USD per service, search count and budget degradations
+//   GET /api/costs                  today (UTC)
+//   GET /api/costs?date=2025-03-14  an earlier day, while the spend store still holds it
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from './middleware'
+import { logger } from './observability/logger'
+import { daySpend, spendDay } from './budget'
+
+export default withApi(handler, { methods: ['GET'], cost: 0 })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const date = typeof req.query?.date === 'string' && req.query.date ? req.query.date : spendDay()
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'date must be YYYY-MM-DD', code: 'INVALID_REQUEST' })
+  }
+
+  try {
+    const summary = await daySpend(date)
+    if (!summary) return res.status(404).json({ error: 'Spend tracking is disabled; BUDGET_STORE is none' })
+    res.setHeader('Cache-Control', 'no-store')
+    return res.status(200).json(summary)
+  } catch (error) {
+    logger.error('Reading daily spend failed', { component: 'costs', error })
+    return res.status(503).json({ error: 'Spend store is unavailable' })
+  }
+}
@@ -0,0 +1,24 @@
+// Provider health: circuit breaker state and call counts for every enabled provider
+//   GET /api/health   200 while at least one provider can be called, 503 when every circuit is open
+// Counts are per serverless instance and reset on cold start.
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from './middleware'
+import { getEnabledProviders } from './providers/registry'
+import { providerCircuit } from './providers/resilience'
+
+// Uptime monitors poll this, so it does not spend rate-limit tokens
+export default withApi(handler, { methods: ['GET'], cost: 0 })
+
+async function handler(_req: VercelRequest, res: VercelResponse) {
+  // Health describes the live providers even when fixtures are configured
+  const providers = getEnabledProviders('live').map(provider => providerCircuit(provider.name).health())
+  const open = providers.filter(p => p.state !== 'closed').length
+  const status = providers.length === 0 || open === providers.length ? 'down' : open > 0 ? 'degraded' : 'ok'
+
+  res.setHeader('Cache-Control', 'no-store')
+  return res.status(status === 'down' ? 503 : 200).json({
+    status,
+    checkedAt: new Date().toISOString(),
+    providers
+  })
+}
@@ -0,0 +1,51 @@
+// Full details of one listing, normalized into ListingDetails and cached per listing
+//   GET /api/listing/airbnb/52871934
+//   GET /api/listing/booking/<property token>
+// `platform` and `id` are a search result's `platform` and `id`. Each provider fetches details its own way
+// (SearchProvider.details); under PROVIDER_FIXTURES=replay they come from fixtures/providers/<platform>/details/.
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from '../../middleware'
+import { readDetailsCache, writeDetailsCache } from '../../cache'
+import { CostLedger, withCostLedger } from '../../budget'
+import { getProvider } from '../../providers/registry'
+import { withTimeout } from '../../providers/resilience'
+import { ApiError } from '../../utils/api-error'
+import { assertListingRef, listingCacheEnabled, listingRef, sendListingError } from '../../utils/listing-endpoint'
+import { logger } from '../../observability/logger'
+
+const log = logger.child({ component: 'listing-details' })
+
+export default withApi(handler, { methods: ['GET'], route: '/api/listing/:platform/:id' })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const ref = listingRef(req)
+  const { platform, id } = ref
+  let budget: CostLedger | undefined
+
+  try {
+    assertListingRef(ref, '/api/listing')
+    const provider = getProvider(platform)
+    if (!provider?.details) throw new ApiError('UNKNOWN_PLATFORM', `Listing details are not available for "${platform}"`)
+
+    const live = listingCacheEnabled()
+    let details = live ? await readDetailsCache(platform, id) : null
+    res.setHeader('X-Cache', !live ? 'BYPASS' : details ? 'HIT' : 'MISS')
+    if (!details) {
+      budget = await CostLedger.open()
+      details = await withCostLedger(budget, () => withTimeout(provider.details!(id), provider.timeoutMs))
+      await budget.settle()
+      if (!details) throw new ApiError('LISTING_NOT_FOUND', `No ${platform} listing ${id}`)
+      if (live) await writeDetailsCache(details)
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=3600')
+    return res.status(200).json(details)
+  } catch (error) {
+    return sendListingError(res, error, ref, budget, {
+      code: 'DETAILS_UNAVAILABLE',
+      message: `Could not fetch ${platform} listing ${id}`,
+      log,
+      event: 'Listing details failed',
+    })
+  }
+}
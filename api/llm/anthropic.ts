@@ -0,0 +1,110 @@
+// Anthropic Messages API client
+// System prompts go in a top-level field and tool results travel as user turns of tool_result blocks
+import { API_CONFIG } from '../config'
+import type { LLMClient, LLMMessage, LLMRequest, LLMResponse } from './types'
+
+type AnthropicBlock =
+  | { type: 'text', text: string }
+  | { type: 'tool_use', id: string, name: string, input: unknown }
+  | { type: 'tool_result', tool_use_id: string, content: string }
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string | AnthropicBlock[]
+}
+
+interface AnthropicResponse {
+  content?: AnthropicBlock[]
+  usage?: { input_tokens?: number, output_tokens?: number }
+}
+
+export interface AnthropicClientOptions {
+  apiKey: string
+  baseUrl?: string
+  model?: string
+}
+
+function safeParse(json: string): unknown {
+  try { return JSON.parse(json || '{}') } catch { return {} }
+}
+
+// Consecutive tool results are sent back as one user turn, as the API expects
+function toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+  const converted: AnthropicMessage[] = []
+  for (const message of messages) {
+    if (message.role === 'system') continue
+    if (message.role === 'tool') {
+      const block: AnthropicBlock = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }
+      const last = converted[converted.length - 1]
+      if (last?.role === 'user' && Array.isArray(last.content) && last.content.every(b => b.type === 'tool_result')) {
+        last.content.push(block)
+      } else {
+        converted.push({ role: 'user', content: [block] })
+      }
+    } else if (message.role === 'assistant') {
+      const blocks: AnthropicBlock[] = []
+      if (message.content) blocks.push({ type: 'text', text: message.content })
+      for (const call of message.toolCalls || []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: safeParse(call.arguments) })
+      }
+      converted.push({ role: 'assistant', content: blocks })
+    } else {
+      converted.push({ role: 'user', content: message.content })
+    }
+  }
+  return converted
+}
+
+export function createAnthropicClient(options: AnthropicClientOptions): LLMClient {
+  const baseUrl = (options.baseUrl || API_CONFIG.LLM.ANTHROPIC_BASE_URL).replace(/\/+$/, '')
+  const model = options.model || API_CONFIG.LLM.MODELS.anthropic
+
+  return {
+    provider: 'anthropic',
+    model,
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const system = request.messages
+        .filter(m => m.role === 'system')
+        .map(m => m.content)
+        .join('\n')
+
+      const resp = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': options.apiKey,
+          'anthropic-version': API_CONFIG.LLM.ANTHROPIC_VERSION
+        },
+        body: JSON.stringify({
+          model,
+          temperature: API_CONFIG.LLM.TEMPERATURE,
+          max_tokens: API_CONFIG.LLM.MAX_TOKENS,
+          ...(system && { system }),
+          messages: toAnthropicMessages(request.messages),
+          ...(request.tools?.length && {
+            tools: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters
+            }))
+          })
+        }),
+        signal: AbortSignal.timeout(API_CONFIG.LLM.REQUEST_TIMEOUT_MS)
+      })
+      if (!resp.ok) throw new Error(`Anthropic error ${resp.status}`)
+
+      const data = await resp.json() as AnthropicResponse
+      const blocks = data.content || []
+      const text = blocks.flatMap(b => b.type === 'text' ? [b.text] : []).join('')
+      return {
+        content: text || null,
+        toolCalls: blocks.flatMap(b => b.type === 'tool_use'
+          ? [{ id: b.id, name: b.name, arguments: JSON.stringify(b.input ?? {}) }]
+          : []),
+        ...(data.usage && {
+          usage: { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        })
+      }
+    }
+  }
+}
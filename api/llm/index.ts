@@ -0,0 +1,80 @@
+// Picks the LLM backend for the search orchestrator from the environment.
+// LLM_PROVIDER=openai|anthropic|mock|none; without it, whichever of OPENAI_API_KEY / LLM_BASE_URL / ANTHROPIC_API_KEY is set.
+import { readFileSync } from 'fs'
+import { createAnthropicClient } from './anthropic'
+import { createMockClient, type MockScript } from './mock'
+import { createOpenAIClient } from './openai'
+import type { LLMClient, LLMProviderName } from './types'
+import { metrics } from '../observability/metrics'
+
+export type { LLMClient, LLMMessage, LLMResponse, LLMTool, LLMToolCall, LLMUsage } from './types'
+
+function selectedProvider(): LLMProviderName | null {
+  const configured = (process.env.LLM_PROVIDER || '').trim().toLowerCase()
+  if (configured === 'none') return null
+  if (configured === 'openai' || configured === 'anthropic' || configured === 'mock') return configured
+  if (configured) throw new Error(`Unknown LLM_PROVIDER "${configured}"; expected openai, anthropic, mock or none`)
+
+  if (process.env.OPENAI_API_KEY || process.env.LLM_BASE_URL) return 'openai'
+  if (process.env.ANTHROPIC_API_KEY) return 'anthropic'
+  return null
+}
+
+// LLM_MOCK_SCRIPT points at a JSON array of responses, one per turn
+function mockScript(): MockScript | undefined {
+  const file = process.env.LLM_MOCK_SCRIPT
+  return file ? JSON.parse(readFileSync(file, 'utf8')) as MockScript : undefined
+}
+
+// Completion count, latency and token usage per backend and model
+function instrumented(client: LLMClient): LLMClient {
+  const labels = { provider: client.provider, model: client.model }
+  return {
+    ...client,
+    async complete(request) {
+      const started = Date.now()
+      try {
+        const response = await client.complete(request)
+        metrics.llmRequests.inc({ ...labels, outcome: 'success' })
+        if (response.usage) {
+          metrics.llmTokens.inc({ ...labels, direction: 'input' }, response.usage.inputTokens)
+          metrics.llmTokens.inc({ ...labels, direction: 'output' }, response.usage.outputTokens)
+        }
+        return response
+      } catch (error) {
+        metrics.llmRequests.inc({ ...labels, outcome: 'error' })
+        throw error
+      } finally {
+        metrics.llmDuration.observe(labels, (Date.now() - started) / 1000)
+      }
+    }
+  }
+}
+
+/**
+ * A fresh client for one search, or null when no LLM is configured and the fallback parser should run.
+ */
+export function getLLMClient(): LLMClient | null {
+  const client = createClient()
+  return client && instrumented(client)
+}
+
+function createClient(): LLMClient | null {
+  const provider = selectedProvider()
+  const model = process.env.LLM_MODEL || undefined
+  const baseUrl = process.env.LLM_BASE_URL || undefined
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY || process.env.LLM_API_KEY, baseUrl, model })
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY
+      if (!apiKey) throw new Error('LLM_PROVIDER=anthropic requires ANTHROPIC_API_KEY')
+      return createAnthropicClient({ apiKey, baseUrl, model })
+    }
+    case 'mock':
+      return createMockClient(mockScript())
+    default:
+      return null
+  }
+}
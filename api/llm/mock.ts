@@ -0,0 +1,66 @@
+// Scripted stand-in for the LLM, for tests and offline runs
+// With a script it replays the given turns in order; without one it follows the orchestrator's
+// instructions deterministically: extract_params first, then every search tool with the extracted values.
+import { API_CONFIG } from '../config'
+import type { LLMClient, LLMMessage, LLMRequest, LLMResponse, LLMTool, LLMToolCall } from './types'
+
+export type MockScript = LLMResponse[] | ((request: LLMRequest, turn: number) => LLMResponse)
+
+const DONE: LLMResponse = { content: null, toolCalls: [] }
+
+function toolResult(messages: LLMMessage[], toolName: string): string | undefined {
+  const call = messages
+    .flatMap(m => m.role === 'assistant' ? m.toolCalls || [] : [])
+    .find(c => c.name === toolName)
+  if (!call) return undefined
+  const result = messages.find(m => m.role === 'tool' && m.toolCallId === call.id)
+  return result?.role === 'tool' ? result.content : undefined
+}
+
+// Only the arguments a tool's schema declares, so capability limits are respected like a real model would
+function argumentsFor(tool: LLMTool, values: Record<string, unknown>): Record<string, unknown> {
+  const properties = (tool.parameters.properties || {}) as Record<string, unknown>
+  return Object.fromEntries(
+    Object.keys(properties)
+      .filter(key => values[key] !== undefined && values[key] !== null)
+      .map(key => [key, values[key]])
+  )
+}
+
+function defaultTurn(request: LLMRequest, turn: number): LLMResponse {
+  const { messages, tools = [] } = request
+  const call = (name: string, args: Record<string, unknown>, i = 0): LLMToolCall =>
+    ({ id: `mock_${turn}_${i}`, name, arguments: JSON.stringify(args) })
+
+  const extracted = toolResult(messages, 'extract_params')
+  if (extracted === undefined) {
+    const query = [...messages].reverse().find(m => m.role === 'user')?.content || ''
+    return tools.some(t => t.name === 'extract_params') ? { content: null, toolCalls: [call('extract_params', { query })] } : DONE
+  }
+
+  const searched = messages.some(m => m.role === 'assistant' && m.toolCalls?.some(c => c.name.startsWith('search_')))
+  let params: Record<string, unknown> = {}
+  try { params = JSON.parse(extracted) } catch { /* treated as no location */ }
+  if (searched || !params.location) return DONE
+
+  return {
+    content: null,
+    toolCalls: tools
+      .filter(t => t.name.startsWith('search_'))
+      .map((t, i) => call(t.name, argumentsFor(t, params), i))
+  }
+}
+
+export function createMockClient(script?: MockScript): LLMClient {
+  let turn = 0
+  return {
+    provider: 'mock',
+    model: API_CONFIG.LLM.MODELS.mock,
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const current = turn++
+      if (typeof script === 'function') return script(request, current)
+      if (script) return script[current] || DONE
+      return defaultTurn(request, current)
+    }
+  }
+}
@@ -0,0 +1,95 @@
+// OpenAI chat completions client
+// Also covers OpenAI-compatible servers (llama.cpp, Ollama, vLLM, LM Studio) through a different base URL
+import { API_CONFIG } from '../config'
+import type { LLMClient, LLMMessage, LLMRequest, LLMResponse } from './types'
+
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string, arguments: string }
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | null
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+}
+
+interface OpenAIChatResponse {
+  choices?: { message?: OpenAIMessage }[]
+  usage?: { prompt_tokens?: number, completion_tokens?: number }
+}
+
+export interface OpenAIClientOptions {
+  // Local servers usually need no key
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAIMessage {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments }
+          }))
+        })
+      }
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+    default:
+      return { role: message.role, content: message.content }
+  }
+}
+
+export function createOpenAIClient(options: OpenAIClientOptions = {}): LLMClient {
+  const baseUrl = (options.baseUrl || API_CONFIG.LLM.OPENAI_BASE_URL).replace(/\/+$/, '')
+  const model = options.model || API_CONFIG.LLM.MODELS.openai
+
+  return {
+    provider: 'openai',
+    model,
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const resp = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey && { 'Authorization': `Bearer ${options.apiKey}` })
+        },
+        body: JSON.stringify({
+          model,
+          temperature: API_CONFIG.LLM.TEMPERATURE,
+          max_tokens: API_CONFIG.LLM.MAX_TOKENS,
+          messages: request.messages.map(toOpenAIMessage),
+          ...(request.tools?.length && {
+            tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+            tool_choice: 'auto'
+          })
+        }),
+        signal: AbortSignal.timeout(API_CONFIG.LLM.REQUEST_TIMEOUT_MS)
+      })
+      if (!resp.ok) throw new Error(`OpenAI error ${resp.status}`)
+
+      const data = await resp.json() as OpenAIChatResponse
+      const msg = data.choices?.[API_CONFIG.FIRST_CHOICE_INDEX]?.message
+      return {
+        content: msg?.content || null,
+        toolCalls: (msg?.tool_calls || []).map(call => ({
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments || '{}'
+        })),
+        ...(data.usage && {
+          usage: { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        })
+      }
+    }
+  }
+}
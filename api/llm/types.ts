@@ -0,0 +1,46 @@
+// Backend-neutral contracts for the LLM orchestrator
+// Each client translates these to its own wire format, so the tool-calling loop does not know which model it talks to
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  // JSON-encoded arguments, as the model produced them
+  arguments: string
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user', content: string }
+  | { role: 'assistant', content: string | null, toolCalls?: LLMToolCall[] }
+  | { role: 'tool', toolCallId: string, content: string }
+
+export interface LLMTool {
+  name: string
+  description: string
+  // JSON Schema of the arguments
+  parameters: Record<string, unknown>
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[]
+  tools?: LLMTool[]
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  content: string | null
+  toolCalls: LLMToolCall[]
+  // Token counts as billed; absent when the backend does not report them
+  usage?: LLMUsage
+}
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock'
+
+export interface LLMClient {
+  provider: LLMProviderName
+  model: string
+  complete(request: LLMRequest): Promise<LLMResponse>
+}
@@ -0,0 +1,24 @@
+// Prometheus metrics: search volume, provider outcomes and latency, cache hit rates, LLM token usage
+//   GET /api/metrics   text exposition format 0.0.4, for a Prometheus scrape job
+// Aggregates across serverless instances only with METRICS_STORE=redis; see api/observability/metrics.ts.
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from './middleware'
+import { logger } from './observability/logger'
+import { getMetricsStore, renderMetrics } from './observability/metrics'
+
+// Scrapers poll this, so it does not spend rate-limit tokens
+export default withApi(handler, { methods: ['GET'], cost: 0 })
+
+async function handler(_req: VercelRequest, res: VercelResponse) {
+  if (!getMetricsStore()) return res.status(404).json({ error: 'Metrics are disabled; METRICS_STORE is none' })
+
+  try {
+    const body = await renderMetrics()
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+    res.setHeader('Cache-Control', 'no-store')
+    return res.status(200).send(body)
+  } catch (error) {
+    logger.error('Rendering metrics failed', { component: 'metrics', error })
+    return res.status(503).json({ error: 'Metrics store is unavailable' })
+  }
+}
@@ -0,0 +1,56 @@
+// Optional API-key authentication
+//   API_KEYS="mobile:k_123,partner:k_456" (the "name:" prefix is optional), sent as `Authorization: Bearer <key>` or `X-API-Key`
+//   API_AUTH=required rejects requests without a key; otherwise a key only earns its own, larger rate-limit bucket
+import { createHash, timingSafeEqual } from 'crypto'
+import type { VercelRequest } from '@vercel/node'
+
+export interface AuthResult {
+  // Name of the matched key (or a hash prefix when it has none); undefined for anonymous requests
+  client?: string
+  error?: string
+}
+
+interface ApiKey {
+  name: string
+  digest: Buffer
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+function configuredKeys(): ApiKey[] {
+  return (process.env.API_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':')
+      const key = separator > 0 ? entry.slice(separator + 1) : entry
+      const name = separator > 0 ? entry.slice(0, separator) : `key-${digest(key).toString('hex').slice(0, 8)}`
+      return { name, digest: digest(key) }
+    })
+}
+
+function presentedKey(req: VercelRequest): string | undefined {
+  const header = req.headers?.['x-api-key']
+  if (typeof header === 'string' && header) return header
+  const authorization = req.headers?.authorization
+  const match = typeof authorization === 'string' ? /^Bearer\s+(.+)$/i.exec(authorization) : null
+  return match?.[1]
+}
+
+export function authRequired(): boolean {
+  return (process.env.API_AUTH || '').trim().toLowerCase() === 'required'
+}
+
+export function authenticate(req: VercelRequest): AuthResult {
+  const keys = configuredKeys()
+  const key = presentedKey(req)
+  if (!key) return authRequired() ? { error: 'API key required' } : {}
+  // Without configured keys there is nothing to check a key against
+  if (keys.length === 0) return authRequired() ? { error: 'Invalid API key' } : {}
+
+  // Compare digests so the check takes the same time whatever the key
+  const presented = digest(key)
+  const match = keys.find(k => timingSafeEqual(k.digest, presented))
+  return match ? { client: match.name } : { error: 'Invalid API key' }
+}
@@ -0,0 +1,41 @@
+// CORS origin allowlist
+// CORS_ALLOWED_ORIGINS="https://chatbnb.vercel.app,https://*.vercel.app,http://localhost:5173"; unset or "*" allows any origin
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization, X-API-Key, X-Request-Id'
+const EXPOSED_HEADERS = 'X-Request-Id, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining'
+
+function allowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '*').split(',').map(s => s.trim()).filter(Boolean)
+}
+
+// "https://*.vercel.app" matches any single subdomain level, e.g. preview deployments
+function matches(pattern: string, origin: string): boolean {
+  if (pattern === '*' || pattern === origin) return true
+  if (!pattern.includes('*')) return false
+  const regex = new RegExp('^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^./]+') + '$')
+  return regex.test(origin)
+}
+
+/**
+ * Set the CORS headers for this request. Returns false when the request comes from a browser
+ * origin that is not on the allowlist; requests without an Origin header (curl, servers) pass.
+ */
+export function applyCors(req: VercelRequest, res: VercelResponse, methods: string[]): boolean {
+  const origin = typeof req.headers?.origin === 'string' ? req.headers.origin : ''
+  const patterns = allowedOrigins()
+
+  res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '))
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS)
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS)
+
+  if (patterns.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*')
+    return true
+  }
+  res.setHeader('Vary', 'Origin')
+  if (!origin) return true
+  if (!patterns.some(pattern => matches(pattern, origin))) return false
+  res.setHeader('Access-Control-Allow-Origin', origin)
+  return true
+}
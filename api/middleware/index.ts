@@ -0,0 +1,104 @@
+// Shared middleware for every Vercel handler under api/: CORS allowlist, method check,
+// optional API-key authentication and token-bucket rate limiting, in that order.
+// Every request gets a generated X-Request-Id that tags its log lines, an access log line and HTTP metrics.
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate } from './auth'
+import { applyCors } from './cors'
+import { bucketPolicy, getRateLimitStore } from './rate-limit'
+import { logger, newRequestId, upstreamRequestIdFrom, withRequestContext } from '../observability/logger'
+import { flushMetrics, metrics } from '../observability/metrics'
+
+type ApiHandler = (req: VercelRequest, res: VercelResponse) => unknown
+
+export interface ApiRouteOptions {
+  // Accepted methods besides the OPTIONS preflight
+  methods: string[]
+  // Tokens one request spends; routes that launch browsers or proxies cost more. 0 skips rate limiting
+  cost?: number
+  // Label for logs and metrics; the request path by default, so routes with IDs in the path must set it
+  route?: string
+  // Only callers with a valid API key, whatever API_AUTH says; for debug routes that expose other requests' data
+  requireKey?: boolean
+}
+
+const log = logger.child({ component: 'api' })
+
+function clientIp(req: VercelRequest): string {
+  const forwarded = req.headers?.['x-forwarded-for']
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded || '').split(',')[0].trim()
+  const realIp = req.headers?.['x-real-ip']
+  return first || (typeof realIp === 'string' ? realIp : '') || req.socket?.remoteAddress || 'unknown'
+}
+
+export function withApi(handler: ApiHandler, options: ApiRouteOptions): ApiHandler {
+  const guarded = guard(handler, options)
+
+  return async (req, res) => {
+    const route = options.route || (req.url || '/').split('?')[0]
+    const requestId = newRequestId()
+    const upstreamRequestId = upstreamRequestIdFrom(req.headers?.['x-request-id'])
+    res.setHeader('X-Request-Id', requestId)
+    const started = Date.now()
+
+    return withRequestContext({ requestId, route, ...(upstreamRequestId && { upstreamRequestId }) }, async () => {
+      let failed = false
+      try {
+        return await guarded(req, res)
+      } catch (error) {
+        failed = true
+        throw error
+      } finally {
+        // The platform answers 500 for a handler that throws
+        const status = failed ? 500 : res.statusCode
+        const durationMs = Date.now() - started
+        metrics.httpRequests.inc({ route, method: req.method, status })
+        metrics.httpDuration.observe({ route }, durationMs / 1000)
+        log.info('Request handled', { method: req.method, status, durationMs })
+        // Serverless instances may be frozen once the handler returns
+        await flushMetrics()
+      }
+    })
+  }
+}
+
+function guard(handler: ApiHandler, options: ApiRouteOptions): ApiHandler {
+  const { methods, cost = 1, requireKey = false } = options
+
+  return async (req, res) => {
+    const originAllowed = applyCors(req, res, methods)
+    if (!originAllowed) return res.status(403).json({ error: 'Origin not allowed', code: 'ORIGIN_NOT_ALLOWED' })
+    if (req.method === 'OPTIONS') return res.status(204).end()
+    if (!methods.includes(req.method || '')) {
+      res.setHeader('Allow', [...methods, 'OPTIONS'].join(', '))
+      return res.status(405).json({ error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' })
+    }
+
+    const auth = authenticate(req)
+    const authError = auth.error || (requireKey && !auth.client ? 'API key required' : undefined)
+    if (authError) {
+      res.setHeader('WWW-Authenticate', 'Bearer')
+      return res.status(401).json({ error: authError, code: 'UNAUTHORIZED' })
+    }
+
+    const limiter = getRateLimitStore()
+    if (limiter && cost > 0) {
+      const client = auth.client ? `key:${auth.client}` : `ip:${clientIp(req)}`
+      try {
+        const decision = await limiter.take(client, bucketPolicy(!!auth.client), cost)
+        res.setHeader('X-RateLimit-Limit', String(decision.limit))
+        res.setHeader('X-RateLimit-Remaining', String(decision.remaining))
+        if (!decision.allowed) {
+          const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000))
+          res.setHeader('Retry-After', String(retryAfter))
+          log.warn('Rate limited', { client, retryAfter })
+          return res.status(429).json({ error: 'Too many requests', code: 'RATE_LIMITED', retryAfter })
+        }
+      } catch (error) {
+        // An unreachable counter store must not take the API down with it
+        log.warn('Rate limit store failed; allowing request', { store: limiter.name, error })
+      }
+    }
+
+    return handler(req, res)
+  }
+}
@@ -0,0 +1,134 @@
+// Token-bucket rate limiting with a pluggable counter store
+// Each client gets a bucket of `capacity` tokens that refills continuously; a request spends `cost` tokens.
+//   RATE_LIMIT_STORE=memory|redis (default: redis when REDIS_URL is set), RATE_LIMIT=off to disable
+import { API_CONFIG } from '../config'
+import { redisClient, type RedisClient } from '../cache/redis'
+import { logger } from '../observability/logger'
+
+const LIMITS = API_CONFIG.RATE_LIMIT
+
+export interface BucketPolicy {
+  capacity: number
+  refillPerMinute: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // How long until the request would be allowed; 0 when it was
+  retryAfterMs: number
+}
+
+export interface RateLimitStore {
+  name: string
+  take(key: string, policy: BucketPolicy, cost: number): Promise<RateLimitDecision>
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+const refillPerMs = (policy: BucketPolicy) => policy.refillPerMinute / 60000
+
+function decide(tokens: number, policy: BucketPolicy, cost: number, allowed: boolean): RateLimitDecision {
+  return {
+    allowed,
+    limit: policy.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs(policy))
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private buckets = new Map<string, Bucket>()
+
+  constructor(private readonly maxBuckets: number) {}
+
+  async take(key: string, policy: BucketPolicy, cost: number): Promise<RateLimitDecision> {
+    const now = Date.now()
+    const bucket = this.buckets.get(key) || { tokens: policy.capacity, updatedAt: now }
+    const tokens = Math.min(policy.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs(policy))
+    const allowed = tokens >= cost
+    const left = allowed ? tokens - cost : tokens
+
+    this.buckets.delete(key)
+    this.buckets.set(key, { tokens: left, updatedAt: now })
+    // Least recently seen clients go first; a forgotten client simply starts with a full bucket
+    while (this.buckets.size > this.maxBuckets) {
+      this.buckets.delete(this.buckets.keys().next().value!)
+    }
+    return decide(left, policy, cost, allowed)
+  }
+}
+
+// Refill and spend in one script, so concurrent instances cannot both spend the last token
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+return { allowed, tostring(tokens) }
+`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis'
+
+  constructor(private readonly client: RedisClient) {}
+
+  async take(key: string, policy: BucketPolicy, cost: number): Promise<RateLimitDecision> {
+    const reply = await this.client.command([
+      'EVAL', TAKE_SCRIPT, '1', `ratelimit:${key}`,
+      String(policy.capacity), String(refillPerMs(policy)), String(Date.now()), String(cost)
+    ])
+    if (!Array.isArray(reply)) throw new Error('Unexpected rate limit reply')
+    return decide(Number(reply[1]), policy, cost, reply[0] === 1)
+  }
+}
+
+let store: RateLimitStore | null | undefined
+
+export function getRateLimitStore(): RateLimitStore | null {
+  if (store !== undefined) return store
+  const setting = (process.env.RATE_LIMIT || '').trim().toLowerCase()
+  const backend = (process.env.RATE_LIMIT_STORE || (process.env.REDIS_URL ? 'redis' : 'memory')).trim().toLowerCase()
+
+  if (setting === 'off' || setting === 'false' || setting === '0') {
+    store = null
+  } else if (backend === 'redis' && process.env.REDIS_URL) {
+    store = new RedisRateLimitStore(redisClient(process.env.REDIS_URL, LIMITS.REDIS_TIMEOUT_MS))
+  } else {
+    if (backend !== 'memory') logger.warn('Rate limit store is not available; using memory', { component: 'rate-limit', store: backend })
+    store = new MemoryRateLimitStore(LIMITS.MAX_MEMORY_BUCKETS)
+  }
+  return store
+}
+
+export function bucketPolicy(hasApiKey: boolean): BucketPolicy {
+  const number = (value: string | undefined, fallback: number) => {
+    const n = Number(value)
+    return value && Number.isFinite(n) && n > 0 ? n : fallback
+  }
+  return hasApiKey
+    ? {
+      capacity: number(process.env.RATE_LIMIT_API_KEY_CAPACITY, LIMITS.API_KEY_CAPACITY),
+      refillPerMinute: number(process.env.RATE_LIMIT_API_KEY_REFILL_PER_MINUTE, LIMITS.API_KEY_REFILL_PER_MINUTE)
+    }
+    : {
+      capacity: number(process.env.RATE_LIMIT_CAPACITY, LIMITS.CAPACITY),
+      refillPerMinute: number(process.env.RATE_LIMIT_REFILL_PER_MINUTE, LIMITS.REFILL_PER_MINUTE)
+    }
+}
@@ -0,0 +1,109 @@
+// Structured logging: one JSON object per line, tagged with the request being served
+//   LOG_LEVEL=debug|info|warn|error|silent  (default info)
+//   LOG_FORMAT=json|pretty                  (default json; pretty is one readable line for local development)
+// The middleware opens a request context, so every line logged while a request runs carries its ID,
+// however deep in the providers or services it is written.
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomUUID } from 'crypto'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // A logger that adds `fields` to every line, e.g. { component: 'geocoding' }
+  child(fields: LogFields): Logger
+}
+
+export interface RequestContext {
+  requestId: string
+  route?: string
+  // The caller's X-Request-Id, logged for correlation with a proxy; never used as the request ID
+  upstreamRequestId?: string
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const requestContext = new AsyncLocalStorage<RequestContext>()
+
+export function withRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn)
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId
+}
+
+// Request IDs are always generated here: they key traces, so a caller must not be able to pick one
+export function newRequestId(): string {
+  return randomUUID()
+}
+
+// A caller's request ID (e.g. from a proxy) when it looks like one
+export function upstreamRequestIdFrom(header: string | string[] | undefined): string | undefined {
+  const value = Array.isArray(header) ? header[0] : header
+  return value && /^[A-Za-z0-9._-]{8,128}$/.test(value) ? value : undefined
+}
+
+function minLevel(): number {
+  const configured = (process.env.LOG_LEVEL || '').trim().toLowerCase()
+  if (configured === 'silent') return Infinity
+  return LEVELS[configured as LogLevel] ?? LEVELS.info
+}
+
+// Errors do not survive JSON.stringify; keep what identifies them
+function serialize(value: unknown): unknown {
+  if (!(value instanceof Error)) return value
+  const { code } = value as Error & { code?: unknown }
+  return { name: value.name, message: value.message, ...(code !== undefined && { code }), stack: value.stack }
+}
+
+function pretty(entry: LogFields): string {
+  const { time, level, msg, requestId, ...fields } = entry
+  const extras = Object.entries(fields).map(([key, value]) => {
+    // Serialized errors show their message; the stack is in the JSON format
+    const shown = value && typeof value === 'object' && 'stack' in value && 'message' in value ? value.message : value
+    return `${key}=${typeof shown === 'string' ? shown : JSON.stringify(shown)}`
+  })
+  const id = typeof requestId === 'string' ? ` [${requestId.slice(0, 8)}]` : ''
+  return `${String(time).slice(11, 23)} ${String(level).toUpperCase().padEnd(5)}${id} ${msg}${extras.length ? ' ' + extras.join(' ') : ''}`
+}
+
+function write(level: LogLevel, message: string, bound: LogFields, fields?: LogFields) {
+  if (LEVELS[level] < minLevel()) return
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...requestContext.getStore(),
+    ...bound
+  }
+  for (const [key, value] of Object.entries(fields || {})) {
+    if (value !== undefined) entry[key] = serialize(value)
+  }
+  let line: string
+  try {
+    line = process.env.LOG_FORMAT === 'pretty' ? pretty(entry) : JSON.stringify(entry)
+  } catch {
+    // Circular or BigInt fields; the message still gets out
+    line = JSON.stringify({ time: entry.time, level, msg: message, requestId: entry.requestId })
+  }
+  if (level === 'error' || level === 'warn') console.error(line)
+  else console.log(line)
+}
+
+function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, bound, fields),
+    info: (message, fields) => write('info', message, bound, fields),
+    warn: (message, fields) => write('warn', message, bound, fields),
+    error: (message, fields) => write('error', message, bound, fields),
+    child: fields => createLogger({ ...bound, ...fields })
+  }
+}
+
+export const logger = createLogger()
@@ -0,0 +1,211 @@
+// Prometheus metrics for the API, rendered in the text exposition format by /api/metrics
+// Every api/ route runs as its own serverless function, so the values are kept in a shared store:
+//   METRICS_STORE=memory|redis|none  (default: redis when REDIS_URL is set, otherwise memory)
+// The memory store only counts what its own instance served, which suits `vercel dev` and single-process hosting.
+import { API_CONFIG } from '../config'
+import { redisClient, type RedisClient } from '../cache/redis'
+import { logger } from './logger'
+
+const CONFIG = API_CONFIG.OBSERVABILITY
+
+const log = logger.child({ component: 'metrics' })
+
+export type Labels = Record<string, string | number | boolean | undefined>
+
+type MetricType = 'counter' | 'gauge' | 'histogram'
+
+// Sample values of one metric keyed by series suffix and label set, e.g. `_bucket{le="0.5",provider="airbnb"}`
+export type MetricValues = Map<string, number>
+
+export interface MetricsStore {
+  name: string
+  increment(metric: string, series: string, value: number): Promise<void>
+  set(metric: string, series: string, value: number): Promise<void>
+  read(metric: string): Promise<MetricValues>
+}
+
+export class MemoryMetricsStore implements MetricsStore {
+  readonly name = 'memory'
+  private readonly metrics = new Map<string, MetricValues>()
+
+  private values(metric: string): MetricValues {
+    let values = this.metrics.get(metric)
+    if (!values) {
+      values = new Map()
+      this.metrics.set(metric, values)
+    }
+    return values
+  }
+
+  async increment(metric: string, series: string, value: number) {
+    const values = this.values(metric)
+    values.set(series, (values.get(series) || 0) + value)
+  }
+
+  async set(metric: string, series: string, value: number) {
+    this.values(metric).set(series, value)
+  }
+
+  async read(metric: string): Promise<MetricValues> {
+    return new Map(this.values(metric))
+  }
+}
+
+// One hash per metric; HINCRBYFLOAT keeps concurrent instances from losing increments
+export class RedisMetricsStore implements MetricsStore {
+  readonly name = 'redis'
+
+  constructor(private readonly client: RedisClient) {}
+
+  async increment(metric: string, series: string, value: number) {
+    await this.client.command(['HINCRBYFLOAT', `metrics:${metric}`, series, String(value)])
+  }
+
+  async set(metric: string, series: string, value: number) {
+    await this.client.command(['HSET', `metrics:${metric}`, series, String(value)])
+  }
+
+  async read(metric: string): Promise<MetricValues> {
+    const reply = await this.client.command(['HGETALL', `metrics:${metric}`])
+    const values: MetricValues = new Map()
+    if (!Array.isArray(reply)) return values
+    for (let i = 0; i + 1 < reply.length; i += 2) values.set(String(reply[i]), Number(reply[i + 1]))
+    return values
+  }
+}
+
+let store: MetricsStore | null | undefined
+
+export function getMetricsStore(): MetricsStore | null {
+  if (store !== undefined) return store
+  const backend = (process.env.METRICS_STORE || (process.env.REDIS_URL ? 'redis' : 'memory')).trim().toLowerCase()
+  if (backend === 'none') {
+    store = null
+  } else if (backend === 'redis' && process.env.REDIS_URL) {
+    store = new RedisMetricsStore(redisClient(process.env.REDIS_URL, CONFIG.REDIS_TIMEOUT_MS))
+  } else {
+    if (backend !== 'memory') log.warn('Metrics store is not available; using memory', { store: backend })
+    store = new MemoryMetricsStore()
+  }
+  return store
+}
+
+// Writes are fire-and-forget so a slow store never delays a search; flushMetrics() waits for them
+const pending = new Set<Promise<void>>()
+let failing = false
+
+function write(operation: (store: MetricsStore) => Promise<void>) {
+  const target = getMetricsStore()
+  if (!target) return
+  const done = operation(target).then(
+    () => { failing = false },
+    error => {
+      // Once per outage rather than once per sample
+      if (!failing) log.warn('Metrics store write failed', { store: target.name, error })
+      failing = true
+    }
+  ).finally(() => pending.delete(done))
+  pending.add(done)
+}
+
+export async function flushMetrics(): Promise<void> {
+  await Promise.all([...pending])
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+// Sorted, so the same labels always address the same series
+function labelText(labels: Labels): string {
+  const entries = Object.entries(labels).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b))
+  return entries.length ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(String(value))}"`).join(',')}}` : ''
+}
+
+interface MetricDefinition {
+  name: string
+  help: string
+  type: MetricType
+}
+
+const registry: MetricDefinition[] = []
+
+function define(name: string, help: string, type: MetricType): string {
+  const fullName = CONFIG.METRIC_PREFIX + name
+  registry.push({ name: fullName, help, type })
+  return fullName
+}
+
+export class Counter {
+  readonly name: string
+
+  constructor(name: string, help: string) {
+    this.name = define(name, help, 'counter')
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    if (value > 0) write(target => target.increment(this.name, labelText(labels), value))
+  }
+}
+
+export class Gauge {
+  readonly name: string
+
+  constructor(name: string, help: string) {
+    this.name = define(name, help, 'gauge')
+  }
+
+  set(labels: Labels, value: number) {
+    write(target => target.set(this.name, labelText(labels), value))
+  }
+}
+
+export class Histogram {
+  readonly name: string
+
+  constructor(name: string, help: string, private readonly buckets: readonly number[] = CONFIG.LATENCY_BUCKETS_SECONDS) {
+    this.name = define(name, help, 'histogram')
+  }
+
+  // Buckets are stored cumulatively, as Prometheus expects them
+  observe(labels: Labels, value: number) {
+    const bounds = [...this.buckets.filter(bound => value <= bound).map(String), '+Inf']
+    write(async target => {
+      await Promise.all([
+        ...bounds.map(le => target.increment(this.name, `_bucket${labelText({ ...labels, le })}`, 1)),
+        target.increment(this.name, `_sum${labelText(labels)}`, value),
+        target.increment(this.name, `_count${labelText(labels)}`, 1)
+      ])
+    })
+  }
+}
+
+export const metrics = {
+  httpRequests: new Counter('http_requests_total', 'API requests by route, method and status'),
+  httpDuration: new Histogram('http_request_duration_seconds', 'API request latency by route'),
+  searches: new Counter('searches_total', 'Searches by orchestration mode and outcome (success or the error code)'),
+  providerRequests: new Counter('provider_requests_total', 'Provider searches by outcome; skipped means the circuit was open'),
+  providerDuration: new Histogram('provider_request_duration_seconds', 'Latency of provider searches that reached the provider, by outcome'),
+  providerRetries: new Counter('provider_retries_total', 'Retries of transient provider failures'),
+  providerCache: new Counter('provider_cache_requests_total', 'Provider response cache lookups by result (hit or miss)'),
+  providerCircuitOpen: new Gauge('provider_circuit_open', '1 while the provider is skipped after repeated failures, as last reported by an instance'),
+  llmRequests: new Counter('llm_requests_total', 'LLM completions by backend, model and outcome'),
+  llmDuration: new Histogram('llm_request_duration_seconds', 'LLM completion latency by backend and model'),
+  llmTokens: new Counter('llm_tokens_total', 'LLM tokens by backend, model and direction (input or output)'),
+  geocodingRequests: new Counter('geocoding_requests_total', 'Geocoding lookups by result (cache_hit, resolved or not_found)'),
+  geocodingCacheEntries: new Gauge('geocoding_cache_entries', 'Geocoding cache size as last reported by an instance'),
+  dedupRequests: new Counter('request_dedup_requests_total', 'Fetches through the request deduplicator by result (new or deduplicated)'),
+  dedupDuration: new Histogram('request_dedup_response_seconds', 'Response time of fetches the request deduplicator sent'),
+  dedupCacheEntries: new Gauge('request_dedup_cache_entries', 'In-flight request cache size as last reported by an instance'),
+  spend: new Counter('external_spend_usd_total', 'Estimated spend on paid APIs by service (llm, scrapingbee or serpapi)'),
+  budgetDegradations: new Counter('budget_degradations_total', 'Searches that gave something up to stay within budget, by kind')
+}
+
+export async function renderMetrics(): Promise<string> {
+  const target = getMetricsStore()
+  const lines: string[] = []
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`)
+    const values = target ? await target.read(metric.name) : new Map<string, number>()
+    for (const [series, value] of values) lines.push(`${metric.name}${series} ${value}`)
+  }
+  return lines.join('\n') + '\n'
+}
@@ -1,23 +1,26 @@
 // Health check endpoint to verify Chrome initialization
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from './middleware'
+import { logger } from './observability/logger'
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+const log = logger.child({ component: 'ping-chrome' })
+
+// Launching Chrome is the most expensive thing any route does
+export default withApi(handler, { methods: ['GET'], cost: 5 })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    console.log('🏥 Chrome health check starting...')
-    
     // Use Function wrapper to import Chrome modules
     const ChromiumClass = (await (new Function('s', 'return import(s)'))('@sparticuz/chromium')).default;
     const puppeteerModule = await (new Function('s', 'return import(s)'))('puppeteer-core');
     
-    console.log('✅ Modules imported successfully')
-    
     // Use remote executable
     const REMOTE_EXECUTABLE = 
       process.env.CHROMIUM_REMOTE_EXEC_PATH ?? 
       'https://github.com/Sparticuz/chromium/releases/download/v133.0.0/chromium-v133.0.0-pack.tar.br'
     
     const executablePath = await ChromiumClass.executablePath(REMOTE_EXECUTABLE)
-    console.log('✅ Executable path resolved:', executablePath)
+    log.debug('Executable path resolved', { executablePath })
     
     const browser = await puppeteerModule.launch({
       executablePath,
@@ -26,7 +29,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
     
     const version = await browser.version()
-    console.log('✅ Chrome version:', version)
+    log.info('Chrome is healthy', { version })
     
     await browser.close()
     
@@ -40,7 +43,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
     
   } catch (error) {
-    console.error('❌ Chrome health check failed:', error)
+    log.error('Chrome health check failed', { error })
     return res.status(500).json({
       status: 'unhealthy',
       error: error instanceof Error ? error.message : 'Unknown error',
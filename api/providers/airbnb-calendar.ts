@@ -0,0 +1,69 @@
+// Airbnb availability and nightly prices from the v2 calendar_months API, the same web API family as pdp_listing_details
+import { AIRBNB_HEADERS } from '../airbnb-api'
+import { API_CONFIG } from '../config'
+import { recordCalendarFixture } from './fixtures'
+import { fetchThroughProxy } from './proxy'
+import type { CalendarDay, CalendarRange, ListingCalendar } from './types'
+
+export interface AirbnbCalendarResponse {
+  calendar_months?: {
+    month?: number
+    year?: number
+    days?: {
+      date?: string
+      available?: boolean
+      min_nights?: number
+      available_for_checkin?: boolean
+      available_for_checkout?: boolean
+      price?: { local_price?: number, local_currency?: string }
+    }[]
+  }[]
+}
+
+export async function fetchAirbnbCalendar(id: string, range: CalendarRange): Promise<ListingCalendar | null> {
+  const [year, month] = range.from.split('-').map(Number)
+  const [toYear, toMonth] = range.to.split('-').map(Number)
+  const url = new URL('https://www.airbnb.com/api/v2/calendar_months')
+  url.searchParams.set('listing_id', id)
+  url.searchParams.set('month', String(month))
+  url.searchParams.set('year', String(year))
+  url.searchParams.set('count', String((toYear - year) * 12 + toMonth - month + 1))
+  url.searchParams.set('currency', API_CONFIG.PRICING.QUERY_CURRENCY)
+  url.searchParams.set('_format', 'with_conditions')
+  url.searchParams.set('key', AIRBNB_HEADERS['X-Airbnb-API-Key'])
+  const resp = await fetchThroughProxy(url.toString(), { headers: AIRBNB_HEADERS })
+  if (resp.status === 404) return null
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '')
+    throw new Error(`Airbnb calendar ${resp.status}: ${resp.statusText}${text ? ` - ${text.slice(0, 160)}` : ''}`)
+  }
+  const data = await resp.json() as AirbnbCalendarResponse
+  await recordCalendarFixture('airbnb', 'airbnb_calendar_months', id, range, data)
+  return mapAirbnbCalendar(data, id, range)
+}
+
+export function mapAirbnbCalendar(data: AirbnbCalendarResponse | null, id: string, range: CalendarRange): ListingCalendar | null {
+  if (!data?.calendar_months) return null
+  // Each month pads its first and last week with days of the neighbouring months; keep one entry per date
+  const days = new Map<string, CalendarDay>()
+  let currency: string | undefined
+  for (const day of data.calendar_months.flatMap(month => month.days || [])) {
+    if (!day.date || day.date < range.from || day.date > range.to || days.has(day.date)) continue
+    currency = currency || day.price?.local_currency
+    days.set(day.date, {
+      date: day.date,
+      available: day.available === true,
+      price: day.price?.local_price || undefined,
+      minNights: day.min_nights || undefined,
+      checkinAllowed: day.available_for_checkin,
+      checkoutAllowed: day.available_for_checkout,
+    })
+  }
+  return {
+    id,
+    platform: 'airbnb',
+    currency: (currency || API_CONFIG.PRICING.QUERY_CURRENCY).toUpperCase(),
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    fetchedAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,158 @@
+// Airbnb listing details from the v2 pdp_listing_details API, the same web API family as explore_tabs
+import { AIRBNB_HEADERS } from '../airbnb-api'
+import { recordDetailsFixture } from './fixtures'
+import { fetchThroughProxy } from './proxy'
+import type { ListingDetails, SleepingArrangement } from './types'
+
+export interface AirbnbPdpResponse {
+  pdp_listing_detail?: AirbnbPdpListing
+}
+
+interface AirbnbPdpListing {
+  id?: number | string
+  name?: string
+  room_and_property_type?: string
+  room_type_category?: string
+  person_capacity?: number
+  bathroom_label?: string
+  bedroom_label?: string
+  bed_label?: string
+  sectioned_description?: { description?: string, summary?: string, space?: string }
+  listing_amenities?: { name?: string, is_present?: boolean }[]
+  guest_controls?: { allows_children?: boolean, allows_pets?: boolean, allows_smoking?: boolean, allows_events?: boolean }
+  additional_house_rules?: string
+  localized_check_in_time_window?: string
+  localized_check_out_time?: string
+  cancellation_policy_label?: string
+  cancellation_policy_category?: string
+  cancellation_policy_description?: string
+  listing_rooms?: { room_number?: number, name?: string, beds?: { type?: string, quantity?: number }[] }[]
+  photos?: { large?: string, picture?: string, caption?: string }[]
+  primary_host?: { host_name?: string, first_name?: string, is_superhost?: boolean, member_since?: string }
+  lat?: number
+  lng?: number
+  localized_city?: string
+  localized_country?: string
+  avg_rating?: number
+  guest_satisfaction_overall?: number
+  visible_review_count?: number
+  reviews_count?: number
+}
+
+export async function fetchAirbnbDetails(id: string): Promise<ListingDetails | null> {
+  const url = new URL(`https://www.airbnb.com/api/v2/pdp_listing_details/${encodeURIComponent(id)}`)
+  url.searchParams.set('_format', 'for_rooms_show')
+  url.searchParams.set('adults', '1')
+  url.searchParams.set('key', AIRBNB_HEADERS['X-Airbnb-API-Key'])
+  const resp = await fetchThroughProxy(url.toString(), { headers: AIRBNB_HEADERS })
+  if (resp.status === 404) return null
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '')
+    throw new Error(`Airbnb listing details ${resp.status}: ${resp.statusText}${text ? ` - ${text.slice(0, 160)}` : ''}`)
+  }
+  const data = await resp.json() as AirbnbPdpResponse
+  await recordDetailsFixture('airbnb', 'airbnb_pdp_listing_details', id, data)
+  return mapAirbnbDetails(data, id)
+}
+
+// "1.5 baths", "2 bedrooms", "Studio"
+function countFrom(label?: string): number | undefined {
+  if (!label) return undefined
+  if (/studio/i.test(label)) return 0
+  const match = label.match(/\d+(\.\d+)?/)
+  if (match) return Number(match[0])
+  return /half/i.test(label) ? 0.5 : undefined
+}
+
+// queen_bed -> Queen bed
+const bedType = (type = 'bed') => {
+  const words = type.replace(/_/g, ' ').trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Airbnb's cancellation_policy_category values, for listings without a localized label
+const CANCELLATION_POLICIES: Record<string, string> = {
+  flexible: 'Flexible',
+  moderate: 'Moderate',
+  firm: 'Firm',
+  strict_14_with_grace_period: 'Strict',
+  super_strict_30: 'Super strict 30 days',
+  super_strict_60: 'Super strict 60 days',
+}
+
+function houseRules(l: AirbnbPdpListing): string[] {
+  const rules: string[] = []
+  const controls = l.guest_controls
+  if (controls?.allows_smoking === false) rules.push('No smoking')
+  if (controls?.allows_pets === false) rules.push('No pets')
+  if (controls?.allows_events === false) rules.push('No parties or events')
+  if (controls?.allows_children === false) rules.push('Not suitable for children')
+  for (const line of (l.additional_house_rules || '').split(/\r?\n/)) {
+    const rule = line.replace(/^[\s•*-]+/, '').trim()
+    if (rule) rules.push(rule)
+  }
+  return rules
+}
+
+function sleepingArrangements(rooms: AirbnbPdpListing['listing_rooms'] = []): SleepingArrangement[] {
+  return rooms
+    .map(room => ({
+      room: room.name || (room.room_number ? `Bedroom ${room.room_number}` : 'Common space'),
+      beds: (room.beds || []).map(bed => ({ type: bedType(bed.type), count: bed.quantity || 1 })),
+    }))
+    .filter(room => room.beds.length > 0)
+}
+
+export function mapAirbnbDetails(data: AirbnbPdpResponse | null, id: string): ListingDetails | null {
+  const l = data?.pdp_listing_detail
+  if (!l) return null
+
+  const description = [l.sectioned_description?.description || l.sectioned_description?.summary, l.sectioned_description?.space]
+    .filter(Boolean)
+    .join('\n\n')
+  const category = l.cancellation_policy_category
+  const policy = l.cancellation_policy_label || (category && (CANCELLATION_POLICIES[category] || category))
+  const joined = l.primary_host?.member_since?.match(/\d{4}/)
+  const memberSince = joined ? Number(joined[0]) : undefined
+  const rating = l.avg_rating || (l.guest_satisfaction_overall ? l.guest_satisfaction_overall / 20 : undefined)
+  const listingId = String(l.id || id)
+
+  return {
+    id: listingId,
+    platform: 'airbnb',
+    name: l.name || 'Airbnb listing',
+    url: `https://www.airbnb.com/rooms/${listingId}`,
+    description: description || undefined,
+    propertyType: l.room_and_property_type,
+    roomType: l.room_type_category,
+    maxGuests: l.person_capacity,
+    bedrooms: countFrom(l.bedroom_label),
+    bathrooms: countFrom(l.bathroom_label),
+    beds: countFrom(l.bed_label),
+    amenities: (l.listing_amenities || []).filter(a => a.is_present !== false && a.name).map(a => a.name!),
+    houseRules: houseRules(l),
+    checkIn: l.localized_check_in_time_window,
+    checkOut: l.localized_check_out_time,
+    cancellationPolicy: policy ? { name: policy, description: l.cancellation_policy_description } : undefined,
+    sleepingArrangements: sleepingArrangements(l.listing_rooms),
+    photos: (l.photos || [])
+      .map(photo => ({ url: photo.large || photo.picture || '', caption: photo.caption || undefined }))
+      .filter(photo => photo.url),
+    host: l.primary_host
+      ? {
+          name: l.primary_host.host_name || l.primary_host.first_name || 'Host',
+          isSuperhost: l.primary_host.is_superhost,
+          memberSince,
+          yearsHosting: memberSince ? new Date().getUTCFullYear() - memberSince : undefined,
+        }
+      : undefined,
+    location: {
+      city: l.localized_city,
+      country: l.localized_country,
+      coordinates: typeof l.lat === 'number' && typeof l.lng === 'number' ? { lat: l.lat, lng: l.lng } : undefined,
+    },
+    rating: rating ? Math.round(rating * 100) / 100 : undefined,
+    reviewsCount: l.visible_review_count ?? l.reviews_count,
+    fetchedAt: new Date().toISOString(),
+  }
+}
@@ -1,32 +1,67 @@
-import type { ProviderParams } from './airbnb'
+import { recordFixture } from './fixtures'
+import type { ProviderPage, ProviderParams } from './types'
 
-export async function searchAirbnbPybnb(params: ProviderParams) {
+// Listings per page the service returns by default
+const PYBNB_PAGE_SIZE = 20
+
+export async function searchAirbnbPybnb(params: ProviderParams): Promise<ProviderPage> {
   const base = process.env.PYBNB_URL
   if (!base) {
     throw new Error('PYBNB_URL not configured')
   }
 
   const url = `${base.replace(/\/$/, '')}/search`
+  // The service pages by number; its page travels in our cursor
+  const { cursor, ...rest } = params
   const resp = await fetch(url, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(params)
+    body: JSON.stringify({ ...rest, page: Number(cursor?.page || params.page || 1) })
   })
   if (!resp.ok) {
     const text = await resp.text().catch(() => '')
     throw new Error(`pybnb service ${resp.status}: ${resp.statusText}${text ? ` - ${text.slice(0,160)}` : ''}`)
   }
-  const data = await resp.json()
+  const data = await resp.json() as PybnbResponse
+  await recordFixture('airbnb', 'airbnb_pybnb', params, data)
+  return mapPybnbResponse(data, params)
+}
+
+// The service answers with `results` (or `properties` on older builds), plus optional paging hints
+export interface PybnbResponse {
+  results?: unknown
+  properties?: unknown
+  has_more?: boolean
+  total?: number
+}
+
+// A short page ends the search unless the service says otherwise with has_more
+export function mapPybnbResponse(data: PybnbResponse, params: ProviderParams): ProviderPage {
+  const listings = mapPybnbResults(data)
+  const page = Number(params.cursor?.page || params.page || 1)
+  const hasMore = typeof data.has_more === 'boolean' ? data.has_more : listings.length >= PYBNB_PAGE_SIZE
+  return {
+    listings,
+    cursor: hasMore ? { page: page + 1 } : null,
+    totalResults: typeof data.total === 'number' ? data.total : undefined,
+  }
+}
+
+export function mapPybnbResults(data: PybnbResponse) {
   const items = Array.isArray(data.results) ? data.results : Array.isArray(data.properties) ? data.properties : []
   return items.map((p: any) => ({
     id: p.id || p.listing_id || p.code,
     name: p.name || p.title,
     url: p.url || (p.id ? `https://www.airbnb.com/rooms/${p.id}` : '#'),
     images: p.images || p.photos || [],
-    price: p.price || { total: p.rate || 0, rate: p.rate || 0, currency: p.currency || 'USD' },
+    price: p.price || { rate: p.rate || 0, currency: p.currency || 'USD' },
     rating: p.rating || p.avg_rating || 0,
     reviewsCount: p.reviewsCount || p.reviews_count || 0,
-    location: p.location || { city: p.city || 'Unknown', country: p.country || '' },
+    location: p.location || {
+      city: p.city || 'Unknown',
+      country: p.country || '',
+      coordinates: typeof p.lat === 'number' && typeof p.lng === 'number' ? { lat: p.lat, lng: p.lng } : undefined,
+    },
     host: p.host || { name: 'Host', isSuperhost: !!p.is_superhost },
     amenities: p.amenities || [],
     roomType: p.roomType || p.room_type || 'Property',
@@ -0,0 +1,53 @@
+// Airbnb guest reviews from the v2 reviews API, the same web API family as pdp_listing_details
+import { AIRBNB_HEADERS } from '../airbnb-api'
+import { API_CONFIG } from '../config'
+import { recordReviewsFixture } from './fixtures'
+import { fetchThroughProxy } from './proxy'
+import type { ListingReview } from './types'
+
+export interface AirbnbReviewsResponse {
+  reviews?: {
+    id?: number | string
+    comments?: string
+    created_at?: string
+    language?: string
+    rating?: number
+    reviewer?: { first_name?: string }
+  }[]
+  metadata?: { reviews_count?: number }
+}
+
+export async function fetchAirbnbReviews(id: string): Promise<ListingReview[] | null> {
+  const url = new URL('https://www.airbnb.com/api/v2/reviews')
+  url.searchParams.set('listing_id', id)
+  url.searchParams.set('role', 'guest')
+  url.searchParams.set('_format', 'for_p3')
+  url.searchParams.set('_order', 'language_country')
+  url.searchParams.set('_limit', String(API_CONFIG.REVIEW_INSIGHTS.MAX_REVIEWS))
+  url.searchParams.set('_offset', '0')
+  url.searchParams.set('key', AIRBNB_HEADERS['X-Airbnb-API-Key'])
+  const resp = await fetchThroughProxy(url.toString(), { headers: AIRBNB_HEADERS })
+  if (resp.status === 404) return null
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '')
+    throw new Error(`Airbnb reviews ${resp.status}: ${resp.statusText}${text ? ` - ${text.slice(0, 160)}` : ''}`)
+  }
+  const data = await resp.json() as AirbnbReviewsResponse
+  await recordReviewsFixture('airbnb', 'airbnb_reviews', id, data)
+  return mapAirbnbReviews(data)
+}
+
+export function mapAirbnbReviews(data: AirbnbReviewsResponse | null): ListingReview[] | null {
+  if (!data?.reviews) return null
+  return data.reviews
+    .filter(review => review.comments?.trim())
+    .map((review, i) => ({
+      id: String(review.id ?? i),
+      text: review.comments!.trim(),
+      date: review.created_at || undefined,
+      rating: review.rating || undefined,
+      author: review.reviewer?.first_name,
+      language: review.language,
+    }))
+    .sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+}
@@ -1,19 +1,23 @@
 import { callAirbnbHttpAPI } from '../airbnb-api'
+import { fetchAirbnbCalendar } from './airbnb-calendar'
+import { fetchAirbnbDetails } from './airbnb-details'
+import { fetchAirbnbReviews } from './airbnb-reviews'
+import { searchAirbnbPybnb } from './airbnb-pybnb'
+import type { ProviderPage, ProviderParams, SearchProvider } from './types'
 
-export interface ProviderParams {
-  location: string
-  checkin?: string
-  checkout?: string
-  adults?: number
-  children?: number
-  priceMin?: number
-  priceMax?: number
-  page?: number
+export async function searchAirbnb(params: ProviderParams): Promise<ProviderPage> {
+  const result = await callAirbnbHttpAPI(params)
+  // Surface scraper failures so they show up as an error source instead of an empty success
+  if (result.status === 'error') throw new Error(result.error)
+  return {
+    listings: (result.properties || []).map(normalizeAirbnbListing),
+    cursor: result.cursor,
+    totalResults: result.totalResults,
+  }
 }
 
-export async function searchAirbnb(params: ProviderParams) {
-  const result = await callAirbnbHttpAPI(params)
-  return (result.properties || []).map((p: any) => ({
+export function normalizeAirbnbListing(p: any) {
+  return {
     id: p.id,
     name: p.name,
     url: p.url,
@@ -32,6 +36,20 @@ export async function searchAirbnb(params: ProviderParams) {
     beds: p.beds,
     maxGuests: p.maxGuests,
     trustScore: p.trustScore || 0,
-  }))
+  }
 }
 
+// Airbnb is served by the pybnb microservice when PYBNB_URL is set, otherwise by the HTTP API scraper
+export const airbnbProvider: SearchProvider = {
+  name: 'airbnb',
+  description: 'Search Airbnb listings for given parameters. Must include location. Dates and price help relevance.',
+  capabilities: { dates: true, priceFilter: true, pagination: true, amenities: true },
+  get timeoutMs() {
+    return process.env.PYBNB_URL ? 15000 : 12000
+  },
+  isEnabled: () => true,
+  search: (params) => process.env.PYBNB_URL ? searchAirbnbPybnb(params) : searchAirbnb(params),
+  details: fetchAirbnbDetails,
+  reviews: fetchAirbnbReviews,
+  calendar: fetchAirbnbCalendar,
+}
@@ -1,20 +1,13 @@
 // Booking.com adapter using SerpAPI (optional) or returns empty when not configured
+import { recordDetailsFixture, recordFixture, recordReviewsFixture } from './fixtures'
+import type { ListingDetails, ListingReview, ProviderPage, ProviderParams, SearchProvider } from './types'
+import type { ProviderPrice } from '../utils/pricing'
+import { currentCostLedger, OverBudgetError, serpApiAllowed, serpApiCost } from '../budget'
 
-export interface ProviderParams {
-  location: string
-  checkin?: string
-  checkout?: string
-  adults?: number
-  children?: number
-  priceMin?: number
-  priceMax?: number
-  page?: number
-}
-
-export async function searchBooking(params: ProviderParams) {
+export async function searchBooking(params: ProviderParams): Promise<ProviderPage> {
   const serpKey = process.env.SERPAPI_KEY
   if (!serpKey) {
-    return []
+    return { listings: [], cursor: null }
   }
 
   const qs = new URLSearchParams({
@@ -27,28 +20,93 @@ export async function searchBooking(params: ProviderParams) {
     currency: 'USD',
     api_key: serpKey,
   })
+  if (params.adults) qs.set('adults', String(params.adults))
+  if (params.children) {
+    qs.set('children', String(params.children))
+    // SerpAPI needs an age per child; assume school age when the query did not say
+    qs.set('children_ages', Array(params.children).fill('8').join(','))
+  }
+  if (params.priceMin) qs.set('min_price', String(params.priceMin))
+  if (params.priceMax) qs.set('max_price', String(params.priceMax))
+  // SerpAPI pages with a token returned alongside the previous page
+  if (params.cursor?.token) qs.set('next_page_token', String(params.cursor.token))
 
+  if (!serpApiAllowed(currentCostLedger())) throw new OverBudgetError('SerpAPI search skipped: over budget')
   const url = `https://serpapi.com/search.json?${qs.toString()}`
   const resp = await fetch(url)
-  if (!resp.ok) return []
-  const data = await resp.json()
+  if (!resp.ok) throw new Error(`SerpAPI search ${resp.status}: ${resp.statusText}`)
+  currentCostLedger()?.record('serpapi', serpApiCost())
+  const data = await resp.json() as GoogleHotelsResponse
+  await recordFixture('booking', 'serpapi_google_hotels', params, data)
+  return mapBookingResponse(data, params)
+}
+
+export interface GoogleHotelsResponse {
+  properties?: unknown[]
+  search_parameters?: { currency?: string }
+  serpapi_pagination?: { next_page_token?: string }
+  search_information?: { total_results?: number }
+}
+
+export function mapBookingResponse(data: GoogleHotelsResponse | null, params: ProviderParams): ProviderPage {
+  const token = data?.serpapi_pagination?.next_page_token
+  return {
+    listings: mapBookingResults(data, params),
+    cursor: token ? { token } : null,
+    totalResults: data?.search_information?.total_results,
+  }
+}
+
+interface SerpRate {
+  lowest?: string | number
+  extracted_lowest?: number
+  before_taxes_fees?: string | number
+  extracted_before_taxes_fees?: number
+  currency?: string
+}
+
+// SerpAPI amounts come as display strings ("$1,234") with the number in extracted_*
+function amount(rate: SerpRate | undefined, field: 'lowest' | 'before_taxes_fees'): number | undefined {
+  const extracted = rate?.[`extracted_${field}`]
+  if (typeof extracted === 'number') return extracted
+  const value = rate?.[field]
+  if (typeof value === 'number') return value
+  const parsed = typeof value === 'string' ? parseFloat(value.replace(/[^0-9.]/g, '')) : NaN
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// rate_per_night is nightly and total_rate covers the stay, both with taxes and fees;
+// the before_taxes_fees variants give the taxes and fees for the stay
+function hotelPrice(h: { rate_per_night?: SerpRate, price?: SerpRate, total_rate?: SerpRate }, requestedCurrency?: string): ProviderPrice {
+  const nightly = h.rate_per_night || h.price
+  const total = amount(h.total_rate, 'lowest')
+  const beforeTaxes = amount(h.total_rate, 'before_taxes_fees')
+  return {
+    rate: amount(nightly, 'lowest') || 0,
+    currency: nightly?.currency || requestedCurrency || 'USD',
+    total,
+    fees: total && beforeTaxes && total > beforeTaxes ? { taxes: Math.round((total - beforeTaxes) * 100) / 100 } : undefined,
+  }
+}
 
+// Maps a SerpAPI google_hotels response to listings; the location is the city fallback
+export function mapBookingResults(data: GoogleHotelsResponse | null, params: ProviderParams) {
   const hotels = data?.properties || []
   return hotels.slice(0, 20).map((h: any) => ({
-    id: h.hotel_id || h.place_id || h.title,
+    // The property token is what SerpAPI's property lookup (listing details) takes
+    id: h.property_token || h.hotel_id || h.place_id || h.title,
     name: h.name || h.title || 'Hotel',
     url: h.booking_link || h.link || h.maps_module?.link || '#',
     images: h.images?.map((i: any) => i.thumbnail) || [],
-    price: {
-      total: h.rate_per_night?.lowest || h.price?.lowest || 0,
-      rate: h.rate_per_night?.lowest || h.price?.lowest || 0,
-      currency: h.rate_per_night?.currency || 'USD',
-    },
+    price: hotelPrice(h, data?.search_parameters?.currency),
     rating: h.overall_rating || h.rating || 0,
     reviewsCount: h.reviews || 0,
     location: {
       city: h.address?.city || params.location,
       country: h.address?.country || '',
+      coordinates: h.gps_coordinates
+        ? { lat: h.gps_coordinates.latitude, lng: h.gps_coordinates.longitude }
+        : undefined,
     },
     host: {
       name: 'Booking.com',
@@ -61,3 +119,157 @@ export async function searchBooking(params: ProviderParams) {
     trustScore: h.overall_rating ? Math.round((h.overall_rating / 5) * 100) : 0,
   }))
 }
+
+// SerpAPI's property lookup needs stay dates; details do not depend on them, so tomorrow for one night
+function detailsDates(now = Date.now()) {
+  const day = (offset: number) => new Date(now + offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  return { check_in_date: day(1), check_out_date: day(2) }
+}
+
+export async function fetchBookingDetails(id: string): Promise<ListingDetails | null> {
+  const serpKey = process.env.SERPAPI_KEY
+  if (!serpKey) throw new Error('SERPAPI_KEY not configured')
+
+  const qs = new URLSearchParams({
+    engine: 'google_hotels',
+    q: id,
+    property_token: id,
+    hl: 'en',
+    gl: 'us',
+    currency: 'USD',
+    ...detailsDates(),
+    api_key: serpKey,
+  })
+  if (!serpApiAllowed(currentCostLedger())) throw new OverBudgetError('SerpAPI property lookup skipped: over budget')
+  const resp = await fetch(`https://serpapi.com/search.json?${qs.toString()}`)
+  if (resp.status === 404) return null
+  if (!resp.ok) throw new Error(`SerpAPI property lookup ${resp.status}: ${resp.statusText}`)
+  currentCostLedger()?.record('serpapi', serpApiCost(), 'details')
+  const data = await resp.json() as GoogleHotelsProperty
+  await recordDetailsFixture('booking', 'serpapi_google_hotels_property', id, data)
+  return mapBookingDetails(data, id)
+}
+
+export interface GoogleHotelsProperty {
+  error?: string
+  name?: string
+  type?: string
+  description?: string
+  link?: string
+  address?: string
+  gps_coordinates?: { latitude: number, longitude: number }
+  check_in_time?: string
+  check_out_time?: string
+  overall_rating?: number
+  reviews?: number
+  amenities?: string[]
+  // Vacation rentals: "Entire villa", "Sleeps 8", "3 bedrooms", "2 bathrooms"
+  essential_info?: string[]
+  images?: { thumbnail?: string, original_image?: string }[]
+}
+
+function essential(info: string[] | undefined, pattern: RegExp): number | undefined {
+  for (const line of info || []) {
+    const match = line.match(pattern)
+    if (match) return Number(match[1])
+  }
+  return undefined
+}
+
+// Google Hotels publishes no house rules, cancellation policy, host or rooms; those stay empty
+export function mapBookingDetails(data: GoogleHotelsProperty | null, id: string): ListingDetails | null {
+  if (!data || data.error || !data.name) return null
+  const rental = data.type === 'vacation rental'
+  // Addresses end in "City, ST 12345", so the city is the second-to-last part
+  const parts = (data.address || '').split(',').map(part => part.trim()).filter(Boolean)
+  return {
+    id,
+    platform: 'booking',
+    name: data.name,
+    url: data.link || '#',
+    description: data.description,
+    propertyType: rental ? data.essential_info?.[0] : 'Hotel',
+    roomType: rental ? undefined : 'Hotel',
+    maxGuests: essential(data.essential_info, /sleeps\s+(\d+)/i),
+    bedrooms: essential(data.essential_info, /(\d+)\s+bedrooms?/i),
+    bathrooms: essential(data.essential_info, /(\d+(?:\.\d+)?)\s+bathrooms?/i),
+    beds: essential(data.essential_info, /(\d+)\s+beds?\b/i),
+    amenities: data.amenities || [],
+    houseRules: [],
+    checkIn: data.check_in_time,
+    checkOut: data.check_out_time,
+    sleepingArrangements: [],
+    photos: (data.images || [])
+      .map(image => ({ url: image.original_image || image.thumbnail || '' }))
+      .filter(photo => photo.url),
+    location: {
+      city: parts.length > 1 ? parts[parts.length - 2] : undefined,
+      coordinates: data.gps_coordinates
+        ? { lat: data.gps_coordinates.latitude, lng: data.gps_coordinates.longitude }
+        : undefined,
+    },
+    rating: data.overall_rating,
+    reviewsCount: data.reviews,
+    fetchedAt: new Date().toISOString(),
+  }
+}
+
+// One page of the most recent reviews Google collected for the property, from every source it aggregates
+export async function fetchBookingReviews(id: string): Promise<ListingReview[] | null> {
+  const serpKey = process.env.SERPAPI_KEY
+  if (!serpKey) throw new Error('SERPAPI_KEY not configured')
+
+  const qs = new URLSearchParams({
+    engine: 'google_hotels_reviews',
+    property_token: id,
+    hl: 'en',
+    sort_by: '2', // Most recent
+    api_key: serpKey,
+  })
+  if (!serpApiAllowed(currentCostLedger())) throw new OverBudgetError('SerpAPI reviews skipped: over budget')
+  const resp = await fetch(`https://serpapi.com/search.json?${qs.toString()}`)
+  if (resp.status === 404) return null
+  if (!resp.ok) throw new Error(`SerpAPI reviews ${resp.status}: ${resp.statusText}`)
+  currentCostLedger()?.record('serpapi', serpApiCost(), 'reviews')
+  const data = await resp.json() as GoogleHotelsReviews
+  await recordReviewsFixture('booking', 'serpapi_google_hotels_reviews', id, data)
+  return mapBookingReviews(data)
+}
+
+export interface GoogleHotelsReviews {
+  error?: string
+  reviews?: {
+    review_id?: string
+    user?: { name?: string }
+    source?: string
+    rating?: number
+    best_rating?: number
+    iso_date?: string
+    snippet?: string
+  }[]
+}
+
+// Ratings come on each source's own scale (TripAdvisor /5, Booking.com /10) and are brought to /5
+export function mapBookingReviews(data: GoogleHotelsReviews | null): ListingReview[] | null {
+  if (!data || data.error || !data.reviews) return null
+  return data.reviews
+    .filter(review => review.snippet?.trim())
+    .map((review, i) => ({
+      id: review.review_id || String(i),
+      text: review.snippet!.trim(),
+      date: review.iso_date || undefined,
+      rating: review.rating ? Math.round((review.rating / (review.best_rating || 5)) * 5 * 10) / 10 : undefined,
+      author: review.user?.name,
+    }))
+}
+
+export const bookingProvider: SearchProvider = {
+  name: 'booking',
+  description: 'Search Booking.com/Google Hotels for given parameters. Must include location.',
+  capabilities: { dates: true, priceFilter: true, pagination: true, amenities: false },
+  timeoutMs: 12000,
+  isEnabled: () => !!process.env.SERPAPI_KEY,
+  search: searchBooking,
+  details: fetchBookingDetails,
+  reviews: fetchBookingReviews,
+}
@@ -0,0 +1,111 @@
+// Replay wrapper: serves a provider from recorded payloads instead of the live service.
+// Payloads go through the same mappers as live responses, so the rest of the stack sees identical listings.
+import { explorePagination, transformAirbnbResults, type ExplorePaging } from '../airbnb-api'
+import { normalizeAirbnbListing } from './airbnb'
+import { mapAirbnbCalendar, type AirbnbCalendarResponse } from './airbnb-calendar'
+import { mapAirbnbDetails, type AirbnbPdpResponse } from './airbnb-details'
+import { mapPybnbResponse, type PybnbResponse } from './airbnb-pybnb'
+import { mapAirbnbReviews, type AirbnbReviewsResponse } from './airbnb-reviews'
+import {
+  mapBookingDetails,
+  mapBookingResponse,
+  mapBookingReviews,
+  type GoogleHotelsProperty,
+  type GoogleHotelsResponse,
+  type GoogleHotelsReviews,
+} from './booking'
+import { mapVrboResponse, type VrboSearchResponse } from './vrbo'
+import {
+  hasFixtures,
+  loadCalendarFixture,
+  loadDetailsFixture,
+  loadFixture,
+  loadReviewsFixture,
+  type CalendarFixtureFormat,
+  type DetailsFixtureFormat,
+  type FixtureFormat,
+  type ReviewsFixtureFormat,
+} from './fixtures'
+import type {
+  CalendarRange,
+  ListingCalendar,
+  ListingDetails,
+  ListingReview,
+  ProviderPage,
+  ProviderParams,
+  SearchProvider,
+} from './types'
+
+// `recorded` are the params the payload was recorded for, which may differ from the replayed search's
+const MAPPERS: Record<FixtureFormat, (payload: unknown, params: ProviderParams, recorded: ProviderParams) => ProviderPage> = {
+  airbnb_explore_tabs: (payload, params) => {
+    const listings = transformAirbnbResults(payload).map(normalizeAirbnbListing)
+    return { listings, ...explorePagination(payload as ExplorePaging, listings.length, params.cursor) }
+  },
+  airbnb_pybnb: (payload, params) => mapPybnbResponse(payload as PybnbResponse, params),
+  serpapi_google_hotels: (payload, params) => mapBookingResponse(payload as GoogleHotelsResponse, params),
+  vrbo_search: (payload, params, recorded) => mapVrboResponse(payload as VrboSearchResponse, params, recorded),
+}
+
+const DETAILS_MAPPERS: Record<DetailsFixtureFormat, (payload: unknown, id: string) => ListingDetails | null> = {
+  airbnb_pdp_listing_details: (payload, id) => mapAirbnbDetails(payload as AirbnbPdpResponse, id),
+  serpapi_google_hotels_property: (payload, id) => mapBookingDetails(payload as GoogleHotelsProperty, id),
+}
+
+const REVIEWS_MAPPERS: Record<ReviewsFixtureFormat, (payload: unknown) => ListingReview[] | null> = {
+  airbnb_reviews: (payload) => mapAirbnbReviews(payload as AirbnbReviewsResponse),
+  serpapi_google_hotels_reviews: (payload) => mapBookingReviews(payload as GoogleHotelsReviews),
+}
+
+const CALENDAR_MAPPERS: Record<CalendarFixtureFormat, (payload: unknown, id: string, range: CalendarRange) => ListingCalendar | null> = {
+  airbnb_calendar_months: (payload, id, range) => mapAirbnbCalendar(payload as AirbnbCalendarResponse, id, range),
+}
+
+export function withFixtureReplay(provider: SearchProvider): SearchProvider {
+  return {
+    name: provider.name,
+    description: provider.description,
+    capabilities: provider.capabilities,
+    timeoutMs: 2000,
+    // Enabled whenever something was recorded for it, regardless of live credentials
+    isEnabled: () => hasFixtures(provider.name),
+    search: async (params) => {
+      const fixture = await loadFixture(provider.name, params)
+      const mapper = MAPPERS[fixture.format]
+      if (!mapper) {
+        throw new Error(`Unknown fixture format "${fixture.format}" for ${provider.name}`)
+      }
+      return mapper(fixture.payload, params, fixture.params)
+    },
+    ...(provider.details && {
+      details: async (id: string) => {
+        const fixture = await loadDetailsFixture(provider.name, id)
+        const mapper = DETAILS_MAPPERS[fixture.format]
+        if (!mapper) {
+          throw new Error(`Unknown details fixture format "${fixture.format}" for ${provider.name}`)
+        }
+        return mapper(fixture.payload, id)
+      },
+    }),
+    ...(provider.reviews && {
+      reviews: async (id: string) => {
+        const fixture = await loadReviewsFixture(provider.name, id)
+        const mapper = REVIEWS_MAPPERS[fixture.format]
+        if (!mapper) {
+          throw new Error(`Unknown reviews fixture format "${fixture.format}" for ${provider.name}`)
+        }
+        return mapper(fixture.payload)
+      },
+    }),
+    ...(provider.calendar && {
+      calendar: async (id: string, range: CalendarRange) => {
+        const fixture = await loadCalendarFixture(provider.name, id)
+        const mapper = CALENDAR_MAPPERS[fixture.format]
+        if (!mapper) {
+          throw new Error(`Unknown calendar fixture format "${fixture.format}" for ${provider.name}`)
+        }
+        return mapper(fixture.payload, id, range)
+      },
+    }),
+  }
+}
@@ -0,0 +1,146 @@
+// Recorded provider payloads for offline development and deterministic runs.
+// PROVIDER_FIXTURES=replay serves searches from disk, PROVIDER_FIXTURES=record captures live responses.
+import { existsSync, promises as fs } from 'fs'
+import path from 'path'
+import type { CalendarRange, ProviderParams } from './types'
+import { logger } from '../observability/logger'
+
+const log = logger.child({ component: 'fixtures' })
+
+// Bump when the fixture file layout changes; files with another version must be re-recorded
+export const FIXTURE_VERSION = 1
+
+export type FixtureMode = 'live' | 'record' | 'replay'
+
+// Raw payload formats, each replayed through the mapper that handles it live
+export type FixtureFormat = 'airbnb_explore_tabs' | 'airbnb_pybnb' | 'serpapi_google_hotels' | 'vrbo_search'
+
+// Raw listing details payloads, replayed through the provider's details mapper
+export type DetailsFixtureFormat = 'airbnb_pdp_listing_details' | 'serpapi_google_hotels_property'
+
+// Raw guest review payloads, replayed through the provider's reviews mapper
+export type ReviewsFixtureFormat = 'airbnb_reviews' | 'serpapi_google_hotels_reviews'
+
+// Raw availability calendar payloads, replayed through the provider's calendar mapper
+export type CalendarFixtureFormat = 'airbnb_calendar_months'
+
+export interface ProviderFixture<F extends string = FixtureFormat, P = ProviderParams> {
+  version: number
+  provider: string
+  format: F
+  recordedAt: string
+  params: P
+  payload: unknown
+}
+
+export type DetailsFixture = ProviderFixture<DetailsFixtureFormat, { id: string }>
+
+export type ReviewsFixture = ProviderFixture<ReviewsFixtureFormat, { id: string }>
+
+// `params` holds the range that was asked for; replay serves any range the payload covers
+export type CalendarFixture = ProviderFixture<CalendarFixtureFormat, { id: string } & CalendarRange>
+
+export function fixtureMode(): FixtureMode {
+  const mode = (process.env.PROVIDER_FIXTURES || '').trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'live'
+}
+
+export function fixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.PROVIDER_FIXTURES_DIR || 'fixtures/providers')
+}
+
+// One file per provider, location and page: airbnb/lake-tahoe.json, airbnb/lake-tahoe-p2.json
+export function fixturePath(provider: string, params: ProviderParams): string {
+  const slug = (params.location || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'anywhere'
+  const page = params.page && params.page > 1 ? `-p${params.page}` : ''
+  return path.join(fixturesDir(), provider, `${slug}${page}.json`)
+}
+
+// One file per listing: airbnb/details/52871934.json, airbnb/reviews/52871934.json, airbnb/calendar/52871934.json
+function listingFixturePath(provider: string, kind: 'details' | 'reviews' | 'calendar', id: string): string {
+  return path.join(fixturesDir(), provider, kind, `${id.replace(/[^A-Za-z0-9_-]+/g, '_')}.json`)
+}
+
+export function detailsFixturePath(provider: string, id: string): string {
+  return listingFixturePath(provider, 'details', id)
+}
+
+export function reviewsFixturePath(provider: string, id: string): string {
+  return listingFixturePath(provider, 'reviews', id)
+}
+
+export function calendarFixturePath(provider: string, id: string): string {
+  return listingFixturePath(provider, 'calendar', id)
+}
+
+export function hasFixtures(provider: string): boolean {
+  return existsSync(path.join(fixturesDir(), provider))
+}
+
+async function readFixture<T extends { version: number }>(file: string, missing: string): Promise<T> {
+  const relative = path.relative(process.cwd(), file)
+  let raw: string
+  try {
+    raw = await fs.readFile(file, 'utf8')
+  } catch {
+    throw new Error(`${missing} (expected ${relative})`)
+  }
+
+  const fixture = JSON.parse(raw) as T
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`${relative} is fixture version ${fixture.version}, expected ${FIXTURE_VERSION}; re-record it with PROVIDER_FIXTURES=record`)
+  }
+  return fixture
+}
+
+export function loadFixture(provider: string, params: ProviderParams): Promise<ProviderFixture> {
+  return readFixture(fixturePath(provider, params), `No ${provider} fixture for "${params.location}"`)
+}
+
+export function loadDetailsFixture(provider: string, id: string): Promise<DetailsFixture> {
+  return readFixture(detailsFixturePath(provider, id), `No ${provider} details fixture for listing ${id}`)
+}
+
+export function loadReviewsFixture(provider: string, id: string): Promise<ReviewsFixture> {
+  return readFixture(reviewsFixturePath(provider, id), `No ${provider} reviews fixture for listing ${id}`)
+}
+
+export function loadCalendarFixture(provider: string, id: string): Promise<CalendarFixture> {
+  return readFixture(calendarFixturePath(provider, id), `No ${provider} calendar fixture for listing ${id}`)
+}
+
+// Captures a live payload when recording; never fails the search it observes
+export async function recordFixture(provider: string, format: FixtureFormat, params: ProviderParams, payload: unknown) {
+  if (fixtureMode() !== 'record') return
+  await writeFixture(fixturePath(provider, params), { version: FIXTURE_VERSION, provider, format, recordedAt: new Date().toISOString(), params, payload })
+}
+
+export async function recordDetailsFixture(provider: string, format: DetailsFixtureFormat, id: string, payload: unknown) {
+  if (fixtureMode() !== 'record') return
+  await writeFixture(detailsFixturePath(provider, id), { version: FIXTURE_VERSION, provider, format, recordedAt: new Date().toISOString(), params: { id }, payload })
+}
+
+export async function recordReviewsFixture(provider: string, format: ReviewsFixtureFormat, id: string, payload: unknown) {
+  if (fixtureMode() !== 'record') return
+  await writeFixture(reviewsFixturePath(provider, id), { version: FIXTURE_VERSION, provider, format, recordedAt: new Date().toISOString(), params: { id }, payload })
+}
+
+export async function recordCalendarFixture(provider: string, format: CalendarFixtureFormat, id: string, range: CalendarRange, payload: unknown) {
+  if (fixtureMode() !== 'record') return
+  await writeFixture(calendarFixturePath(provider, id), { version: FIXTURE_VERSION, provider, format, recordedAt: new Date().toISOString(), params: { id, ...range }, payload })
+}
+
+async function writeFixture(file: string, fixture: ProviderFixture<string, unknown>) {
+  const { provider } = fixture
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n')
+    log.info('Recorded fixture', { provider, file: path.relative(process.cwd(), file) })
+  } catch (error) {
+    log.warn('Failed to record fixture', { provider, error })
+  }
+}
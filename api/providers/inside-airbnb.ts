@@ -0,0 +1,225 @@
+// Inside Airbnb provider: searches local indexes of the public listings.csv exports, without any network calls
+// Indexes are built with `npm run listings:import` (scripts/import-inside-airbnb.mjs), one file per city,
+// in INSIDE_AIRBNB_DIR (default data/inside-airbnb). The provider is enabled whenever that directory holds one.
+// The exports have no availability, so dates are not honoured; prices are the host's nightly base price.
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import type { ProviderPage, ProviderParams, SearchProvider } from './types'
+import { API_CONFIG } from '../config'
+import { convertAmount } from '../utils/exchange-rates'
+import { MAPPED_AMENITIES } from '../utils/filter-listings'
+import { logger } from '../observability/logger'
+
+const log = logger.child({ component: 'inside-airbnb' })
+
+// Bump together with INDEX_VERSION in scripts/import-inside-airbnb.mjs
+const INDEX_VERSION = 1
+
+const PAGE_SIZE = 20
+
+const { QUERY_CURRENCY } = API_CONFIG.PRICING
+
+// The importer maps only these amenities, so no indexed listing can show that it has any other
+const INDEXED_AMENITIES = new Set(MAPPED_AMENITIES.map(name => name.toLowerCase()))
+
+interface IndexFile {
+  version: number
+  city: string
+  country: string
+  currency: string
+  snapshotDate?: string
+  fields: string[]
+  neighbourhoods: string[]
+  listings: unknown[][]
+}
+
+interface IndexedListing {
+  id: string
+  name: string
+  picture: string
+  lat: number | null
+  lng: number | null
+  neighbourhood: number | null
+  propertyType: string
+  roomType: string
+  maxGuests: number | null
+  bedrooms: number | null
+  bathrooms: number | null
+  beds: number | null
+  price: number
+  rating: number
+  reviewsCount: number
+  hostName: string
+  superhost: number
+  amenities: string[]
+}
+
+interface CityIndex {
+  city: string
+  slug: string
+  country: string
+  currency: string
+  neighbourhoods: string[]
+  // Cheapest first
+  listings: IndexedListing[]
+}
+
+export function insideAirbnbDir(): string {
+  return path.resolve(process.cwd(), process.env.INSIDE_AIRBNB_DIR || 'data/inside-airbnb')
+}
+
+const slugify = (value: string) => value
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+
+function indexFiles(): string[] {
+  const dir = insideAirbnbDir()
+  if (!existsSync(dir)) return []
+  return readdirSync(dir).filter(name => name.endsWith('.json')).map(name => path.join(dir, name))
+}
+
+// Parsed once per instance; an index is rebuilt by re-importing, not edited in place
+const indexes = new Map<string, CityIndex | null>()
+
+function loadIndex(file: string): CityIndex | null {
+  if (indexes.has(file)) return indexes.get(file)!
+  let index: CityIndex | null = null
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf8')) as IndexFile
+    if (data.version !== INDEX_VERSION) {
+      throw new Error(`index version ${data.version}, expected ${INDEX_VERSION}; re-import it with npm run listings:import`)
+    }
+    index = {
+      city: data.city,
+      slug: slugify(data.city),
+      country: data.country || '',
+      currency: data.currency || 'USD',
+      neighbourhoods: data.neighbourhoods || [],
+      listings: data.listings.map(row => Object.fromEntries(data.fields.map((field, i) => [field, row[i]])) as unknown as IndexedListing)
+    }
+    log.info('Loaded index', { city: index.city, listings: index.listings.length, snapshotDate: data.snapshotDate })
+  } catch (error) {
+    log.warn('Skipping unreadable index', { file: path.basename(file), error: error instanceof Error ? error.message : error })
+  }
+  indexes.set(file, index)
+  return index
+}
+
+const containsSlug = (haystack: string, needle: string) => !!needle && `-${haystack}-`.includes(`-${needle}-`)
+
+/**
+ * The index covering a location: its city named in the location ("Austin, TX"), else one of its
+ * neighbourhoods ("Travis Heights"), which then narrows the search to that neighbourhood.
+ */
+function findIndex(location: string): { index: CityIndex, neighbourhood?: number } | null {
+  const wanted = slugify(location)
+  const loaded = indexFiles().map(loadIndex).filter((index): index is CityIndex => !!index)
+  const byNeighbourhood = (index: CityIndex) => index.neighbourhoods.findIndex(name => containsSlug(wanted, slugify(name)))
+
+  for (const index of loaded) {
+    if (!containsSlug(wanted, index.slug)) continue
+    const neighbourhood = byNeighbourhood(index)
+    return { index, neighbourhood: neighbourhood >= 0 ? neighbourhood : undefined }
+  }
+  for (const index of loaded) {
+    const neighbourhood = byNeighbourhood(index)
+    if (neighbourhood >= 0) return { index, neighbourhood }
+  }
+  return null
+}
+
+// First position whose price is at least `price`
+function lowerBound(listings: IndexedListing[], price: number): number {
+  let lo = 0
+  let hi = listings.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (listings[mid].price < price) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+const below = (value: number | null, min?: number) => !!min && value !== null && value < min
+
+// Same rules as applyConstraints: a value the export leaves empty does not rule a listing out
+function matches(listing: IndexedListing, params: ProviderParams, neighbourhood?: number): boolean {
+  const guests = (params.adults || 0) + (params.children || 0)
+  if (neighbourhood !== undefined && listing.neighbourhood !== neighbourhood) return false
+  if (below(listing.maxGuests, guests)) return false
+  if (below(listing.bedrooms, params.minBedrooms)) return false
+  if (below(listing.bathrooms, params.minBathrooms)) return false
+  if (below(listing.beds, params.minBeds)) return false
+  if (params.roomType && listing.roomType !== params.roomType) return false
+  if (listing.rating > 0 && below(listing.rating, params.minRating)) return false
+  if (params.superhost && !listing.superhost) return false
+  const amenities = (params.amenities || []).map(a => a.toLowerCase()).filter(a => INDEXED_AMENITIES.has(a))
+  if (amenities.length && listing.amenities.length) {
+    const available = listing.amenities.map(a => a.toLowerCase())
+    if (!amenities.every(a => available.includes(a))) return false
+  }
+  return true
+}
+
+function toListing(listing: IndexedListing, index: CityIndex) {
+  return {
+    id: listing.id,
+    name: listing.name || `${listing.propertyType || 'Listing'} in ${index.city}`,
+    url: `https://www.airbnb.com/rooms/${listing.id}`,
+    images: listing.picture ? [listing.picture] : [],
+    price: { rate: listing.price, currency: index.currency },
+    rating: listing.rating,
+    reviewsCount: listing.reviewsCount,
+    location: {
+      city: index.city,
+      country: index.country,
+      coordinates: listing.lat !== null && listing.lng !== null ? { lat: listing.lat, lng: listing.lng } : undefined,
+    },
+    host: { name: listing.hostName || 'Host', isSuperhost: !!listing.superhost },
+    amenities: listing.amenities,
+    roomType: listing.roomType || 'Property',
+    propertyType: listing.propertyType,
+    // Same listings and URLs as the live Airbnb provider, so one found by both is only returned once
+    platform: 'airbnb',
+    bedrooms: listing.bedrooms ?? undefined,
+    bathrooms: listing.bathrooms ?? undefined,
+    beds: listing.beds ?? undefined,
+    maxGuests: listing.maxGuests ?? undefined,
+    trustScore: listing.rating ? Math.round((listing.rating / 5) * 100) : 0,
+  }
+}
+
+export async function searchInsideAirbnb(params: ProviderParams): Promise<ProviderPage> {
+  const found = findIndex(params.location)
+  if (!found) return { listings: [], cursor: null, totalResults: 0 }
+  const { index, neighbourhood } = found
+
+  // Query prices are in QUERY_CURRENCY and the index in the city's own; without a rate the limits are read as is
+  const limit = (amount: number) => convertAmount(amount, QUERY_CURRENCY, index.currency) ?? amount
+  const from = params.priceMin ? lowerBound(index.listings, limit(params.priceMin)) : 0
+  const to = params.priceMax ? lowerBound(index.listings, limit(params.priceMax) + 0.01) : index.listings.length
+  // Most reviewed first, the closest this data gets to relevance
+  const matching = index.listings.slice(from, to)
+    .filter(listing => matches(listing, params, neighbourhood))
+    .sort((a, b) => b.reviewsCount - a.reviewsCount || a.id.localeCompare(b.id))
+
+  const offset = Number(params.cursor?.offset || 0)
+  const page = matching.slice(offset, offset + PAGE_SIZE)
+  return {
+    listings: page.map(listing => toListing(listing, index)),
+    cursor: offset + PAGE_SIZE < matching.length ? { offset: offset + PAGE_SIZE } : null,
+    totalResults: matching.length,
+  }
+}
+
+export const insideAirbnbProvider: SearchProvider = {
+  name: 'inside_airbnb',
+  description: 'Search imported Inside Airbnb listing data (real Airbnb listings, no live availability) for the cities that have been indexed. Must include location.',
+  capabilities: { dates: false, priceFilter: true, pagination: true, amenities: true },
+  timeoutMs: 5000,
+  local: true,
+  isEnabled: () => indexFiles().length > 0,
+  search: searchInsideAirbnb,
+}
@@ -0,0 +1,29 @@
+// Optional proxy via ScrapingBee to avoid blocking in serverless, shared by the scraping providers
+// The search's cost budget decides how much proxy it gets: premium, JS rendering only, or none
+import { currentCostLedger, proxyTier, scrapingBeeCost } from '../budget'
+
+export async function fetchThroughProxy(url: string, init?: RequestInit) {
+  const key = process.env.SCRAPINGBEE_API_KEY
+  if (!key) return fetch(url, init)
+  const ledger = currentCostLedger()
+  const tier = proxyTier(ledger)
+  if (tier === 'direct') return fetch(url, init)
+  const proxied = new URL('https://app.scrapingbee.com/api/v1/')
+  proxied.searchParams.set('api_key', key)
+  proxied.searchParams.set('url', url)
+  // JS rendering + premium proxy greatly improve reliability on dynamic sites
+  proxied.searchParams.set('render_js', 'true')
+  if (tier === 'premium') proxied.searchParams.set('premium_proxy', 'true')
+  // Route via US by default
+  proxied.searchParams.set('country_code', 'us')
+  const response = await fetch(proxied.toString(), {
+    ...init,
+    // ScrapingBee forwards headers; keep them but avoid Host/Origin confusion
+    headers: {
+      ...((init && init.headers) || {})
+    }
+  })
+  // Failed requests are not billed
+  if (response.ok) ledger?.record('scrapingbee', scrapingBeeCost(tier), tier)
+  return response
+}
@@ -0,0 +1,42 @@
+// Single place where search providers are registered.
+// The unified search endpoint derives its LLM tools, fallback fan-out and `sources` from this list.
+import { airbnbProvider } from './airbnb'
+import { bookingProvider } from './booking'
+import { insideAirbnbProvider } from './inside-airbnb'
+import { vrboProvider } from './vrbo'
+import { withFixtureReplay } from './fixture-provider'
+import { fixtureMode, type FixtureMode } from './fixtures'
+import type { SearchProvider } from './types'
+
+const providers = new Map<string, SearchProvider>()
+
+export function registerProvider(provider: SearchProvider) {
+  providers.set(provider.name, provider)
+}
+
+registerProvider(airbnbProvider)
+registerProvider(bookingProvider)
+registerProvider(vrboProvider)
+registerProvider(insideAirbnbProvider)
+
+// Comma-separated provider names to switch off without a code change, e.g. DISABLED_PROVIDERS=booking
+function disabledProviders(): Set<string> {
+  return new Set((process.env.DISABLED_PROVIDERS || '').split(',').map(s => s.trim()).filter(Boolean))
+}
+
+// PROVIDER_FIXTURES=replay swaps every provider for its recorded payloads, so the stack runs offline.
+// Local providers are offline already and stay as they are.
+// Trace replay passes mode 'replay' explicitly, whatever the environment says.
+export function getProviders(mode: FixtureMode = fixtureMode()): SearchProvider[] {
+  const registered = Array.from(providers.values())
+  return mode === 'replay' ? registered.map(p => p.local ? p : withFixtureReplay(p)) : registered
+}
+
+export function getEnabledProviders(mode?: FixtureMode): SearchProvider[] {
+  const disabled = disabledProviders()
+  return getProviders(mode).filter(p => !disabled.has(p.name) && p.isEnabled())
+}
+
+export function getProvider(name: string, mode?: FixtureMode): SearchProvider | undefined {
+  return getEnabledProviders(mode).find(p => p.name === name)
+}
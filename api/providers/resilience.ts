@@ -0,0 +1,167 @@
+// Retry policy and circuit breaker for live provider calls
+// Transient failures are retried with jittered exponential backoff inside the provider's own timeout.
+// A provider whose searches keep failing is skipped for a cool-down period, then gets one trial request.
+// Circuit state lives in memory, so each serverless instance learns about an outage on its own.
+import { API_CONFIG } from '../config'
+import { logger } from '../observability/logger'
+import { metrics } from '../observability/metrics'
+
+const POLICY = API_CONFIG.PROVIDER_RESILIENCE
+
+const log = logger.child({ component: 'resilience' })
+
+// Node system error codes worth another attempt; DNS failures and bad requests are not
+const TRANSIENT_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'])
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface ProviderHealth {
+  provider: string
+  state: CircuitState
+  consecutiveFailures: number
+  // When an open circuit lets the next trial request through
+  retryAt?: string
+  lastError?: string
+  lastFailureAt?: string
+  lastSuccessAt?: string
+  successes: number
+  failures: number
+  // Searches that skipped the provider while the circuit was open
+  skipped: number
+}
+
+const errorCode = (error: unknown): string | undefined => {
+  const { code, cause } = (error || {}) as { code?: unknown, cause?: { code?: unknown } }
+  const value = typeof code === 'string' ? code : cause?.code
+  return typeof value === 'string' ? value : undefined
+}
+
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  // A timed-out attempt already used up its share of the deadline
+  if (error.message === 'timeout') return false
+  const code = errorCode(error)
+  if (code) return TRANSIENT_CODES.has(code)
+  return /fetch failed|socket hang up|\b(?:429|502|503|504)\b/i.test(error.message)
+}
+
+// Full jitter: anywhere between 0 and the exponential cap, so instances retrying together spread out
+export function backoffDelay(attempt: number): number {
+  const cap = Math.min(POLICY.RETRY_MAX_DELAY_MS, POLICY.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+  return Math.round(Math.random() * cap)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** Settles like `pending`, or rejects with Error('timeout') after `ms`; the timer is cleared either way */
+export function withTimeout<T>(pending: Promise<T>, ms = 10000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error('timeout')), ms)
+    pending.then(v => { clearTimeout(t); resolve(v) }).catch(e => { clearTimeout(t); reject(e) })
+  })
+}
+
+/**
+ * Run `attempt` until it succeeds, fails with a non-transient error, or `budgetMs` runs out.
+ * Each attempt is given the time left; `onAttempt` sees the attempt number before it starts.
+ */
+export async function withRetries<T>(
+  attempt: (timeoutMs: number) => Promise<T>,
+  budgetMs: number,
+  onAttempt?: (n: number) => void
+): Promise<T> {
+  const deadline = Date.now() + budgetMs
+  for (let n = 1; ; n++) {
+    onAttempt?.(n)
+    try {
+      return await attempt(Math.max(1, deadline - Date.now()))
+    } catch (error) {
+      const delay = backoffDelay(n)
+      const retry = n < POLICY.MAX_ATTEMPTS && isTransientError(error) && deadline - Date.now() - delay >= POLICY.MIN_ATTEMPT_MS
+      if (!retry) throw error
+      log.warn('Retrying provider call', { attempt: n, delayMs: delay, error: error instanceof Error ? error.message : error })
+      await sleep(delay)
+    }
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt = 0
+  private lastError?: string
+  private lastFailureAt?: number
+  private lastSuccessAt?: number
+  private successes = 0
+  private failures = 0
+  private skipped = 0
+
+  constructor(readonly provider: string) {}
+
+  /** Whether a search may call the provider now. Counts a skip when it may not. */
+  allowRequest(now = Date.now()): boolean {
+    if (this.state === 'closed') return true
+    if (this.state === 'open' && now - this.openedAt >= POLICY.COOL_DOWN_MS) {
+      // One trial request at a time; the others keep skipping until it settles
+      this.state = 'half_open'
+      return true
+    }
+    this.skipped++
+    return false
+  }
+
+  recordSuccess(now = Date.now()) {
+    if (this.state !== 'closed') {
+      log.info('Circuit closed', { provider: this.provider })
+      metrics.providerCircuitOpen.set({ provider: this.provider }, 0)
+    }
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.successes++
+    this.lastSuccessAt = now
+  }
+
+  recordFailure(error: string, now = Date.now()) {
+    this.consecutiveFailures++
+    this.failures++
+    this.lastError = error
+    this.lastFailureAt = now
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= POLICY.FAILURE_THRESHOLD)) {
+      log.warn('Circuit opened', { provider: this.provider, consecutiveFailures: this.consecutiveFailures, error })
+      metrics.providerCircuitOpen.set({ provider: this.provider }, 1)
+      this.state = 'open'
+      this.openedAt = now
+    }
+  }
+
+  retryAt(): number | undefined {
+    return this.state === 'open' ? this.openedAt + POLICY.COOL_DOWN_MS : undefined
+  }
+
+  health(): ProviderHealth {
+    const iso = (ms?: number) => ms === undefined ? undefined : new Date(ms).toISOString()
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: iso(this.retryAt()),
+      lastError: this.lastError,
+      lastFailureAt: iso(this.lastFailureAt),
+      lastSuccessAt: iso(this.lastSuccessAt),
+      successes: this.successes,
+      failures: this.failures,
+      skipped: this.skipped
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+export function providerCircuit(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider)
+    breakers.set(provider, breaker)
+  }
+  return breaker
+}
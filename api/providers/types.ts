@@ -0,0 +1,196 @@
+// Shared contracts for search providers
+import type { RoomType } from '../tools/parse-filters'
+import type { ProviderPrice } from '../utils/pricing'
+
+export interface ProviderParams {
+  location: string
+  checkin?: string
+  checkout?: string
+  adults?: number
+  children?: number
+  priceMin?: number
+  priceMax?: number
+  page?: number
+  minBedrooms?: number
+  minBathrooms?: number
+  minBeds?: number
+  amenities?: string[]
+  propertyType?: string
+  roomType?: RoomType
+  minRating?: number
+  superhost?: boolean
+  // The provider's own paging state from its previous page; absent for the first page
+  cursor?: ProviderCursor
+}
+
+// Provider-specific paging state (an offset, a page token, ...), round-tripped inside the search cursor
+export type ProviderCursor = Record<string, string | number>
+
+// One search result as a provider maps it, before price normalization; src/types mirrors it as AirbnbListing
+export interface ProviderListing {
+  id: string | number
+  name: string
+  url: string
+  images: string[]
+  price: ProviderPrice
+  rating: number
+  reviewsCount: number
+  location: {
+    city: string
+    country: string
+    coordinates?: { lat: number, lng: number }
+  }
+  host: {
+    name: string
+    isSuperhost: boolean
+  }
+  amenities: string[]
+  roomType: string
+  propertyType?: string
+  platform?: string
+  bedrooms?: number
+  bathrooms?: number
+  beds?: number
+  maxGuests?: number
+  trustScore?: number
+}
+
+export interface ProviderPage {
+  listings: ProviderListing[]
+  // Where the next page starts; null once the provider has nothing more
+  cursor: ProviderCursor | null
+  // Total matches the provider reported, when it reports one
+  totalResults?: number
+}
+
+// Which ProviderParams a provider actually honours; also drives the LLM tool schema
+export interface ProviderCapabilities {
+  dates: boolean
+  priceFilter: boolean
+  pagination: boolean
+  // Amenities plus the other listing filters (room type, room counts, rating, superhost)
+  amenities: boolean
+}
+
+export interface SearchProvider {
+  // Platform name; also used as the `search_<name>` tool name and in `sources`
+  name: string
+  // Shown to the LLM orchestrator when choosing providers
+  description: string
+  capabilities: ProviderCapabilities
+  timeoutMs: number
+  // Answers from local data only; served as is under fixture replay instead of from recorded payloads
+  local?: boolean
+  // Providers that need credentials or a backend URL report whether they are configured
+  isEnabled(): boolean
+  search(params: ProviderParams): Promise<ProviderPage>
+  // Full details of one of the provider's listings, by the `id` its search returned; null when it does not exist
+  details?(id: string): Promise<ListingDetails | null>
+  // Guest reviews of one of the provider's listings, most recent first; null when the listing does not exist
+  reviews?(id: string): Promise<ListingReview[] | null>
+  // Night-by-night availability and prices of one of the provider's listings; null when it does not exist
+  calendar?(id: string, range: CalendarRange): Promise<ListingCalendar | null>
+}
+
+export interface SleepingArrangement {
+  // "Bedroom 1", "Living room"
+  room: string
+  beds: { type: string, count: number }[]
+}
+
+// What /api/listing/:platform/:id returns; fields the platform does not publish are left out
+export interface ListingDetails {
+  id: string
+  platform: string
+  name: string
+  url: string
+  description?: string
+  propertyType?: string
+  roomType?: string
+  maxGuests?: number
+  bedrooms?: number
+  bathrooms?: number
+  beds?: number
+  // Every amenity the platform lists, in its own words
+  amenities: string[]
+  houseRules: string[]
+  // Local times as the platform words them: "3:00 PM", "After 4:00 PM", "3:00 PM - 10:00 PM"
+  checkIn?: string
+  checkOut?: string
+  cancellationPolicy?: { name: string, description?: string }
+  sleepingArrangements: SleepingArrangement[]
+  photos: { url: string, caption?: string }[]
+  host?: {
+    name: string
+    isSuperhost?: boolean
+    // Year the host joined the platform
+    memberSince?: number
+    yearsHosting?: number
+  }
+  location: {
+    city?: string
+    country?: string
+    coordinates?: { lat: number, lng: number }
+  }
+  rating?: number
+  reviewsCount?: number
+  fetchedAt: string
+}
+
+// 'bypass' when no cache is configured or fixtures are in use
+export type CacheStatus = 'hit' | 'miss' | 'bypass'
+
+export interface ProviderStatus {
+  platform: string
+  count: number
+  // 'skipped' when the provider was not called, see `reason`
+  status: 'success' | 'error' | 'timeout' | 'skipped'
+  error?: string
+  // 'circuit_open': it kept failing and is cooling down; 'over_budget': its paid call would exceed the cost budget
+  reason?: 'circuit_open' | 'over_budget'
+  // Calls made, including retries of transient failures; absent when nothing was called
+  attempts?: number
+  // The provider has no further pages for this search
+  exhausted?: boolean
+  // Whether the listings came from the provider response cache
+  cache?: CacheStatus
+}
+
+export interface ListingReview {
+  id: string
+  text: string
+  // ISO date the review was written; absent when the platform only says "a while ago"
+  date?: string
+  // Out of 5, when the platform shows the reviewer's own rating
+  rating?: number
+  author?: string
+  language?: string
+}
+
+// Nights from `from` through `to`, both YYYY-MM-DD and inclusive
+export interface CalendarRange {
+  from: string
+  to: string
+}
+
+export interface CalendarDay {
+  date: string
+  // The night of `date` can be booked
+  available: boolean
+  // Nightly rate before fees, in the calendar's currency; absent when the platform shows none
+  price?: number
+  // Shortest stay that may start on `date`
+  minNights?: number
+  // Changeover rules; absent when a stay may start or end on any available date
+  checkinAllowed?: boolean
+  checkoutAllowed?: boolean
+}
+
+// What /api/calendar/:platform/:id returns; days the platform does not cover are left out
+export interface ListingCalendar {
+  id: string
+  platform: string
+  currency: string
+  days: CalendarDay[]
+  fetchedAt: string
+}
@@ -0,0 +1,232 @@
+// Vrbo adapter: whole-home rentals from Vrbo's search endpoint, fetched through the ScrapingBee proxy
+import { recordFixture } from './fixtures'
+import { fetchThroughProxy } from './proxy'
+import type { ProviderPage, ProviderParams, SearchProvider } from './types'
+import { stayNights, type PriceFees, type ProviderPrice } from '../utils/pricing'
+
+const VRBO_SEARCH_URL = 'https://www.vrbo.com/serp/g'
+
+const VRBO_PAGE_SIZE = 24
+
+const VRBO_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'application/json',
+  'Content-Type': 'application/json',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Origin': 'https://www.vrbo.com',
+  'Referer': 'https://www.vrbo.com/search'
+}
+
+// Only the fields mapVrboResults reads
+const SEARCH_QUERY = `query SearchRequestQuery($request: SearchResultRequest!) {
+  results: search(request: $request) {
+    page pageCount pageSize resultCount
+    listings {
+      listingId propertyId headline detailPageUrl propertyType premierHost
+      bedrooms sleeps averageRating reviewCount amenities
+      bathrooms { full half toiletOnly }
+      geoCode { latitude longitude }
+      geography { name country }
+      images { uri c6_uri }
+      priceSummary { amount currency pricePeriodDescription }
+      prices { total { amount currency } cleaningFee serviceFee taxes }
+    }
+  }
+}`
+
+// Vrbo amenity names onto the names the rest of the stack filters on (see AMENITY_ID_MAP in airbnb-api)
+const AMENITY_NAMES: Record<string, string> = {
+  'internet': 'WiFi',
+  'wifi': 'WiFi',
+  'kitchen': 'Kitchen',
+  'parking': 'Parking',
+  'pool': 'Pool',
+  'private pool': 'Pool',
+  'hot tub': 'Hot Tub',
+  'air conditioning': 'Air Conditioning',
+  'washer': 'Laundry',
+  'dryer': 'Laundry',
+  'gym': 'Gym',
+  'fitness room': 'Gym'
+}
+
+export async function searchVrbo(params: ProviderParams): Promise<ProviderPage> {
+  const page = Number(params.cursor?.page || params.page || 1)
+  const body = {
+    operationName: 'SearchRequestQuery',
+    variables: { request: buildSearchRequest(params, page) },
+    query: SEARCH_QUERY
+  }
+  const resp = await fetchThroughProxy(VRBO_SEARCH_URL, {
+    method: 'POST',
+    headers: VRBO_HEADERS,
+    body: JSON.stringify(body)
+  })
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '')
+    throw new Error(`Vrbo search ${resp.status}: ${resp.statusText}${text ? ` - ${text.slice(0, 160)}` : ''}`)
+  }
+  const data = await resp.json() as VrboSearchResponse
+  await recordFixture('vrbo', 'vrbo_search', params, data)
+  return mapVrboResponse(data, params)
+}
+
+function buildSearchRequest(params: ProviderParams, page: number) {
+  const coreFilters: Record<string, number> = {}
+  if (params.adults) coreFilters.adults = params.adults
+  if (params.children) coreFilters.children = params.children
+  if (params.minBedrooms) coreFilters.minBedrooms = params.minBedrooms
+  if (params.minBathrooms) coreFilters.minBathrooms = params.minBathrooms
+  if (params.priceMin) coreFilters.minNightlyPrice = params.priceMin
+  if (params.priceMax) coreFilters.maxNightlyPrice = params.priceMax
+  return {
+    q: params.location,
+    paging: { page, pageSize: VRBO_PAGE_SIZE },
+    coreFilters,
+    ...(params.checkin && params.checkout && {
+      dates: { arrivalDate: params.checkin, departureDate: params.checkout }
+    })
+  }
+}
+
+export interface VrboSearchResponse {
+  data?: {
+    results?: {
+      listings?: VrboUnit[]
+      page?: number
+      pageCount?: number
+      resultCount?: number
+    }
+  }
+}
+
+// Vrbo pages by number and reports how many pages there are.
+// `quoted` holds the dates the payload was priced for: the request's own live, the recorded ones under fixture replay.
+export function mapVrboResponse(data: VrboSearchResponse | null, params: ProviderParams, quoted: ProviderParams = params): ProviderPage {
+  const results = data?.data?.results
+  const listings = mapVrboResults(data, params, quoted)
+  const page = Number(results?.page || params.cursor?.page || params.page || 1)
+  const hasMore = typeof results?.pageCount === 'number' ? page < results.pageCount : listings.length >= VRBO_PAGE_SIZE
+  return {
+    listings,
+    cursor: hasMore ? { page: page + 1 } : null,
+    totalResults: results?.resultCount,
+  }
+}
+
+interface VrboPrices {
+  total?: { amount?: number, currency?: string }
+  cleaningFee?: number
+  serviceFee?: number
+  taxes?: number
+}
+
+export interface VrboUnit {
+  listingId?: string
+  propertyId?: string
+  headline?: string
+  detailPageUrl?: string
+  propertyType?: string
+  premierHost?: boolean
+  bedrooms?: number
+  bathrooms?: number | { full?: number, half?: number, toiletOnly?: number }
+  sleeps?: number
+  averageRating?: number
+  reviewCount?: number
+  amenities?: string[]
+  geoCode?: { latitude: number, longitude: number }
+  geography?: { name?: string, country?: string }
+  images?: { uri?: string, c6_uri?: string }[]
+  priceSummary?: { amount?: number, currency?: string }
+  prices?: VrboPrices
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+// priceSummary is the average nightly rate; with dates, prices.total is the stay including fees and taxes.
+// Quoted for a stay of another length, the total is left to rate × nights + fees, with the service fee and taxes
+// scaled to the stay and the cleaning fee charged once.
+function vrboPrice(
+  summary: { amount?: number, currency?: string } | undefined,
+  prices: VrboPrices | undefined,
+  scale?: number
+): ProviderPrice {
+  const perStay = (amount: number) => scale === undefined ? amount : round(amount * scale)
+  const fees: PriceFees = {}
+  if (prices?.cleaningFee) fees.cleaning = prices.cleaningFee
+  if (prices?.serviceFee) fees.service = perStay(prices.serviceFee)
+  if (prices?.taxes) fees.taxes = perStay(prices.taxes)
+  return {
+    rate: summary?.amount || 0,
+    currency: summary?.currency || prices?.total?.currency || 'USD',
+    total: scale === undefined ? prices?.total?.amount || undefined : undefined,
+    fees: Object.keys(fees).length ? fees : undefined,
+  }
+}
+
+// Half baths and toilet-only rooms count as half a bathroom
+function bathroomCount(bathrooms: VrboUnit['bathrooms']): number | undefined {
+  if (typeof bathrooms === 'number') return bathrooms
+  if (!bathrooms) return undefined
+  const { full = 0, half = 0, toiletOnly = 0 } = bathrooms
+  const count = full + (half + toiletOnly) / 2
+  return count > 0 ? count : undefined
+}
+
+function vrboAmenities(names: string[] = []): string[] {
+  const mapped = names.map(name => AMENITY_NAMES[name.toLowerCase()]).filter(Boolean)
+  return Array.from(new Set(mapped))
+}
+
+// Maps a Vrbo search response to listings; the location is the city fallback.
+// Stay totals and fees only apply to the dates they were quoted for, so undated searches keep the nightly rate alone.
+export function mapVrboResults(data: VrboSearchResponse | null, params: ProviderParams, quoted: ProviderParams = params) {
+  const units = data?.data?.results?.listings || []
+  const dated = !!(params.checkin && params.checkout)
+  const sameStay = quoted.checkin === params.checkin && quoted.checkout === params.checkout
+  const quotedNights = stayNights(quoted.checkin, quoted.checkout)
+  const nights = stayNights(params.checkin, params.checkout)
+  // Fees of a stay quoted without dates cannot be scaled to one
+  const scale = sameStay ? undefined : quotedNights && nights ? nights / quotedNights : 0
+  return units.map(u => ({
+    id: String(u.listingId || u.propertyId),
+    name: u.headline || 'Vacation rental',
+    url: u.detailPageUrl
+      ? new URL(u.detailPageUrl, 'https://www.vrbo.com').toString()
+      : `https://www.vrbo.com/${u.propertyId || ''}`,
+    images: (u.images || []).map(i => i.c6_uri || i.uri).filter((uri): uri is string => !!uri),
+    price: vrboPrice(u.priceSummary, dated && scale !== 0 ? u.prices : undefined, scale || undefined),
+    rating: u.averageRating || 0,
+    reviewsCount: u.reviewCount || 0,
+    location: {
+      city: u.geography?.name || params.location,
+      country: u.geography?.country || '',
+      coordinates: u.geoCode
+        ? { lat: u.geoCode.latitude, lng: u.geoCode.longitude }
+        : undefined,
+    },
+    host: {
+      name: 'Vrbo host',
+      isSuperhost: !!u.premierHost,
+    },
+    amenities: vrboAmenities(u.amenities),
+    // Vrbo only lists whole homes
+    roomType: 'entire_home',
+    propertyType: u.propertyType,
+    platform: 'vrbo',
+    bedrooms: u.bedrooms,
+    bathrooms: bathroomCount(u.bathrooms),
+    maxGuests: u.sleeps,
+    trustScore: u.averageRating ? Math.round((u.averageRating / 5) * 100) : 0,
+  }))
+}
+
+// Vrbo turns away datacenter traffic, so the provider only runs behind the ScrapingBee proxy
+export const vrboProvider: SearchProvider = {
+  name: 'vrbo',
+  description: 'Search Vrbo whole-home vacation rentals (houses, cabins, condos), best for groups and families. Must include location. Dates give stay totals.',
+  capabilities: { dates: true, priceFilter: true, pagination: true, amenities: false },
+  timeoutMs: 15000,
+  isEnabled: () => !!process.env.SCRAPINGBEE_API_KEY,
+  search: searchVrbo,
+}
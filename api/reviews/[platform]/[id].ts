@@ -0,0 +1,88 @@
+// Guest review insights for one listing, analyzed locally (api/utils/review-insights.ts)
+//   GET /api/reviews/airbnb/52871934
+//   GET /api/reviews/booking/<property token>?summary=1
+// Reviews come from the provider layer (SearchProvider.reviews) and are cached per listing; the analysis runs on every
+// request so recency weighting stays current. `summary=1` adds an LLM summary when one is configured and the budget allows.
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { withApi } from '../../middleware'
+import {
+  readReviewsCache,
+  readReviewSummaryCache,
+  writeReviewsCache,
+  writeReviewSummaryCache
+} from '../../cache'
+import { CostLedger, llmCost, withCostLedger } from '../../budget'
+import { getLLMClient } from '../../llm'
+import { getProvider } from '../../providers/registry'
+import { withTimeout } from '../../providers/resilience'
+import type { ListingReview } from '../../providers/types'
+import { ApiError } from '../../utils/api-error'
+import { assertListingRef, listingCacheEnabled, listingRef, sendListingError } from '../../utils/listing-endpoint'
+import { analyzeReviews, summarizeReviews, type ReviewInsights } from '../../utils/review-insights'
+import { logger } from '../../observability/logger'
+
+const log = logger.child({ component: 'review-insights' })
+
+const RECENT_REVIEWS = 5
+
+export default withApi(handler, { methods: ['GET'], route: '/api/reviews/:platform/:id' })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const ref = listingRef(req)
+  const { platform, id } = ref
+  const wantsSummary = req.query?.summary === '1' || req.query?.summary === 'true'
+  let budget: CostLedger | undefined
+
+  try {
+    assertListingRef(ref, '/api/reviews')
+    const provider = getProvider(platform)
+    if (!provider?.reviews) throw new ApiError('UNKNOWN_PLATFORM', `Reviews are not available for "${platform}"`)
+
+    const live = listingCacheEnabled()
+    let reviews = live ? await readReviewsCache(platform, id) : null
+    res.setHeader('X-Cache', !live ? 'BYPASS' : reviews ? 'HIT' : 'MISS')
+    budget = await CostLedger.open()
+    if (!reviews) {
+      reviews = await withCostLedger(budget, () => withTimeout(provider.reviews!(id), provider.timeoutMs))
+      if (!reviews) throw new ApiError('LISTING_NOT_FOUND', `No ${platform} listing ${id}`)
+      if (live) await writeReviewsCache(platform, id, reviews)
+    }
+
+    const insights = analyzeReviews(reviews)
+    if (wantsSummary && reviews.length) {
+      const cached = live ? await readReviewSummaryCache(platform, id) : null
+      const summary = cached || await summarize(reviews, insights, budget)
+      if (summary) insights.summary = summary
+      if (summary && live && !cached) await writeReviewSummaryCache(platform, id, summary)
+    }
+    await budget.settle()
+
+    res.setHeader('Cache-Control', 'private, max-age=3600')
+    return res.status(200).json({ platform, id, insights, recentReviews: reviews.slice(0, RECENT_REVIEWS) })
+  } catch (error) {
+    return sendListingError(res, error, ref, budget, {
+      code: 'REVIEWS_UNAVAILABLE',
+      message: `Could not fetch reviews for ${platform} listing ${id}`,
+      log,
+      event: 'Review insights failed',
+    })
+  }
+}
+
+// The summary is a nice-to-have: no LLM, no budget or a failed call leaves the local insights as they are
+async function summarize(reviews: ListingReview[], insights: ReviewInsights, budget: CostLedger) {
+  try {
+    const llm = getLLMClient()
+    if (!llm) return null
+    if (!budget.allows(llmCost(llm.model))) {
+      budget.degrade('llm_skipped')
+      return null
+    }
+    const { summary, usage } = await summarizeReviews(llm, reviews, insights)
+    budget.record('llm', llmCost(llm.model, usage), llm.model)
+    return summary
+  } catch (error) {
+    log.warn('Review summary failed', { error })
+    return null
+  }
+}
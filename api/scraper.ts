@@ -1,4 +1,6 @@
 // This file has been removed - HTTP API approach is now used instead of browser scraping
-export default function() {
+import { withApi } from './middleware'
+
+export default withApi(() => {
   throw new Error('Scraper has been removed - using HTTP API approach instead')
-}
\ No newline at end of file
+}, { methods: ['GET', 'POST'] })
\ No newline at end of file
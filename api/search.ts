@@ -1,246 +1,588 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { extractParams } from './tools/extract-params'
-import { searchAirbnb } from './providers/airbnb'
-import { searchAirbnbPybnb } from './providers/airbnb-pybnb'
-import { searchBooking } from './providers/booking'
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
-  if (req.method === 'OPTIONS') return res.status(200).end()
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+import { extractParams, type ExtractOptions, type ExtractedParams } from './tools/extract-params'
+import { getEnabledProviders, getProvider } from './providers/registry'
+import type { ListingCalendar, ProviderCursor, ProviderParams, ProviderStatus, SearchProvider } from './providers/types'
+import { fixtureMode, type FixtureMode } from './providers/fixtures'
+import { mergeCrossPlatformDuplicates, type Coordinates } from './utils/listing-match'
+import { applyConstraints, type FilterableListing, type ListingConstraints } from './utils/filter-listings'
+import { explainMatches } from './utils/match-reasons'
+import { centroid, sortListings, type SortMode } from './utils/sort-listings'
+import { geocodingService } from './services/geocoding'
+import { encodeCursor, hasMorePages, type SearchCursor } from './utils/search-cursor'
+import { assertValidStay, validateSearchRequest } from './utils/search-request'
+import { ApiError, type ApiErrorCode } from './utils/api-error'
+import { getLLMClient, type LLMClient, type LLMMessage, type LLMTool } from './llm'
+import { saveTrace, TraceRecorder } from './utils/search-trace'
+import { providerCacheEnabled, readCalendarCache, readProviderCache, writeCalendarCache, writeProviderCache } from './cache'
+import { withApi } from './middleware'
+import { refineContext, toSearchContext, type SearchContext } from './tools/refine-context'
+import { providerCircuit, withRetries, withTimeout } from './providers/resilience'
+import { convertPriceLimits, normalizeListingPrices, stayNights } from './utils/pricing'
+import { exchangeRates } from './utils/exchange-rates'
+import { compareFlexibleDates, flexibleRange, type CalendarListing, type FlexibleDates } from './utils/flexible-dates'
+import { todayDate } from './tools/parse-dates'
+import { CostLedger, llmCost, OverBudgetError, withCostLedger } from './budget'
+import { currentRequestId, logger, newRequestId } from './observability/logger'
+import { metrics } from './observability/metrics'
+import { API_CONFIG } from './config'
+
+const log = logger.child({ component: 'search' })
+
+// Distance ranking falls back to the middle of the results rather than wait longer for a geocoder
+const ORIGIN_GEOCODE_TIMEOUT_MS = 3000
+
+// Events written as newline-delimited JSON when the client opts into streaming with `stream: true`
+type SearchStreamEvent =
+  | { type: 'provider_start', platform: string }
+  | ({ type: 'provider', listings: unknown[] } & ProviderStatus)
+  | ({ type: 'done' } & Record<string, unknown>)
+  | { type: 'error', error: string, code: ApiErrorCode }
+
+type SearchEmitter = (event: SearchStreamEvent) => void
+
+export interface SearchInput {
+  query: string
+  timeZone?: string
+  sort?: SortMode
+  cursor: SearchCursor | null
+  maxResults: number
+  // The previous response's context; `query` is then a follow-up applied to it
+  context?: SearchContext
+  // Compare the stay shifted up to this many days either way (dated searches only)
+  flexibleDays?: number
+}
+
+// Per-request plumbing threaded through the pipeline
+export interface SearchRun {
+  trace: TraceRecorder
+  emit?: SearchEmitter
+  // Overrides PROVIDER_FIXTURES; trace replay forces 'replay'
+  providerMode?: FixtureMode
+  // Overrides the configured LLM backend; trace replay scripts the recorded answers
+  llm?: LLMClient | null
+  // Every price is converted to this currency; API_CONFIG.PRICING.DEFAULT_CURRENCY when absent
+  currency?: string
+  // Paid calls are priced and checked against it; trace replay runs without one
+  budget?: CostLedger
+}
+
+export default withApi(handler, { methods: ['POST'] })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set by the middleware, which also sends it as X-Request-Id
+  const requestId = currentRequestId() || newRequestId()
+
+  let emit: SearchEmitter | undefined
+  let trace: TraceRecorder | undefined
+  let budget: CostLedger | undefined
 
   try {
-    const { query, page = 1, maxResults = 40 } = req.body || {}
-    if (!query || typeof query !== 'string') {
-      return res.status(400).json({ error: 'Query is required' })
+    // Invalid requests are answered with a plain JSON error, before any stream starts
+    const request = validateSearchRequest(req.body)
+    const { query, sort, cursor, cursorToken, maxResults, currency } = request
+
+    // Streaming mode sends each provider's listings as they arrive, then a final ranked `done` event
+    if (request.stream) {
+      res.status(200)
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8')
+      res.setHeader('Cache-Control', 'no-cache, no-transform')
+      res.setHeader('X-Accel-Buffering', 'no')
+      emit = (event) => { res.write(JSON.stringify(event) + '\n') }
     }
 
-    // Try LLM tool-calling orchestrator first; fallback to lightweight parser
-    const openaiKey = process.env.OPENAI_API_KEY
-    let combinedListings: any[] | null = null
-    let sources: { platform: string, count: number, status: 'success'|'error'|'timeout', error?: string }[] = []
+    const input: SearchInput = {
+      query,
+      timeZone: request.timeZone,
+      sort,
+      cursor,
+      maxResults,
+      context: request.context,
+      flexibleDays: request.flexibleDays
+    }
+    trace = new TraceRecorder(requestId, {
+      query,
+      timeZone: input.timeZone,
+      sort,
+      page: cursor ? cursor.page : 1,
+      cursor: cursorToken,
+      maxResults,
+      context: request.context,
+      currency,
+      flexibleDays: request.flexibleDays
+    })
+    budget = await CostLedger.open()
+    const payload = await runSearch(input, { trace, emit, currency, budget })
+    await Promise.all([saveTrace(trace.trace), budget.settle()])
+    metrics.searches.inc({ mode: trace.trace.mode, outcome: 'success' })
 
-    if (openaiKey) {
-      try {
-        const orchestration = await orchestrateWithLLM(query, page)
-        combinedListings = orchestration.listings
-        sources = orchestration.sources
-      } catch (e) {
-        console.warn('LLM orchestration failed, using fallback:', e instanceof Error ? e.message : e)
-      }
+    if (!emit) return res.status(200).json({ requestId, ...payload })
+    emit({ type: 'done', requestId, ...payload })
+    return res.end()
+  } catch (error) {
+    // An ApiError is an expected outcome (bad request, no location, every provider down) with its own code
+    const known = error instanceof ApiError ? error : null
+    if (!known) log.error('Search failed', { error })
+    if (trace) await saveTrace(trace.finish({ error: error instanceof Error ? error.message : String(error) }))
+    await budget?.settle()
+    const code: ApiErrorCode = known ? known.code : 'INTERNAL_ERROR'
+    // Requests rejected before a trace exists never reached orchestration
+    metrics.searches.inc({ mode: trace ? trace.trace.mode : 'none', outcome: code })
+    const message = known ? known.message : 'Failed to perform search'
+    if (emit) {
+      emit({ type: 'error', error: message, code })
+      return res.end()
     }
+    return res.status(known ? known.status : 500).json({ error: message, code, requestId })
+  }
+}
 
-    if (!combinedListings) {
-      const params = extractParams(query)
-      if (!params.location) {
-        return res.status(200).json({
-          listings: [],
-          sources: [],
-          page,
-          notes: 'Location not detected. Try: "in Paris" or "near Austin".'
-        })
+/**
+ * The search pipeline behind the endpoint: orchestrate (LLM or fallback parser), dedupe, rank and filter.
+ * Also used by trace replay with scripted LLM answers and fixture providers.
+ */
+export async function runSearch(input: SearchInput, run: SearchRun): Promise<Record<string, unknown>> {
+  const { query, sort, cursor, maxResults } = input
+  const page = cursor ? cursor.page : 1
+  // The round of provider pages this response is cut from, and how much of it earlier responses returned
+  const batch = cursor?.batch || { page, served: 0 }
+  const currency = run.currency || API_CONFIG.PRICING.DEFAULT_CURRENCY
+  const extractOptions: ExtractOptions = { timeZone: input.timeZone }
+
+  // Try LLM tool-calling orchestrator first; fallback to lightweight parser
+  let combinedListings: any[] | null = null
+  let sources: ProviderStatus[] = []
+  let nextStates: Record<string, ProviderCursor | null> = {}
+  let totalResults = 0
+  let extracted: ExtractedParams | null = null
+  // What the query asked for, enforced on every listing after the providers answer
+  let constraints: ListingConstraints = {}
+
+  // A follow-up changes the previous search's structured context instead of re-parsing the whole conversation;
+  // a message that starts a new search elsewhere is searched on its own
+  const refinement = input.context ? refineContext(input.context, query, extractOptions) : null
+
+  // Later pages reuse the providers the first page used, so the LLM is not consulted again.
+  // Refinements skip it too: the context already says what to search for
+  if (!cursor && !refinement) {
+    try {
+      let llm = run.llm !== undefined ? run.llm : getLLMClient()
+      // Over budget, the parser answers instead of the model
+      if (llm && run.budget && !run.budget.allows(llmCost(llm.model))) {
+        run.budget.degrade('llm_skipped')
+        llm = null
       }
-      const providerParams = {
-        location: params.location,
-        checkin: params.checkin,
-        checkout: params.checkout,
-        adults: params.adults,
-        children: params.children,
-        priceMin: params.priceMin,
-        priceMax: params.priceMax,
-        page,
+      const orchestration = llm ? await orchestrateWithLLM(llm, query, page, extractOptions, run) : null
+      if (orchestration && !orchestration.sources.length) {
+        // Nothing was searched; the parser decides between a search and LOCATION_MISSING
+        log.warn('LLM orchestration called no provider, using fallback')
+        run.trace.llmFailed('No provider was called')
+      } else if (orchestration) {
+        combinedListings = orchestration.listings
+        sources = orchestration.sources
+        nextStates = orchestration.next
+        totalResults = orchestration.totalResults
+        extracted = orchestration.extracted
+        constraints = orchestration.extracted || orchestration.searchArgs || {}
       }
+    } catch (e) {
+      // Invalid dates stay invalid with the fallback parser
+      if (e instanceof ApiError) throw e
+      const message = e instanceof Error ? e.message : String(e)
+      log.warn('LLM orchestration failed, using fallback', { error: message })
+      run.trace.llmFailed(message)
+    }
+  }
 
-      const { listings, status } = await runProviders(providerParams)
-      combinedListings = listings
-      sources = status
+  if (!combinedListings) {
+    const params: ExtractedParams = refinement ? { ...refinement.context } : extractParams(query, extractOptions)
+    extracted = params
+    if (!params.location) {
+      run.trace.finish({ extracted })
+      throw new ApiError('LOCATION_MISSING', 'Location not detected. Try: "in Paris" or "near Austin".')
+    }
+    assertValidStay(params.checkin, params.checkout, input.timeZone)
+    const providerParams = {
+      location: params.location,
+      checkin: params.checkin,
+      checkout: params.checkout,
+      adults: params.adults,
+      children: params.children,
+      priceMin: params.priceMin,
+      priceMax: params.priceMax,
+      page: batch.page,
+      amenities: params.amenities,
+      propertyType: params.propertyType,
+      roomType: params.roomType,
+      minBedrooms: params.minBedrooms,
+      minBathrooms: params.minBathrooms,
+      minBeds: params.minBeds,
+      minRating: params.minRating,
+      superhost: params.superhost,
     }
 
-    const unique = dedupeAndSort(combinedListings)
+    const result = await runProviders(providerParams, run, undefined, cursor?.providers)
+    combinedListings = result.listings
+    sources = result.status
+    nextStates = result.next
+    totalResults = result.totalResults
+    constraints = providerParams
+  }
 
-    return res.status(200).json({
-      listings: unique.slice(0, maxResults),
-      sources,
-      page,
-    })
-  } catch (error) {
-    console.error('Unified search error:', error)
-    return res.status(500).json({ error: 'Failed to perform search' })
+  if (sources.length && sources.every(source => source.status !== 'success')) {
+    run.trace.finish({ extracted })
+    const failures = sources.map(source => `${source.platform}: ${source.error || source.status}`).join('; ')
+    throw new ApiError('ALL_PROVIDERS_FAILED', `No provider could be searched (${failures})`)
+  }
+
+  // An explicit `sort` wins over ranking phrases in the query ("cheapest first")
+  const sortMode: SortMode = sort || extracted?.sort || 'relevance'
+  const origin = sortMode === 'distance' ? await searchOrigin(extracted?.location, combinedListings, run) : undefined
+  const unique = dedupeAndSort(combinedListings, sortMode, origin)
+  // "under $200" has to hold on every platform, not just the ones whose API takes a price filter
+  const limits = convertPriceLimits(constraints, currency)
+  const { listings: matching, report: filtered } = applyConstraints(unique, limits)
+  const served = batch.served + maxResults
+  // Provider pages hold more listings than a response; the rest are served before the providers move on
+  const leftover = matching.length > served
+  const hasMore = leftover || hasMorePages(nextStates)
+  // Explained against every listing that passed the filter, not just this page
+  const listings = explainMatches(matching.slice(batch.served, served), limits, matching)
+  // Leftovers are fetched again from the same provider states, which the provider cache answers when it is on
+  const nextCursor = !hasMore
+    ? null
+    : leftover
+      ? encodeCursor(page + 1, cursor?.providers || firstPageStates(nextStates), { page: batch.page, served })
+      : encodeCursor(page + 1, nextStates, { page: batch.page + 1, served: 0 })
+  const flexibleDates = input.flexibleDays && extracted?.checkin && extracted.checkout
+    ? await flexibleDatesFor(listings, { checkin: extracted.checkin, checkout: extracted.checkout }, input.flexibleDays, input.timeZone, run)
+    : undefined
+
+  run.trace.finish({
+    extracted,
+    result: { count: listings.length, hasMore, totalResults, sort: sortMode, filtered }
+  })
+
+  return {
+    listings,
+    sources,
+    page,
+    hasMore,
+    // As reported by the providers, before deduplication and the filter stage
+    totalResults,
+    nextCursor,
+    sort: sortMode,
+    filtered,
+    // Every listing price is in this currency; `price.original` keeps what the provider quoted
+    currency,
+    ratesUpdatedAt: exchangeRates().updatedAt,
+    // Send back as `context` with the next utterance to refine this search
+    context: refinement ? refinement.context : toSearchContext(extracted),
+    changes: refinement?.changes,
+    // Estimated spend on paid APIs and anything skipped to stay within budget
+    cost: run.budget?.summary(),
+    dates: extracted?.checkin ? {
+      checkin: extracted.checkin,
+      checkout: extracted.checkout,
+      inferred: extracted.dateSource === 'inferred',
+    } : undefined,
+    // The same stay shifted around `dates`, when the request set `flexibleDays`
+    flexibleDates,
   }
 }
 
-async function orchestrateWithLLM(query: string, page: number) {
-  const openaiKey = process.env.OPENAI_API_KEY!
+// Prices the flexible windows from the calendars of the top results on platforms that publish one.
+// A calendar that fails or times out leaves its listing out of the comparison instead of failing the search.
+async function flexibleDatesFor(
+  listings: { id: string | number, platform: string, name?: string }[],
+  stay: { checkin: string, checkout: string },
+  days: number,
+  timeZone: string | undefined,
+  run: SearchRun
+): Promise<FlexibleDates> {
+  const today = todayDate(timeZone)
+  const range = flexibleRange(stay.checkin, stay.checkout, days, today)
+  const live = (run.providerMode || fixtureMode()) === 'live'
+  const candidates = listings
+    .map(listing => ({ listing, provider: getProvider(listing.platform, run.providerMode) }))
+    .filter(({ provider }) => provider?.calendar)
+    .slice(0, API_CONFIG.FLEXIBLE_DATES.MAX_LISTINGS)
 
-  const hasBooking = !!process.env.SERPAPI_KEY
+  const calendars = await Promise.all(candidates.map(async ({ listing, provider }) => {
+    const id = String(listing.id)
+    try {
+      const cached = live ? await readCalendarCache(provider!.name, id, range) : null
+      const fetch = () => provider!.calendar!(id, range)
+      const calendar = cached || await withTimeout(run.budget ? withCostLedger(run.budget, fetch) : fetch(), provider!.timeoutMs)
+      if (calendar && live && !cached) await writeCalendarCache(range, calendar)
+      const entry: CalendarListing = { id, platform: provider!.name, name: listing.name }
+      return calendar ? { listing: entry, calendar } : null
+    } catch (error) {
+      log.warn('Calendar unavailable for flexible dates', { platform: provider!.name, id, error: error instanceof Error ? error.message : error })
+      return null
+    }
+  }))
+  const compared = calendars.filter((entry): entry is { listing: CalendarListing, calendar: ListingCalendar } => entry !== null)
+  return compareFlexibleDates(compared, stay, days, run.currency || API_CONFIG.PRICING.DEFAULT_CURRENCY, today)
+}
 
-  const tools: any[] = [
+async function orchestrateWithLLM(llm: LLMClient, query: string, page: number, extractOptions: ExtractOptions, run: SearchRun) {
+  log.info('Orchestrating with LLM', { llm: llm.provider, model: llm.model })
+  const providers = getEnabledProviders(run.providerMode)
+
+  const tools: LLMTool[] = [
     {
-      type: 'function',
-      function: {
-        name: 'extract_params',
-        description: 'Extracts location, guests, dates (YYYY-MM-DD), and priceMin/priceMax from a travel search query',
-        parameters: {
-          type: 'object',
-          properties: { query: { type: 'string' } },
-          required: ['query']
-        }
+      name: 'extract_params',
+      description: 'Extracts location, guests, priceMin/priceMax, amenities, property/room type, minimum bedrooms/bathrooms/beds, minRating, superhost and dates from a travel search query. Resolves phrases like "next weekend", "Dec 20-27" or "5 nights starting Friday" into checkin/checkout (YYYY-MM-DD) in the user\'s timezone.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string' } },
+        required: ['query']
       }
     },
-    {
-      type: 'function',
-      function: {
-        name: 'search_airbnb',
-        description: 'Search Airbnb listings for given parameters. Must include location. Dates and price help relevance.',
-        parameters: {
-          type: 'object',
-          properties: {
-            location: { type: 'string' },
-            checkin: { type: 'string' },
-            checkout: { type: 'string' },
-            adults: { type: 'number' },
-            children: { type: 'number' },
-            priceMin: { type: 'number' },
-            priceMax: { type: 'number' },
-            page: { type: 'number' }
-          },
-          required: ['location']
-        }
-      }
-    }
+    ...providers.map(provider => ({
+      name: `search_${provider.name}`,
+      description: provider.description,
+      parameters: searchToolParameters(provider)
+    }))
   ]
 
-  if (hasBooking) {
-    tools.push({
-      type: 'function',
-      function: {
-        name: 'search_booking',
-        description: 'Search Booking.com/Google Hotels for given parameters. Must include location.',
-        parameters: {
-          type: 'object',
-          properties: {
-            location: { type: 'string' },
-            checkin: { type: 'string' },
-            checkout: { type: 'string' },
-            adults: { type: 'number' },
-            children: { type: 'number' },
-            priceMin: { type: 'number' },
-            priceMax: { type: 'number' },
-            page: { type: 'number' }
-          },
-          required: ['location']
-        }
-      }
-    })
-  }
-
   const system = [
     'You are a travel search orchestrator. Your job is to call tools, not write prose.',
     '- Always call extract_params first using the user query.',
     '- Validate that a location string exists before calling search tools. If missing, you may still call Airbnb to probe, but prefer returning no more tool calls.',
-    '- If price constraints or dates are present, include them in tool calls.',
-    '- Provider selection: default to Airbnb; if unsure or for broad/urban queries, call both (if Booking available).',
+    '- If price constraints, dates or listing filters (amenities, room counts, rating, superhost) are present, include them in tool calls.',
+    '- Use the checkin/checkout returned by extract_params; do not compute dates yourself.',
+    '- Provider selection: default to Airbnb; if unsure or for broad/urban queries, call every available provider.',
+    '- Only pass parameters a provider supports; its tool schema lists them.',
     '- Never call the same provider more than once per request.',
     '- Keep tool usage to 1–3 calls total. Stop when providers have been called.',
     '- Do not output natural language. Only tool calls are expected.',
-    `Capabilities: booking_available=${hasBooking ? 'true' : 'false'}, page=${page}.`
+    `Providers: ${providers.map(describeCapabilities).join('; ')}. page=${page}.`
   ].join('\n')
 
-  const messages: any[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: system },
     { role: 'user', content: query }
   ]
+  // The trace shares the transcript, so it holds whatever was exchanged even if a turn fails
+  run.trace.llmStarted(llm.provider, llm.model, messages)
 
   const collected: any[] = []
-  const sourceStatus: { platform: string, count: number, status: 'success'|'error'|'timeout', error?: string }[] = []
+  let extracted: ExtractedParams | null = null
+  // Arguments of the first provider call; the constraints to enforce when extract_params was skipped
+  let searchArgs: ListingConstraints | null = null
+  const sourceStatus: ProviderStatus[] = []
+  const next: Record<string, ProviderCursor | null> = {}
+  let totalResults = 0
 
   for (let i = 0; i < 3; i++) {
-    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: { 'Authorization': `Bearer ${openaiKey}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model: 'gpt-4o-mini', temperature: 0.1, max_tokens: 400, messages, tools, tool_choice: 'auto' })
-    })
-    if (!resp.ok) throw new Error(`OpenAI error ${resp.status}`)
-    const data = await resp.json()
-    const msg = data.choices?.[0]?.message
-    if (!msg) break
-    messages.push(msg)
-
-    const toolCalls = msg.tool_calls || []
-    if (!toolCalls.length) break
+    // Providers already called keep their results; without any, the fallback parser takes over
+    if (i > 0 && run.budget && !run.budget.allows(llmCost(llm.model))) {
+      run.budget.degrade('llm_skipped')
+      break
+    }
+    const turnStarted = Date.now()
+    const reply = await llm.complete({ messages, tools })
+    run.trace.llmTurn(reply, Date.now() - turnStarted)
+    run.budget?.record('llm', llmCost(llm.model, reply.usage), llm.model)
+    messages.push({ role: 'assistant', content: reply.content, toolCalls: reply.toolCalls })
+    if (!reply.toolCalls.length) break
 
-    for (const call of toolCalls) {
-      const name = call.function?.name
-      const args = safeJson(call.function?.arguments)
+    for (const call of reply.toolCalls) {
+      const { name } = call
+      const args = safeJson(call.arguments)
+      const callStarted = Date.now()
+      let toolResult: string
 
       if (name === 'extract_params') {
-        const p = extractParams(args.query || query)
-        const toolResult = JSON.stringify(p)
-        messages.push({ role: 'tool', tool_call_id: call.id, content: toolResult })
-      } else if (name === 'search_airbnb') {
-        const { listings, status } = await runProviders({ ...args, page: args.page || page }, ['airbnb'])
-        collected.push(...listings)
-        sourceStatus.push(...status)
-        messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify({ count: listings.length }) })
-      } else if (name === 'search_booking') {
-        const { listings, status } = await runProviders({ ...args, page: args.page || page }, ['booking'])
+        const p = extractParams(args.query || query, extractOptions)
+        extracted = p
+        assertValidStay(p.checkin, p.checkout, extractOptions.timeZone)
+        toolResult = JSON.stringify(p)
+      } else if (name.startsWith('search_') && getProvider(name.slice('search_'.length), run.providerMode)) {
+        const platform = name.slice('search_'.length)
+        searchArgs = searchArgs || args
+        const result = await runProviders({ ...args, page }, run, [platform])
+        const { listings } = result
         collected.push(...listings)
-        sourceStatus.push(...status)
-        messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify({ count: listings.length }) })
+        sourceStatus.push(...result.status)
+        Object.assign(next, result.next)
+        totalResults += result.totalResults
+        toolResult = JSON.stringify({ count: listings.length })
+      } else {
+        // Every tool call needs an answer, or the next turn is rejected
+        toolResult = JSON.stringify({ error: `Unknown tool ${name}` })
       }
+      messages.push({ role: 'tool', toolCallId: call.id, content: toolResult })
+      run.trace.toolCall({ id: call.id, name, arguments: args, durationMs: Date.now() - callStarted, result: toolResult })
     }
   }
 
-  const unique = dedupeAndSort(collected)
-  return { listings: unique, sources: sourceStatus }
+  // Deduped and ranked once by the handler, together with the requested sort
+  return { listings: collected, sources: sourceStatus, extracted, searchArgs, next, totalResults }
 }
 
 function safeJson(str: any) {
   try { return JSON.parse(str || '{}') } catch { return {} }
 }
 
-async function runProviders(providerParams: any, which: ('airbnb'|'booking')[] = ['airbnb','booking']) {
-  const withTimeout = <T>(p: Promise<T>, ms = 10000): Promise<T> => {
-    return new Promise((resolve, reject) => {
-      const t = setTimeout(() => reject(new Error('timeout')), ms)
-      p.then(v => { clearTimeout(t); resolve(v) }).catch(e => { clearTimeout(t); reject(e) })
+// Tool schema for a provider, limited to the parameters it declares support for
+function searchToolParameters(provider: SearchProvider) {
+  const { capabilities } = provider
+  const properties: Record<string, unknown> = {
+    location: { type: 'string' },
+    adults: { type: 'number' },
+    children: { type: 'number' },
+  }
+  if (capabilities.dates) {
+    properties.checkin = { type: 'string' }
+    properties.checkout = { type: 'string' }
+  }
+  if (capabilities.priceFilter) {
+    properties.priceMin = { type: 'number' }
+    properties.priceMax = { type: 'number' }
+  }
+  if (capabilities.amenities) {
+    Object.assign(properties, {
+      amenities: { type: 'array', items: { type: 'string' }, description: 'Canonical amenity names, e.g. "Hot Tub", "Pet Friendly"' },
+      propertyType: { type: 'string', description: 'e.g. cabin, villa, apartment' },
+      roomType: { type: 'string', enum: ['entire_home', 'private_room', 'shared_room', 'hotel_room'] },
+      minBedrooms: { type: 'number' },
+      minBathrooms: { type: 'number' },
+      minBeds: { type: 'number' },
+      minRating: { type: 'number', description: 'Minimum rating on a 5-point scale' },
+      superhost: { type: 'boolean' }
     })
   }
+  return { type: 'object', properties, required: ['location'] }
+}
 
-  const tasks: Promise<any>[] = []
-  const platforms: ('airbnb'|'booking')[] = []
-  if (which.includes('airbnb')) {
-    if (process.env.PYBNB_URL) {
-      tasks.push(withTimeout(searchAirbnbPybnb(providerParams), 15000))
-    } else {
-      tasks.push(withTimeout(searchAirbnb(providerParams), 12000))
+function describeCapabilities(provider: SearchProvider) {
+  const supported = Object.entries(provider.capabilities).filter(([, v]) => v).map(([k]) => k)
+  return `${provider.name}(${supported.join(',') || 'location only'})`
+}
+
+// Paging states that ask the providers the first page searched for their first page again
+function firstPageStates(next: Record<string, ProviderCursor | null>): Record<string, ProviderCursor | null> {
+  return Object.fromEntries(Object.keys(next).map(platform => [platform, {}]))
+}
+
+// `states` is the previous page's per-provider paging state: only providers listed there are queried,
+// and those marked null (exhausted) are reported without a request
+async function runProviders(
+  providerParams: any,
+  run: SearchRun,
+  which?: string[],
+  states?: Record<string, ProviderCursor | null>
+) {
+  const { emit } = run
+  // Prices are normalized as each provider answers, so streamed listings already compare
+  const currency = run.currency || API_CONFIG.PRICING.DEFAULT_CURRENCY
+  const pricing = { currency, nights: stayNights(providerParams.checkin, providerParams.checkout) }
+
+  // Paid calls inside a provider are recorded on the search's ledger
+  const { budget } = run
+  const searchProvider = (provider: SearchProvider, params: ProviderParams) =>
+    budget ? withCostLedger(budget, () => provider.search(params)) : provider.search(params)
+
+  // Fixture replay and recording always go to the provider, never to the cache
+  const live = (run.providerMode || fixtureMode()) === 'live'
+  const selected = getEnabledProviders(run.providerMode)
+    .filter(p => !which || which.includes(p.name))
+    .filter(p => !states || p.name in states)
+
+  // Each provider reports as soon as it settles, so streaming clients are not held back by the slowest one
+  const settled = await Promise.all(selected.map(async provider => {
+    const platform = provider.name
+    const state = states?.[platform]
+    if (state === null) {
+      const exhausted: ProviderStatus = { platform, count: 0, status: 'success', exhausted: true }
+      return { listings: [], status: exhausted, next: null, total: 0 }
     }
-    platforms.push('airbnb')
-  }
-  if (which.includes('booking')) { tasks.push(withTimeout(searchBooking(providerParams), 12000)); platforms.push('booking') }
-
-  const settled = await Promise.allSettled(tasks)
-  const listings: any[] = []
-  const status: { platform: string, count: number, status: 'success'|'error'|'timeout', error?: string }[] = []
-
-  settled.forEach((r, idx) => {
-    const platform = platforms[idx]
-    if (r.status === 'fulfilled') {
-      const arr = Array.isArray(r.value) ? r.value : []
-      listings.push(...arr)
-      status.push({ platform, count: arr.length, status: 'success' })
-    } else {
-      const err = r.reason instanceof Error ? r.reason.message : String(r.reason)
-      status.push({ platform, count: 0, status: err === 'timeout' ? 'timeout' : 'error', error: err })
+
+    emit?.({ type: 'provider_start', platform })
+    let result: ProviderStatus
+    let arr: unknown[] = []
+    // A provider that fails is dropped from later pages rather than retried from the same state
+    let next: ProviderCursor | null = null
+    let total = 0
+    const params = { ...providerParams, cursor: state }
+    const cacheable = live && providerCacheEnabled(platform)
+    // Retries and the circuit breaker guard live calls only; fixtures answer the same way every time
+    const circuit = live ? providerCircuit(platform) : null
+    let attempts = 0
+    const started = Date.now()
+    try {
+      const cached = cacheable ? await readProviderCache(platform, params) : null
+      if (!cached && circuit && !circuit.allowRequest()) {
+        const retryAt = new Date(circuit.retryAt() || Date.now()).toISOString()
+        result = { platform, count: 0, status: 'skipped', reason: 'circuit_open', error: `Skipped after repeated failures; next try after ${retryAt}` }
+      } else {
+        const page = cached || (circuit
+          ? await withRetries(timeoutMs => withTimeout(searchProvider(provider, params), timeoutMs), provider.timeoutMs, n => { attempts = n })
+          : await withTimeout(searchProvider(provider, params), provider.timeoutMs))
+        if (!cached) circuit?.recordSuccess()
+        if (cacheable && !cached) await writeProviderCache(platform, params, page)
+        // Cached pages hold what the provider sent, so one entry serves every currency
+        arr = normalizeListingPrices(page.listings, pricing)
+        next = page.cursor
+        total = page.totalResults ?? arr.length
+        result = {
+          platform,
+          count: arr.length,
+          status: 'success',
+          exhausted: next === null,
+          cache: cacheable ? (cached ? 'hit' : 'miss') : 'bypass',
+          attempts: cached ? undefined : attempts || 1
+        }
+      }
+    } catch (e) {
+      const err = e instanceof Error ? e.message : String(e)
+      if (e instanceof OverBudgetError) {
+        // Not the provider's fault: its circuit is left alone and the next page asks it again from the same state
+        result = { platform, count: 0, status: 'skipped', reason: 'over_budget', error: err }
+        next = state ?? {}
+      } else {
+        circuit?.recordFailure(err)
+        result = {
+          platform,
+          count: 0,
+          status: err === 'timeout' ? 'timeout' : 'error',
+          error: err,
+          cache: cacheable ? 'miss' : 'bypass',
+          attempts: attempts || 1
+        }
+      }
     }
-  })
+    const durationMs = Date.now() - started
+    run.trace.providerCall({ ...result, params, durationMs })
+    recordProviderMetrics(result, durationMs)
+    // Streamed listings go through the same constraints as the final response, so none disappear at the end
+    emit?.({ type: 'provider', ...result, listings: applyConstraints(arr as FilterableListing[], convertPriceLimits(providerParams, currency)).listings })
+    return { listings: arr, status: result, next, total }
+  }))
 
-  return { listings, status }
+  // Combine in registry order regardless of which provider finished first, so merging and ties are deterministic
+  const listings = settled.flatMap(r => r.listings)
+  const status = settled.map(r => r.status)
+  const next: Record<string, ProviderCursor | null> = {}
+  settled.forEach((r, i) => { next[selected[i].name] = r.next })
+  const totalResults = settled.reduce((sum, r) => sum + r.total, 0)
+  return { listings, status, next, totalResults }
 }
 
-function dedupeAndSort(listings: any[]) {
+function recordProviderMetrics(result: ProviderStatus, durationMs: number) {
+  const provider = result.platform
+  metrics.providerRequests.inc({ provider, status: result.status })
+  if (result.cache === 'hit' || result.cache === 'miss') metrics.providerCache.inc({ provider, result: result.cache })
+  // Latency of the provider itself: cache hits and skipped calls would drag it down
+  if (result.status !== 'skipped' && result.cache !== 'hit') {
+    metrics.providerDuration.observe({ provider, status: result.status }, durationMs / 1000)
+  }
+  if (result.attempts && result.attempts > 1) metrics.providerRetries.inc({ provider }, result.attempts - 1)
+}
+
+function dedupeAndSort(listings: any[], sortMode: SortMode = 'relevance', origin?: Coordinates) {
   const seen = new Set<string>()
   const unique = listings.filter(l => {
     const key = l.url || l.id
@@ -249,11 +591,21 @@ function dedupeAndSort(listings: any[]) {
     seen.add(key)
     return true
   })
-  unique.sort((a, b) => {
-    const tA = a.trustScore || 0, tB = b.trustScore || 0
-    if (tA !== tB) return tB - tA
-    if ((a.rating || 0) !== (b.rating || 0)) return (b.rating || 0) - (a.rating || 0)
-    return (a.price?.rate || 0) - (b.price?.rate || 0)
-  })
-  return unique
+  // The same property listed on several platforms becomes one listing with an `offers` entry per platform
+  const merged = mergeCrossPlatformDuplicates(unique)
+  return sortListings(merged, sortMode, origin)
+}
+
+// The searched point for distance ranking: the geocoded location, else the middle of the results
+async function searchOrigin(location: string | null | undefined, listings: any[], run: SearchRun): Promise<Coordinates | undefined> {
+  // Replayed searches stay offline
+  if (location && (run.providerMode || fixtureMode()) !== 'replay') {
+    try {
+      const geocoded = await withTimeout(geocodingService.geocode(location), ORIGIN_GEOCODE_TIMEOUT_MS)
+      if (geocoded) return geocoded.coordinates
+    } catch (error) {
+      log.warn('Geocoding search origin failed', { error })
+    }
+  }
+  return centroid(listings)
 }
@@ -1,4 +1,8 @@
 // Comprehensive geocoding service with multiple providers and disambiguation
+import { logger } from '../observability/logger'
+import { metrics } from '../observability/metrics'
+
+const log = logger.child({ component: 'geocoding' })
 
 interface GeocodeResult {
   location: string
@@ -72,7 +76,8 @@ export class GeocodingService {
     // Enhanced cache validation with expiry and hit tracking
     if (cached && this.isCacheValid(cached)) {
       cached.hitCount++
-      console.log(`🗺️ Cache HIT for "${query}" (${cached.hitCount} uses, saved ~200ms)`)
+      metrics.geocodingRequests.inc({ result: 'cache_hit' })
+      log.debug('Geocoding cache hit', { query, uses: cached.hitCount })
       return cached.result
     }
     
@@ -81,13 +86,13 @@ export class GeocodingService {
       this.cleanExpiredEntries()
     }
 
-    console.log(`🔍 Geocoding location: "${query}"`)
+    log.info('Geocoding location', { query })
     
     // Check for proximity queries first (e.g., "near Disney World")
     const extractedLandmark = this.extractLandmarkFromProximityQuery(query)
     const searchQuery = extractedLandmark || query
     
-    console.log(extractedLandmark ? `🎯 Extracted landmark: "${extractedLandmark}"` : `📍 Direct location search`)
+    if (extractedLandmark) log.debug('Extracted landmark', { landmark: extractedLandmark })
     
     // Preprocess query for better matching
     const processedQuery = this.preprocessQuery(searchQuery)
@@ -96,7 +101,8 @@ export class GeocodingService {
     const results = await this.tryMultipleProviders(processedQuery, options)
     
     if (results.length === 0) {
-      console.log(`❌ All geocoding providers failed for: ${query}`)
+      metrics.geocodingRequests.inc({ result: 'not_found' })
+      log.warn('All geocoding providers failed', { query })
       return null
     }
     
@@ -108,7 +114,8 @@ export class GeocodingService {
       bestResult.alternatives = this.mergeAlternatives(results, bestResult)
     }
     
-    console.log(`✅ Selected best result: ${bestResult.displayName} (confidence: ${bestResult.confidence}, provider: ${bestResult.providers.join(',')})`)
+    metrics.geocodingRequests.inc({ result: 'resolved' })
+    log.info('Selected geocoding result', { result: bestResult.displayName, confidence: bestResult.confidence, providers: bestResult.providers })
     
     // Enhanced caching with metadata
     const cacheEntry: CachedGeocodeEntry = {
@@ -117,7 +124,7 @@ export class GeocodingService {
       hitCount: 0
     }
     this.cache.set(cacheKey, cacheEntry)
-    console.log(`💾 Cached result for future use (cache size: ${this.cache.size})`)
+    metrics.geocodingCacheEntries.set({}, this.cache.size)
     
     return bestResult
   }
@@ -135,14 +142,13 @@ export class GeocodingService {
     
     // Step 1: Try Google first (best accuracy)
     try {
-      console.log(`🌐 Trying Google for primary result...`)
       const googleResult = await this.geocodeWithGoogle(query, options)
       if (googleResult && googleResult.confidence > 0.5) {
-        console.log(`✅ Google successful: ${googleResult.displayName}`)
+        log.debug('Google result', { result: googleResult.displayName })
         results.push(googleResult)
       }
     } catch (error) {
-      console.warn(`⚠️ Google failed:`, error instanceof Error ? error.message : error)
+      log.warn('Geocoding provider failed', { provider: 'google', error: error instanceof Error ? error.message : error })
     }
     
     // Step 2: Always try other providers for alternatives (disambiguation)
@@ -153,10 +159,9 @@ export class GeocodingService {
     
     for (const provider of alternativeProviders) {
       try {
-        console.log(`📍 Trying ${provider.name} for alternatives...`)
         const result = await provider.handler(query, { ...options, maxResults: 3 })
         if (result && result.confidence > 0.4) { // Lower threshold for alternatives
-          console.log(`✅ ${provider.name} alternative: ${result.displayName}`)
+          log.debug('Alternative geocoding result', { provider: provider.name, result: result.displayName })
           
           // Only add if it's meaningfully different from existing results
           const isDifferent = results.every(existing => 
@@ -168,17 +173,17 @@ export class GeocodingService {
           if (isDifferent) {
             results.push(result)
           } else {
-            console.log(`   📍 ${provider.name} result too similar to existing, skipping`)
+            log.debug('Alternative too similar to existing results, skipping', { provider: provider.name })
           }
         }
       } catch (error) {
-        console.warn(`⚠️ ${provider.name} failed:`, error instanceof Error ? error.message : error)
+        log.warn('Geocoding provider failed', { provider: provider.name, error: error instanceof Error ? error.message : error })
       }
     }
     
     // Step 3: If Google failed completely, use best alternative as primary
     if (results.length === 0) {
-      console.log(`🔄 Google failed, trying fallback strategy...`)
+      log.info('No primary geocoding result, trying fallbacks')
       
       // Try in order of preference for fallback
       const fallbackOrder = [
@@ -188,20 +193,19 @@ export class GeocodingService {
       
       for (const provider of fallbackOrder) {
         try {
-          console.log(`📍 Fallback to ${provider.name}...`)
           const result = await provider.handler(query, options)
           if (result && result.confidence > 0.5) {
-            console.log(`✅ ${provider.name} fallback successful: ${result.displayName}`)
+            log.debug('Fallback geocoding result', { provider: provider.name, result: result.displayName })
             results.push(result)
             break // Use first successful fallback as primary
           }
         } catch (error) {
-          console.warn(`⚠️ ${provider.name} fallback failed:`, error instanceof Error ? error.message : error)
+          log.warn('Geocoding fallback failed', { provider: provider.name, error: error instanceof Error ? error.message : error })
         }
       }
     }
     
-    console.log(`📊 Final results: ${results.length} from providers: ${results.map(r => r.providers.join(',')).join(', ')}`)
+    log.debug('Geocoding provider results', { count: results.length, providers: results.map(r => r.providers.join(',')) })
     return results
   }
 
@@ -297,12 +301,10 @@ export class GeocodingService {
   ): Promise<GeocodeResult | null> {
     const apiKey = process.env.MAPBOX_ACCESS_TOKEN
     if (!apiKey) {
-      console.log('⚠️ MAPBOX_ACCESS_TOKEN not found in environment variables')
-      console.log('Available env vars:', Object.keys(process.env).filter(key => key.toLowerCase().includes('map')))
+      log.debug('MAPBOX_ACCESS_TOKEN is not set')
       throw new Error('Mapbox API key not configured')
     }
     
-    console.log('✅ Using Mapbox for geocoding with configured API key')
 
     const params = new URLSearchParams({
       q: query,
@@ -402,7 +404,7 @@ export class GeocodingService {
       
       if (preferredCountryResult) {
         bestResult = preferredCountryResult
-        console.log(`🌍 Found preferred country match: ${bestResult.display_name}`)
+        log.debug('Found preferred country match', { result: bestResult.display_name })
       }
     }
 
@@ -773,7 +775,7 @@ export class GeocodingService {
     const isExpired = age > this.cacheExpiry
     
     if (isExpired) {
-      console.log(`⏰ Cache entry expired (${Math.round(age / (24 * 60 * 60 * 1000))} days old)`)
+      log.debug('Geocoding cache entry expired', { ageDays: Math.round(age / (24 * 60 * 60 * 1000)) })
       return false
     }
     
@@ -809,7 +811,8 @@ export class GeocodingService {
       }
     }
     
-    console.log(`🧹 Cache cleanup: removed ${removedCount} entries (${expiredCount} expired), size now: ${this.cache.size}`)
+    metrics.geocodingCacheEntries.set({}, this.cache.size)
+    log.debug('Geocoding cache cleanup', { removed: removedCount, expired: expiredCount, size: this.cache.size })
   }
 
   /**
@@ -1,5 +1,9 @@
 // Lightweight NL parameter extraction for travel searches
 import nlp from 'compromise'
+import { parseDates } from './parse-dates'
+import { parseFilters, type RoomType } from './parse-filters'
+import { parseSort } from './parse-sort'
+import type { SortMode } from '../utils/sort-listings'
 
 export interface ExtractedParams {
   location: string | null
@@ -9,13 +13,40 @@ export interface ExtractedParams {
   checkout?: string
   priceMin?: number
   priceMax?: number
+  nights?: number
+  // Whether checkin/checkout were written out in the query or resolved from relative phrases
+  dateSource?: 'stated' | 'inferred'
+  amenities?: string[]
+  propertyType?: string
+  roomType?: RoomType
+  minBedrooms?: number
+  minBathrooms?: number
+  minBeds?: number
+  minRating?: number
+  superhost?: boolean
+  // Ranking asked for in the query ("cheapest first")
+  sort?: SortMode
 }
 
-export function extractParams(query: string): ExtractedParams {
-  const text = query.trim()
-  const lower = text.toLowerCase()
+export interface ExtractOptions {
+  // "Today" for relative dates; defaults to now
+  referenceDate?: Date
+  // IANA timezone of the user, e.g. "America/Los_Angeles"; defaults to UTC
+  timeZone?: string
+}
+
+export function extractParams(query: string, options: ExtractOptions = {}): ExtractedParams {
   const out: ExtractedParams = { location: null }
 
+  // Dates first, so phrases like "next weekend" are not mistaken for part of the location or price
+  const dates = parseDates(query.trim(), options)
+  // Ranking phrases next, before "top rated first" could be read as a rating filter
+  const ranking = parseSort(dates.remainder)
+  // Same for listing attributes ("in Tahoe 3BR hot tub")
+  const filters = parseFilters(ranking.remainder)
+  const text = filters.remainder
+  const lower = text.toLowerCase()
+
   // Location: simple preposition-based extraction
   const locMatch = text.match(/\b(?:in|near|at)\s+([^,]+?)(?:\s+(?:for|with|under|over|between)|[,.!?]|$)/i)
   if (locMatch) {
@@ -44,11 +75,23 @@ export function extractParams(query: string): ExtractedParams {
     out.priceMax = parseInt(between[2])
   }
 
-  // Dates: very naive parsing (YYYY-MM-DD present)
-  const dateRegex = /(\d{4}-\d{2}-\d{2})/g
-  const dates = Array.from(text.matchAll(dateRegex)).map(m => m[1])
-  if (dates.length >= 1) out.checkin = dates[0]
-  if (dates.length >= 2) out.checkout = dates[1]
+  // Dates: absolute, relative and holiday expressions plus night counts
+  if (dates.checkin) out.checkin = dates.checkin
+  if (dates.checkout) out.checkout = dates.checkout
+  if (dates.nights) out.nights = dates.nights
+  if (dates.source) out.dateSource = dates.source
+
+  // Listing attributes: amenities, property/room type, room counts, rating, superhost
+  if (filters.amenities.length) out.amenities = filters.amenities
+  if (filters.propertyType) out.propertyType = filters.propertyType
+  if (filters.roomType) out.roomType = filters.roomType
+  if (filters.minBedrooms) out.minBedrooms = filters.minBedrooms
+  if (filters.minBathrooms) out.minBathrooms = filters.minBathrooms
+  if (filters.minBeds) out.minBeds = filters.minBeds
+  if (filters.minRating) out.minRating = filters.minRating
+  if (filters.superhost) out.superhost = true
+
+  if (ranking.sort) out.sort = ranking.sort
 
   return out
 }
@@ -0,0 +1,360 @@
+// Natural-language date parsing for travel queries
+// Resolves absolute ("Dec 20-27", "2025-07-03"), relative ("next weekend", "starting Friday")
+// and holiday ("July 4th weekend", "Labor Day weekend") expressions plus night counts
+// into ISO check-in/check-out dates against a reference date in the user's timezone.
+
+export interface DateParseOptions {
+  referenceDate?: Date
+  timeZone?: string
+}
+
+export interface ParsedDates {
+  checkin?: string
+  checkout?: string
+  nights?: number
+  // 'stated' when the calendar dates appear literally in the query, 'inferred' when resolved from relative phrases
+  source?: 'stated' | 'inferred'
+  // Query with every consumed date phrase replaced by a comma, so location parsing does not swallow it
+  remainder: string
+}
+
+interface DateSpan {
+  start: Date
+  end?: Date
+  stated: boolean
+}
+
+interface RawMatch {
+  index: number
+  groups: string[]
+  resolve: (groups: string[], anchor: Date, isFollowUp: boolean) => DateSpan | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+const WEEKDAY = '(monday|tuesday|wednesday|thursday|friday|saturday|sunday)'
+const WEEKDAY_SHORT = '(mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)'
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?'
+const YEAR = '(?:,?\\s*(\\d{4}))?'
+const RANGE_SEP = '\\s*(?:-|–|—|to|through|thru|until|till)\\s*'
+// Optional lead-in words that belong to the date phrase ("from Dec 20", "starting Friday")
+const LEAD = '(?:\\b(?:from|starting|arriving|leaving|departing|checking in|check-in|on|for|over|during)\\s+(?:on\\s+)?)?'
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14
+}
+const COUNT = '(\\d{1,2}|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen)'
+
+// Patterns are tried in priority order; each consumed span is masked so later patterns cannot re-match it
+const PATTERNS: { regex: RegExp, resolve: RawMatch['resolve'] }[] = [
+  {
+    // 2025-12-20
+    regex: new RegExp(`${LEAD}\\b(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'gi'),
+    resolve: ([y, m, d]) => {
+      const date = makeDate(parseInt(y), parseInt(m) - 1, parseInt(d))
+      return date ? { start: date, stated: true } : null
+    }
+  },
+  {
+    // Dec 20-27, December 28 to January 3, Dec 20 - 27, 2025
+    regex: new RegExp(`${LEAD}\\b${MONTH}\\.?\\s+${DAY}${YEAR}${RANGE_SEP}(?:${MONTH}\\.?\\s+)?${DAY}${YEAR}\\b`, 'gi'),
+    resolve: ([m1, d1, y1, m2, d2, y2], anchor) => {
+      return resolveRange(monthIndex(m1), parseInt(d1), y1, m2 ? monthIndex(m2) : undefined, parseInt(d2), y2, anchor)
+    }
+  },
+  {
+    // 20-27 December
+    regex: new RegExp(`${LEAD}\\b${DAY}${RANGE_SEP}${DAY}\\s+(?:of\\s+)?${MONTH}\\b${YEAR}`, 'gi'),
+    resolve: ([d1, d2, m, y], anchor) => resolveRange(monthIndex(m), parseInt(d1), y, undefined, parseInt(d2), y, anchor)
+  },
+  {
+    // 12/20-12/27, 12/20/2025 to 12/27/2025 (US month/day order)
+    regex: new RegExp(`${LEAD}\\b(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{2,4}))?${RANGE_SEP}(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{2,4}))?\\b`, 'gi'),
+    resolve: ([m1, d1, y1, m2, d2, y2], anchor) => {
+      return resolveRange(parseInt(m1) - 1, parseInt(d1), normalizeYear(y1), parseInt(m2) - 1, parseInt(d2), normalizeYear(y2), anchor)
+    }
+  },
+  {
+    // Friday to Sunday, next fri-mon
+    regex: new RegExp(`${LEAD}\\b(?:(this|next|coming)\\s+)?${WEEKDAY_SHORT}${RANGE_SEP}${WEEKDAY_SHORT}\\b`, 'gi'),
+    resolve: ([modifier, from, to], anchor, isFollowUp) => {
+      const start = nextWeekday(anchor, weekdayIndex(from), isFollowUp || modifier?.toLowerCase() === 'next')
+      return { start, end: nextWeekday(start, weekdayIndex(to), true), stated: false }
+    }
+  },
+  {
+    // Labor Day weekend, Thanksgiving, 4th of July
+    regex: new RegExp(`${LEAD}\\b(memorial day|labor day|thanksgiving|christmas(?: eve)?|new year'?s(?: eve| day)?|independence day|(?:4th|fourth) of july)(?:\\s+(?:weekend|week))?\\b`, 'gi'),
+    resolve: ([name], anchor) => {
+      const holiday = (year: number) => holidayDate(name.toLowerCase(), year)
+      let span = weekendAround(holiday(anchor.getUTCFullYear()))
+      if (span.end! < anchor) span = weekendAround(holiday(anchor.getUTCFullYear() + 1))
+      return { ...span, stated: false }
+    }
+  },
+  {
+    // Dec 20, July 4th weekend, March 3, 2026
+    regex: new RegExp(`${LEAD}\\b${MONTH}\\.?\\s+${DAY}${YEAR}(\\s+weekend)?\\b`, 'gi'),
+    resolve: ([m, d, y, weekend], anchor) => resolveSingle(monthIndex(m), parseInt(d), y, !!weekend, anchor)
+  },
+  {
+    // 20 December, 4th of July weekend
+    regex: new RegExp(`${LEAD}\\b${DAY}\\s+(?:of\\s+)?${MONTH}\\b${YEAR}(\\s+weekend)?`, 'gi'),
+    resolve: ([d, m, y, weekend], anchor) => resolveSingle(monthIndex(m), parseInt(d), y, !!weekend, anchor)
+  },
+  {
+    // this weekend, next weekend, the weekend
+    regex: new RegExp(`${LEAD}\\b(?:(this|next|the)\\s+)?(?:coming\\s+)?weekend\\b`, 'gi'),
+    resolve: ([modifier], anchor) => {
+      const dow = anchor.getUTCDay()
+      const friday = dow === 6 ? addDays(anchor, -1) : dow === 0 ? addDays(anchor, -2) : addDays(anchor, (5 - dow + 7) % 7)
+      if (modifier?.toLowerCase() === 'next') {
+        return { start: addDays(friday, 7), end: addDays(friday, 9), stated: false }
+      }
+      // A weekend already in progress starts today rather than in the past
+      const start = friday < anchor ? anchor : friday
+      const end = dow === 0 ? addDays(anchor, 1) : addDays(friday, 2)
+      return { start, end, stated: false }
+    }
+  },
+  {
+    // today, tonight, tomorrow
+    regex: new RegExp(`${LEAD}\\b(today|tonight|tomorrow)\\b`, 'gi'),
+    resolve: ([word], anchor) => ({ start: word.toLowerCase() === 'tomorrow' ? addDays(anchor, 1) : anchor, stated: false })
+  },
+  {
+    // in 3 days, in two weeks
+    regex: new RegExp(`\\bin\\s+${COUNT}\\s+(days?|weeks?)\\b`, 'gi'),
+    resolve: ([count, unit], anchor) => {
+      const n = parseCount(count)
+      return { start: addDays(anchor, unit.toLowerCase().startsWith('week') ? n * 7 : n), stated: false }
+    }
+  },
+  {
+    // next week, this week
+    regex: new RegExp(`${LEAD}\\b(next|this)\\s+week\\b`, 'gi'),
+    resolve: ([modifier], anchor) => {
+      if (modifier.toLowerCase() === 'this') return { start: anchor, stated: false }
+      const dow = anchor.getUTCDay()
+      return { start: addDays(anchor, ((8 - dow) % 7) || 7), stated: false }
+    }
+  },
+  {
+    // starting Friday, next Saturday, leaving Sunday
+    regex: new RegExp(`${LEAD}\\b(?:(this|next|coming)\\s+)?${WEEKDAY}\\b`, 'gi'),
+    resolve: ([modifier, day], anchor, isFollowUp) => {
+      return { start: nextWeekday(anchor, weekdayIndex(day), isFollowUp || modifier?.toLowerCase() === 'next'), stated: false }
+    }
+  }
+]
+
+const NIGHTS_PATTERNS: { regex: RegExp, nights: (groups: string[]) => number }[] = [
+  // 5 nights, a 3-night stay, for two nights
+  { regex: new RegExp(`(?:\\bfor\\s+)?\\b${COUNT}\\s*-?\\s*nights?\\b`, 'gi'), nights: ([count]) => parseCount(count) },
+  // for a week, 2 weeks
+  { regex: new RegExp(`(?:\\bfor\\s+)?\\b${COUNT}\\s*-?\\s*weeks?\\b`, 'gi'), nights: ([count]) => parseCount(count) * 7 },
+  // a week-long stay
+  { regex: /\bweek-?long\b/gi, nights: () => 7 }
+]
+
+export function parseDates(text: string, options: DateParseOptions = {}): ParsedDates {
+  const today = todayIn(options.referenceDate || new Date(), options.timeZone)
+  let masked = text
+  const raw: RawMatch[] = []
+
+  for (const pattern of PATTERNS) {
+    masked = masked.replace(pattern.regex, (match: string, ...args: unknown[]) => {
+      // replace() passes capture groups, then the offset, then the whole string
+      const offset = args[args.length - 2] as number
+      const groups = args.slice(0, -2) as string[]
+      raw.push({ index: offset, groups, resolve: pattern.resolve })
+      return mask(match)
+    })
+  }
+
+  let nights: number | undefined
+  for (const pattern of NIGHTS_PATTERNS) {
+    masked = masked.replace(pattern.regex, (match: string, ...args: unknown[]) => {
+      if (nights === undefined) {
+        const n = pattern.nights(args.slice(0, -2) as string[])
+        if (n > 0 && n <= 90) nights = n
+      }
+      return mask(match)
+    })
+  }
+
+  // Resolve in reading order so a second phrase ("leaving Sunday") is anchored on the check-in
+  raw.sort((a, b) => a.index - b.index)
+  let checkin: Date | undefined
+  let checkout: Date | undefined
+  let stated = true
+
+  for (const match of raw) {
+    const span = match.resolve(match.groups, checkin || today, !!checkin)
+    if (!span) continue
+    if (!checkin) {
+      checkin = span.start
+      checkout = span.end
+      stated = stated && span.stated
+    } else if (!checkout && span.start > checkin) {
+      checkout = span.start
+      stated = stated && span.stated
+    }
+  }
+
+  const out: ParsedDates = { remainder: masked.replace(/\uE000+/g, ',') }
+  if (checkin && !checkout && nights) checkout = addDays(checkin, nights)
+  if (checkin && checkout && !nights) nights = Math.round((checkout.getTime() - checkin.getTime()) / DAY_MS)
+
+  if (checkin) {
+    out.checkin = formatDate(checkin)
+    out.source = stated ? 'stated' : 'inferred'
+  }
+  if (checkout) out.checkout = formatDate(checkout)
+  if (nights) out.nights = nights
+  return out
+}
+
+// Today as YYYY-MM-DD in the user's timezone, the earliest check-in a search accepts
+export function todayDate(timeZone?: string, reference: Date = new Date()): string {
+  return formatDate(todayIn(reference, timeZone))
+}
+
+function resolveRange(
+  m1: number, d1: number, y1: string | number | undefined,
+  m2: number | undefined, d2: number, y2: string | number | undefined,
+  anchor: Date
+): DateSpan | null {
+  const start = y1 !== undefined
+    ? makeDate(Number(y1), m1, d1)
+    : resolveMonthDay(m1, d1, anchor)
+  if (!start) return null
+
+  const endMonth = m2 ?? m1
+  let endYear = y2 !== undefined ? Number(y2) : start.getUTCFullYear()
+  let end = makeDate(endYear, endMonth, d2)
+  if (end && end <= start && y2 === undefined) {
+    // "Dec 28-3" rolls into the next month, "Dec 28 to Jan 3" into the next year
+    if (m2 === undefined) {
+      end = makeDate(endMonth === 11 ? endYear + 1 : endYear, (endMonth + 1) % 12, d2)
+    } else {
+      endYear += 1
+      end = makeDate(endYear, endMonth, d2)
+    }
+  }
+  if (!end || end <= start) return { start, stated: true }
+  return { start, end, stated: true }
+}
+
+function resolveSingle(month: number, day: number, year: string | undefined, weekend: boolean, anchor: Date): DateSpan | null {
+  const date = year ? makeDate(parseInt(year), month, day) : resolveMonthDay(month, day, anchor)
+  if (!date) return null
+  return weekend ? { ...weekendAround(date), stated: false } : { start: date, stated: true }
+}
+
+// Month/day without a year means the next occurrence on or after the anchor
+function resolveMonthDay(month: number, day: number, anchor: Date): Date | null {
+  const sameYear = makeDate(anchor.getUTCFullYear(), month, day)
+  if (!sameYear) return null
+  return sameYear < anchor ? makeDate(anchor.getUTCFullYear() + 1, month, day) : sameYear
+}
+
+// Stay that covers the weekend closest to a date, stretched to include the date itself
+function weekendAround(date: Date): { start: Date, end: Date } {
+  switch (date.getUTCDay()) {
+    case 1: return { start: addDays(date, -3), end: date } // Fri → Mon (holiday Monday)
+    case 2: return { start: addDays(date, -4), end: date } // Fri → Tue
+    case 3: return { start: date, end: addDays(date, 4) } // Wed → Sun
+    case 4: return { start: date, end: addDays(date, 3) } // Thu → Sun
+    case 5: return { start: date, end: addDays(date, 2) } // Fri → Sun
+    case 6: return { start: addDays(date, -1), end: addDays(date, 1) } // Fri → Sun
+    default: return { start: addDays(date, -2), end: addDays(date, 1) } // Fri → Mon (holiday Sunday)
+  }
+}
+
+function holidayDate(name: string, year: number): Date {
+  if (name.startsWith('memorial')) return lastWeekdayOfMonth(year, 4, 1)
+  if (name.startsWith('labor')) return nthWeekdayOfMonth(year, 8, 1, 1)
+  if (name.startsWith('thanksgiving')) return nthWeekdayOfMonth(year, 10, 4, 4)
+  if (name === 'christmas eve') return new Date(Date.UTC(year, 11, 24))
+  if (name.startsWith('christmas')) return new Date(Date.UTC(year, 11, 25))
+  if (name.endsWith('eve')) return new Date(Date.UTC(year, 11, 31))
+  if (name.startsWith('new year')) return new Date(Date.UTC(year, 0, 1))
+  return new Date(Date.UTC(year, 6, 4))
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(Date.UTC(year, month, 1))
+  const offset = (weekday - first.getUTCDay() + 7) % 7
+  return addDays(first, offset + (n - 1) * 7)
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): Date {
+  const last = new Date(Date.UTC(year, month + 1, 0))
+  const offset = (last.getUTCDay() - weekday + 7) % 7
+  return addDays(last, -offset)
+}
+
+function nextWeekday(from: Date, weekday: number, strictlyAfter: boolean): Date {
+  let delta = (weekday - from.getUTCDay() + 7) % 7
+  if (delta === 0 && strictlyAfter) delta = 7
+  return addDays(from, delta)
+}
+
+// Calendar date (UTC midnight) of the reference instant as seen in the given timezone
+function todayIn(reference: Date, timeZone?: string): Date {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric'
+    }).formatToParts(reference)
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0')
+    return new Date(Date.UTC(get('year'), get('month') - 1, get('day')))
+  } catch {
+    // Unknown timezone names fall back to UTC
+    return new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate()))
+  }
+}
+
+function makeDate(year: number, month: number, day: number): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null
+  const date = new Date(Date.UTC(year, month, day))
+  // Reject overflow such as Feb 30
+  return date.getUTCMonth() === month ? date : null
+}
+
+function normalizeYear(year: string | undefined): number | undefined {
+  if (!year) return undefined
+  const n = parseInt(year)
+  return n < 100 ? 2000 + n : n
+}
+
+function monthIndex(name: string): number {
+  return ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(name.slice(0, 3).toLowerCase())
+}
+
+function weekdayIndex(name: string): number {
+  return ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'].indexOf(name.slice(0, 3).toLowerCase())
+}
+
+function parseCount(word: string): number {
+  const lower = word.toLowerCase()
+  return NUMBER_WORDS[lower] ?? parseInt(lower)
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Keep string length stable while marking the span as consumed
+function mask(match: string): string {
+  return '\uE000'.repeat(match.length)
+}
@@ -0,0 +1,149 @@
+// Listing-attribute extraction for travel queries
+// Picks out amenities, property/room type, bedroom/bathroom/bed minimums, rating floors
+// and superhost requirements ("entire cabin with hot tub, 3BR, superhost only").
+
+export type RoomType = 'entire_home' | 'private_room' | 'shared_room' | 'hotel_room'
+export const ROOM_TYPES: RoomType[] = ['entire_home', 'private_room', 'shared_room', 'hotel_room']
+
+export interface ParsedFilters {
+  amenities: string[]
+  propertyType?: string
+  roomType?: RoomType
+  minBedrooms?: number
+  minBathrooms?: number
+  minBeds?: number
+  minRating?: number
+  superhost?: boolean
+  // Query with every consumed phrase replaced by a comma, so location parsing does not swallow it
+  remainder: string
+}
+
+// Canonical amenity names match the labels providers put on AirbnbListing.amenities
+export const AMENITY_SYNONYMS: Record<string, RegExp> = {
+  'Hot Tub': /\b(?:hot\s?tubs?|jacuzzis?|spa tubs?)\b/gi,
+  'Pool': /\b(?:swimming\s+)?pools?\b/gi,
+  'Pet Friendly': /\b(?:pet|dog)[\s-]?friendly\b|\b(?:pets?|dogs?)\s+(?:allowed|ok|welcome)\b|\ballows?\s+(?:pets?|dogs?)\b|\bwith\s+(?:my|our|a|the)\s+(?:dogs?|pets?|cats?)\b/gi,
+  'WiFi': /\b(?:wi-?fi|internet)\b/gi,
+  'Kitchen': /\b(?:full\s+)?kitchen\b/gi,
+  'Parking': /\b(?:free\s+)?parking\b|\bgarage\b/gi,
+  'Air Conditioning': /\b(?:air[\s-]?condition(?:ing|ed)|a\/c|aircon)\b/gi,
+  'Laundry': /\b(?:laundry|washer(?:\s+and\s+dryer)?|dryer)\b/gi,
+  'Fireplace': /\bfire\s?places?\b/gi,
+  'Gym': /\b(?:gym|fitness\s+(?:center|room))\b/gi,
+  'EV Charger': /\b(?:ev|electric vehicle)\s+charg(?:er|ing)\b/gi,
+  'Beachfront': /\b(?:beach\s?front|ocean\s?front|on the beach)\b/gi,
+  'Waterfront': /\b(?:water\s?front|lake\s?front|river\s?front)\b/gi,
+  'Ocean View': /\b(?:ocean|sea)\s+views?\b/gi,
+  'Mountain View': /\bmountain\s+views?\b/gi,
+  'Workspace': /\b(?:dedicated\s+)?workspace\b/gi,
+  'BBQ Grill': /\b(?:bbq|barbecue|grill)\b/gi,
+  'Sauna': /\bsaunas?\b/gi,
+  'Wheelchair Accessible': /\b(?:wheelchair[\s-]accessible|wheelchair)\b/gi,
+  'Crib': /\b(?:crib|pack[\s-]n[\s-]play)\b/gi,
+}
+
+// Listing property types we recognize, mapped to a canonical lowercase value (most specific first)
+const PROPERTY_TYPES: [RegExp, string][] = [
+  [/\btiny\s+(?:house|home)s?\b/i, 'tiny house'],
+  [/\btree\s?houses?\b/i, 'treehouse'],
+  [/\bfarm\s?houses?\b/i, 'farmhouse'],
+  [/\btown\s?(?:house|home)s?\b/i, 'townhouse'],
+  [/\bguest\s?(?:house|suite)s?\b/i, 'guesthouse'],
+  [/\bcabins?\b/i, 'cabin'],
+  [/\bcottages?\b/i, 'cottage'],
+  [/\bchalets?\b/i, 'chalet'],
+  [/\bvillas?\b/i, 'villa'],
+  [/\bcondos?\b/i, 'condo'],
+  [/\blofts?\b/i, 'loft'],
+  [/\bbungalows?\b/i, 'bungalow'],
+  [/\bstudios?\b/i, 'studio'],
+  [/\b(?:apartments?|apts?|flats?)\b/i, 'apartment'],
+  [/\bhouses?\b/i, 'house'],
+  [/\bhotels?\b/i, 'hotel'],
+  [/\b(?:yurts?|domes?)\b/i, 'unique stay'],
+  [/\b(?:boats?|houseboats?)\b/i, 'boat'],
+]
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+}
+const COUNT = '(\\d{1,2}(?:\\.5)?|one|two|three|four|five|six|seven|eight|nine|ten)'
+const AT_LEAST = '(?:\\b(?:at\\s+least|min(?:imum)?(?:\\s+of)?)\\s+)?'
+
+export function parseFilters(text: string): ParsedFilters {
+  let remainder = text
+  const out: ParsedFilters = { amenities: [], remainder }
+
+  const consume = (regex: RegExp, onMatch: (groups: string[]) => void) => {
+    remainder = remainder.replace(regex, (match: string, ...args: unknown[]) => {
+      onMatch(args.slice(0, -2) as string[])
+      return ','
+    })
+  }
+
+  // Room type: "entire cabin" keeps "cabin" for the property type below
+  consume(/\b(?:entire|whole)\s+(?:place|home\/apt|home|unit)\b/gi, () => { out.roomType = 'entire_home' })
+  consume(/\b(?:entire|whole)(?=\s+(?:cabin|cottage|chalet|villa|condo|loft|bungalow|studio|apartment|apt|flat|(?:town|farm|guest|tree|tiny\s)?house)s?\b)/gi, () => { out.roomType = 'entire_home' })
+  // Provider room-type values, as echoed back by refinement chips ("private_room only")
+  consume(/\b(entire_home|private_room|shared_room|hotel_room)\b/gi, ([type]) => { out.roomType = type.toLowerCase() as RoomType })
+  consume(/\bprivate\s+rooms?\b/gi, () => { out.roomType = 'private_room' })
+  consume(/\bshared\s+rooms?\b/gi, () => { out.roomType = 'shared_room' })
+  consume(/\bhotel\s+rooms?\b/gi, () => { out.roomType = 'hotel_room' })
+
+  // Room counts: "3 bedrooms", "3BR", "at least 2 baths", "4+ beds"
+  consume(new RegExp(`${AT_LEAST}\\b${COUNT}\\s*\\+?\\s*-?\\s*(?:br|bdr?|bed\\s?rooms?)\\b`, 'gi'), ([n]) => {
+    out.minBedrooms = Math.max(out.minBedrooms || 0, Math.floor(parseCount(n)))
+  })
+  consume(new RegExp(`${AT_LEAST}\\b${COUNT}\\s*\\+?\\s*-?\\s*(?:ba|baths?|bath\\s?rooms?)\\b`, 'gi'), ([n]) => {
+    out.minBathrooms = Math.max(out.minBathrooms || 0, parseCount(n))
+  })
+  consume(new RegExp(`${AT_LEAST}\\b${COUNT}\\s*\\+?\\s*-?\\s*beds?\\b`, 'gi'), ([n]) => {
+    out.minBeds = Math.max(out.minBeds || 0, Math.floor(parseCount(n)))
+  })
+
+  // Rating floors: "4.5+ stars", "rated 4.8 or higher", "excellent reviews"
+  consume(/\b(?:rated|rating(?:\s+(?:of|above|over))?)\s+([1-5](?:\.\d{1,2})?)\s*\+?\s*(?:stars?)?(?:\s+or\s+(?:higher|more|above|better))?/gi, ([n]) => {
+    out.minRating = parseFloat(n)
+  })
+  consume(/\b([1-5](?:\.\d{1,2})?)\s*\+?\s*stars?(?:\s+or\s+(?:higher|more|above|better))?/gi, ([n]) => {
+    out.minRating = parseFloat(n)
+  })
+  consume(/\b([1-5]\.\d{1,2})\s*(?:\+|or\s+(?:higher|more|above|better))/gi, ([n]) => {
+    out.minRating = parseFloat(n)
+  })
+  consume(/\b(?:excellent|outstanding|exceptional)\s+(?:reviews?|ratings?)\b|\btop[\s-]rated\b/gi, () => {
+    out.minRating = Math.max(out.minRating || 0, 4.8)
+  })
+  consume(/\b(?:highly[\s-]rated|well[\s-]reviewed|great\s+(?:reviews?|ratings?)|good\s+(?:reviews?|ratings?))\b/gi, () => {
+    out.minRating = Math.max(out.minRating || 0, 4.5)
+  })
+
+  consume(/\bsuper\s?-?hosts?(?:\s+only)?\b/gi, () => { out.superhost = true })
+
+  for (const [name, regex] of Object.entries(AMENITY_SYNONYMS)) {
+    consume(regex, () => {
+      if (!out.amenities.includes(name)) out.amenities.push(name)
+    })
+  }
+
+  // Property types are detected but left in place: they show up in place names ("Studio City", "Villa Park")
+  // The first one mentioned wins ("apartment in Studio City")
+  let firstIndex = Infinity
+  for (const [regex, type] of PROPERTY_TYPES) {
+    const match = regex.exec(remainder)
+    if (match && match.index < firstIndex) {
+      firstIndex = match.index
+      out.propertyType = type
+    }
+  }
+  // "hotel" on its own describes the room type providers understand, too
+  if (out.propertyType === 'hotel' && !out.roomType) out.roomType = 'hotel_room'
+
+  out.remainder = remainder
+  return out
+}
+
+function parseCount(word: string): number {
+  const lower = word.toLowerCase()
+  return NUMBER_WORDS[lower] ?? parseFloat(lower)
+}
@@ -0,0 +1,33 @@
+// Ranking preferences in travel queries ("cheapest first", "best value", "closest to downtown first")
+import type { SortMode } from '../utils/sort-listings'
+
+export interface ParsedSort {
+  sort?: SortMode
+  // Query with the consumed phrase replaced by a comma, so location parsing does not swallow it
+  remainder: string
+}
+
+const THINGS = '(?:\\s+(?:ones?|options?|places?|stays?|listings?))?'
+const SORT_BY = '\\b(?:sort(?:ed)?|order(?:ed)?|rank(?:ed)?)\\s+by\\s+'
+
+// Checked in order; the first match wins
+const SORT_PATTERNS: [RegExp, SortMode][] = [
+  [new RegExp(`\\b(?:most\\s+expensive|priciest|highest[\\s-]priced?)${THINGS}\\s+first\\b|${SORT_BY}(?:highest\\s+)?price\\s+(?:high(?:est)?\\s+to\\s+low(?:est)?|descending)\\b|\\bprice\\s+high\\s+to\\s+low\\b`, 'gi'), 'price_desc'],
+  [new RegExp(`\\b(?:cheapest|lowest[\\s-]priced?|least\\s+expensive)${THINGS}\\s+first\\b|${SORT_BY}(?:lowest\\s+)?price(?:\\s+(?:low(?:est)?\\s+to\\s+high(?:est)?|ascending))?\\b|\\bprice\\s+low\\s+to\\s+high\\b|\\bcheapest\\b`, 'gi'), 'price_asc'],
+  [new RegExp(`\\bbest\\s+value(?:\\s+for\\s+(?:the\\s+)?money)?${THINGS}(?:\\s+first)?\\b|\\bvalue\\s+for\\s+money\\b|\\bbang\\s+for\\s+(?:the|my|your|our)\\s+buck\\b|${SORT_BY}value\\b`, 'gi'), 'value'],
+  [new RegExp(`\\b(?:highest|best|top)[\\s-]rated${THINGS}\\s+first\\b|${SORT_BY}(?:ratings?|reviews?|stars)\\b`, 'gi'), 'rating'],
+  [new RegExp(`\\bmost\\s+(?:trusted|trustworthy|reliable)${THINGS}\\s+first\\b|${SORT_BY}trust(?:\\s*score)?\\b`, 'gi'), 'trust'],
+  [new RegExp(`\\b(?:closest|nearest)${THINGS}(?:\\s+to\\s+(?:the\\s+)?(?:center|centre|downtown|city\\s+cent(?:er|re)))?\\s+first\\b|${SORT_BY}(?:distance|proximity)\\b`, 'gi'), 'distance'],
+  [new RegExp(`${SORT_BY}(?:relevance|best\\s+match)\\b`, 'gi'), 'relevance'],
+]
+
+export function parseSort(text: string): ParsedSort {
+  for (const [regex, mode] of SORT_PATTERNS) {
+    if (regex.test(text)) {
+      regex.lastIndex = 0
+      return { sort: mode, remainder: text.replace(regex, ',') }
+    }
+    regex.lastIndex = 0
+  }
+  return { remainder: text }
+}
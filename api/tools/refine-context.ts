@@ -0,0 +1,180 @@
+// Conversational refinement: a follow-up utterance applied to the previous search as a delta
+// "actually make it 4 guests" replaces a value, "with a hot tub" adds an amenity, "drop the price limit" removes one.
+// Whatever the utterance does not mention carries over, so applying the same utterance twice changes nothing.
+// An utterance that names another place on its own ("loft in Chicago") is a new search, not a refinement.
+
+import { extractParams, type ExtractOptions } from './extract-params'
+import { parseFilters, type RoomType } from './parse-filters'
+import type { SortMode } from '../utils/sort-listings'
+
+// Structured state of a search, returned with every response and sent back with the next utterance
+export interface SearchContext {
+  location: string
+  checkin?: string
+  checkout?: string
+  nights?: number
+  adults?: number
+  children?: number
+  priceMin?: number
+  priceMax?: number
+  amenities?: string[]
+  propertyType?: string
+  roomType?: RoomType
+  minBedrooms?: number
+  minBathrooms?: number
+  minBeds?: number
+  minRating?: number
+  superhost?: boolean
+  sort?: SortMode
+}
+
+export type ContextField = keyof SearchContext
+
+export interface ContextChange {
+  field: ContextField
+  action: 'set' | 'add' | 'remove'
+  value?: unknown
+}
+
+export interface Refinement {
+  context: SearchContext
+  changes: ContextChange[]
+}
+
+export const CONTEXT_FIELDS: ContextField[] = [
+  'location', 'checkin', 'checkout', 'nights', 'adults', 'children', 'priceMin', 'priceMax', 'amenities',
+  'propertyType', 'roomType', 'minBedrooms', 'minBathrooms', 'minBeds', 'minRating', 'superhost', 'sort'
+]
+
+// "drop the price limit", "no hot tub", "any dates", "without the superhost filter", "forget the kids"
+const REMOVAL = /\b(?:drop|remove|forget|ignore|clear|lose|skip|no|without|don'?t\s+need|any)\s+(?:the\s+|a\s+|an\s+|my\s+|our\s+)?([a-z0-9$/\- ]+?)(?=\s*(?:[,.;!?]|\band\b|\bbut\b|\bplease\b|$))/gi
+
+// What a removal phrase can name, besides individual amenities
+const REMOVABLE: { pattern: RegExp, fields: Exclude<ContextField, 'location'>[] }[] = [
+  { pattern: /\b(?:price|budget|cost)\b/, fields: ['priceMin', 'priceMax'] },
+  { pattern: /\b(?:dates?|check-?in|check-?out|nights?)\b/, fields: ['checkin', 'checkout', 'nights'] },
+  { pattern: /\b(?:kids|children|child)\b/, fields: ['children'] },
+  { pattern: /\b(?:rating|reviews?|stars?)\b/, fields: ['minRating'] },
+  { pattern: /\bsuper\s?hosts?\b/, fields: ['superhost'] },
+  { pattern: /\bbed\s?rooms?\b/, fields: ['minBedrooms'] },
+  { pattern: /\bbath(?:room)?s?\b/, fields: ['minBathrooms'] },
+  { pattern: /\bbeds\b/, fields: ['minBeds'] },
+  { pattern: /\b(?:property|room|home|place)\s+type\b/, fields: ['propertyType', 'roomType'] },
+  { pattern: /\bamenities\b/, fields: ['amenities'] },
+  { pattern: /\b(?:sort(?:ing)?|order(?:ing)?)\b/, fields: ['sort'] },
+]
+
+// Words that tie a new place to the current search: "in Denver instead", "same dates in Dallas", "switch to Boston"
+const RELOCATION = /\b(?:instead|actually|rather|what\s+about|how\s+about|same|switch(?:ing)?\s+to|change\s+(?:it\s+)?to|move\s+(?:it\s+)?to)\b/i
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/** The context fields of a set of search parameters; null without a location */
+export function toSearchContext(params: Partial<Record<ContextField, unknown>> | null | undefined): SearchContext | null {
+  if (!params || typeof params.location !== 'string' || !params.location) return null
+  const entries = CONTEXT_FIELDS
+    .map(field => [field, params[field]] as const)
+    .filter(([, value]) => value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0))
+  return Object.fromEntries(entries) as unknown as SearchContext
+}
+
+// "Austin, TX" and "austin" are the same place
+function samePlace(a: string, b: string): boolean {
+  const city = (location: string) => location.split(',')[0].trim().toLowerCase()
+  return city(a) === city(b)
+}
+
+/** The previous search changed by the utterance; null when the utterance starts a new search */
+export function refineContext(previous: SearchContext, utterance: string, options: ExtractOptions = {}): Refinement | null {
+  const context: SearchContext = { ...previous, amenities: previous.amenities && [...previous.amenities] }
+  if (!context.amenities) delete context.amenities
+  const changes: ContextChange[] = []
+
+  // Removals first, and masked out, so "no hot tub" is not read as asking for one
+  const removedFields = new Set<Exclude<ContextField, 'location'>>()
+  const removedAmenities = new Set<string>()
+  const remainder = utterance.replace(REMOVAL, (phrase: string, object: string) => {
+    const lower = object.toLowerCase()
+    const amenities = parseFilters(lower).amenities
+    const fields = REMOVABLE.filter(r => r.pattern.test(lower)).flatMap(r => r.fields)
+    // "no more than $200" names nothing removable; leave it for the parser
+    if (!amenities.length && !fields.length) return phrase
+    amenities.forEach(a => removedAmenities.add(a))
+    fields.forEach(f => removedFields.add(f))
+    return ','
+  })
+
+  for (const field of removedFields) {
+    if (context[field] === undefined) continue
+    delete context[field]
+    changes.push({ field, action: 'remove' })
+  }
+  if (context.amenities && removedAmenities.size) {
+    context.amenities.filter(a => removedAmenities.has(a)).forEach(value => changes.push({ field: 'amenities', action: 'remove', value }))
+    context.amenities = context.amenities.filter(a => !removedAmenities.has(a))
+    if (!context.amenities.length) delete context.amenities
+  }
+
+  // Masked like removals, so "in Denver instead" names Denver
+  const stated = extractParams(remainder.replace(new RegExp(RELOCATION.source, 'gi'), ','), options)
+  // Dates, guests and filters of a search somewhere else do not carry over unless the utterance says they should
+  if (stated.location && !samePlace(stated.location, previous.location) && !RELOCATION.test(utterance)) return null
+
+  const set = <K extends ContextField>(field: K, value: SearchContext[K] | undefined) => {
+    if (value === undefined || value === context[field]) return
+    context[field] = value
+    changes.push({ field, action: 'set', value })
+  }
+  const unset = (field: Exclude<ContextField, 'location'>) => {
+    if (context[field] === undefined) return
+    delete context[field]
+    changes.push({ field, action: 'remove' })
+  }
+
+  if (stated.location && !samePlace(stated.location, context.location)) set('location', stated.location)
+
+  // New dates keep the stay length unless the utterance gives a new one; "make it 5 nights" moves the check-out
+  if (stated.checkin) {
+    const nights = stated.nights ?? context.nights
+    const checkout = stated.checkout ?? (nights ? addDays(stated.checkin, nights) : undefined)
+    set('checkin', stated.checkin)
+    if (checkout) {
+      set('checkout', checkout)
+      set('nights', nights)
+    } else {
+      unset('checkout')
+      unset('nights')
+    }
+  } else if (stated.nights) {
+    set('nights', stated.nights)
+    if (context.checkin) set('checkout', addDays(context.checkin, stated.nights))
+  }
+
+  set('adults', stated.adults)
+  set('children', stated.children)
+  set('priceMin', stated.priceMin)
+  set('priceMax', stated.priceMax)
+  // A lower new ceiling ("under $150" after "between $200 and $400") drops the old floor
+  if (context.priceMin !== undefined && context.priceMax !== undefined && context.priceMin > context.priceMax) unset('priceMin')
+  set('propertyType', stated.propertyType)
+  set('roomType', stated.roomType)
+  set('minBedrooms', stated.minBedrooms)
+  set('minBathrooms', stated.minBathrooms)
+  set('minBeds', stated.minBeds)
+  set('minRating', stated.minRating)
+  set('superhost', stated.superhost)
+  set('sort', stated.sort)
+
+  // Amenities accumulate: "with a hot tub" then "and a pool" wants both
+  for (const amenity of stated.amenities || []) {
+    if (context.amenities?.includes(amenity)) continue
+    context.amenities = [...(context.amenities || []), amenity]
+    changes.push({ field: 'amenities', action: 'add', value: amenity })
+  }
+
+  return { context, changes }
+}
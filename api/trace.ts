@@ -0,0 +1,117 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { runSearch } from './search'
+import { withApi } from './middleware'
+import { createMockClient } from './llm/mock'
+import { isSortMode } from './utils/sort-listings'
+import { decodeCursor } from './utils/search-cursor'
+import { ApiError } from './utils/api-error'
+import { currentRequestId, logger, newRequestId } from './observability/logger'
+import {
+  loadTrace,
+  replayScript,
+  saveTrace,
+  tracingEnabled,
+  TraceRecorder,
+  TRACE_VERSION,
+  type SearchTrace
+} from './utils/search-trace'
+
+// Debug endpoint for orchestration traces (only with DEBUG_TRACES=1, and only for callers with an API key)
+//   GET  /api/trace?id=<requestId>   the recorded trace
+//   POST /api/trace { id } | { trace }   replay it: recorded LLM answers against fixture providers
+export default withApi(handler, { methods: ['GET', 'POST'], requireKey: true })
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!tracingEnabled()) return res.status(404).json({ error: 'Tracing is disabled; set DEBUG_TRACES=1' })
+
+  try {
+    if (req.method === 'GET') {
+      const id = typeof req.query?.id === 'string' ? req.query.id : ''
+      if (!id) return res.status(400).json({ error: 'id is required' })
+      const trace = await loadTrace(id)
+      return trace ? res.status(200).json(trace) : res.status(404).json({ error: `No trace for ${id}` })
+    }
+
+    // POST replays; a trace fetched from another deployment can be posted as is
+    const { id, trace: posted } = req.body || {}
+    const original: SearchTrace | null = posted || (typeof id === 'string' ? await loadTrace(id) : null)
+    if (!original) return res.status(404).json({ error: id ? `No trace for ${id}` : 'id or trace is required' })
+    if (original.version !== TRACE_VERSION) {
+      return res.status(400).json({ error: `Trace version ${original.version} cannot be replayed; expected ${TRACE_VERSION}` })
+    }
+
+    const replayed = await replayTrace(original)
+    return res.status(200).json({
+      original: original.requestId,
+      replay: replayed,
+      differences: compareTraces(original, replayed)
+    })
+  } catch (error) {
+    logger.error('Trace endpoint error', { component: 'trace', error })
+    return res.status(500).json({ error: 'Failed to process trace' })
+  }
+}
+
+async function replayTrace(original: SearchTrace): Promise<SearchTrace> {
+  const { input } = original
+  // The replay is stored under the ID of the request that asked for it
+  const recorder = new TraceRecorder(currentRequestId() || newRequestId(), input, original.requestId)
+
+  // The recorded answers in order; a run that failed mid-way fails again at the same turn
+  const script = replayScript(original)
+  const llm = original.llm
+    ? createMockClient((_request, turn) => {
+      if (turn < script.length) return script[turn]
+      if (original.llm?.error) throw new Error(original.llm.error)
+      return { content: null, toolCalls: [] }
+    })
+    : null
+
+  try {
+    await runSearch({
+      query: input.query,
+      timeZone: input.timeZone,
+      sort: isSortMode(input.sort) ? input.sort : undefined,
+      cursor: input.cursor ? decodeCursor(input.cursor) : null,
+      maxResults: input.maxResults,
+      context: input.context,
+      flexibleDays: input.flexibleDays
+    }, { trace: recorder, providerMode: 'replay', llm, currency: input.currency })
+  } catch (error) {
+    // A search that ended in LOCATION_MISSING or ALL_PROVIDERS_FAILED is replayed to the same error
+    if (!(error instanceof ApiError)) throw error
+    recorder.finish({ error: error.message })
+  }
+
+  const replayed = recorder.trace
+  await saveTrace(replayed)
+  return replayed
+}
+
+// Where the replay diverged from the recording: tool results fed back to the model, provider outcomes, result size
+function compareTraces(original: SearchTrace, replayed: SearchTrace): string[] {
+  const differences: string[] = []
+
+  original.toolCalls.forEach((call, i) => {
+    const other = replayed.toolCalls[i]
+    if (!other) differences.push(`tool call ${i + 1} (${call.name}) was not made`)
+    else if (other.result !== call.result) differences.push(`tool call ${i + 1} (${call.name}) returned ${other.result} instead of ${call.result}`)
+  })
+
+  const outcome = (t: SearchTrace) => new Map(t.providers.map(p => [p.platform, `${p.status}, ${p.count} listings`]))
+  const before = outcome(original)
+  const after = outcome(replayed)
+  new Set([...before.keys(), ...after.keys()]).forEach(platform => {
+    if (before.get(platform) !== after.get(platform)) {
+      differences.push(`${platform}: ${after.get(platform) || 'not called'} instead of ${before.get(platform) || 'not called'}`)
+    }
+  })
+
+  if (original.error !== replayed.error) {
+    differences.push(`ended with ${replayed.error ? `"${replayed.error}"` : 'results'} instead of ${original.error ? `"${original.error}"` : 'results'}`)
+  }
+  if (original.result?.count !== replayed.result?.count) {
+    differences.push(`${replayed.result?.count ?? 0} listings returned instead of ${original.result?.count ?? 0}`)
+  }
+  return differences
+}
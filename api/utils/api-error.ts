@@ -0,0 +1,70 @@
+// Machine-readable error codes returned as `{ error, code }`; mirrored by ApiErrorCode in src/types
+// Clients branch on `code`; `error` is a human-readable message that may change.
+
+export type ApiErrorCode =
+  // Request validation (400)
+  | 'INVALID_REQUEST'
+  | 'QUERY_REQUIRED'
+  | 'QUERY_TOO_LONG'
+  | 'INVALID_SORT'
+  | 'INVALID_CURSOR'
+  | 'INVALID_PAGE'
+  | 'INVALID_MAX_RESULTS'
+  | 'INVALID_TIME_ZONE'
+  | 'INVALID_CONTEXT'
+  | 'INVALID_CURRENCY'
+  | 'INVALID_FLEXIBLE_DAYS'
+  // The query was understood but cannot be searched (422)
+  | 'LOCATION_MISSING'
+  | 'INVALID_DATES'
+  // Listing details (404)
+  | 'UNKNOWN_PLATFORM'
+  | 'LISTING_NOT_FOUND'
+  // Access control from the shared middleware
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'RATE_LIMITED'
+  // Upstream and server failures
+  | 'ALL_PROVIDERS_FAILED'
+  | 'DETAILS_UNAVAILABLE'
+  | 'REVIEWS_UNAVAILABLE'
+  | 'CALENDAR_UNAVAILABLE'
+  | 'INTERNAL_ERROR'
+
+const STATUS: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  QUERY_REQUIRED: 400,
+  QUERY_TOO_LONG: 400,
+  INVALID_SORT: 400,
+  INVALID_CURSOR: 400,
+  INVALID_PAGE: 400,
+  INVALID_MAX_RESULTS: 400,
+  INVALID_TIME_ZONE: 400,
+  INVALID_CONTEXT: 400,
+  INVALID_CURRENCY: 400,
+  INVALID_FLEXIBLE_DAYS: 400,
+  LOCATION_MISSING: 422,
+  INVALID_DATES: 422,
+  UNKNOWN_PLATFORM: 404,
+  LISTING_NOT_FOUND: 404,
+  ORIGIN_NOT_ALLOWED: 403,
+  METHOD_NOT_ALLOWED: 405,
+  UNAUTHORIZED: 401,
+  RATE_LIMITED: 429,
+  ALL_PROVIDERS_FAILED: 502,
+  DETAILS_UNAVAILABLE: 502,
+  REVIEWS_UNAVAILABLE: 502,
+  CALENDAR_UNAVAILABLE: 502,
+  INTERNAL_ERROR: 500
+}
+
+export class ApiError extends Error {
+  readonly status: number
+
+  constructor(readonly code: ApiErrorCode, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = STATUS[code]
+  }
+}
@@ -0,0 +1,58 @@
+// Currency conversion for price normalization
+// The table ships as api/data/exchange-rates.json and is refreshed with `npm run rates:update`.
+// EXCHANGE_RATES_FILE points at another file in the same format, e.g. one updated by a cron job.
+import { readFileSync } from 'fs'
+import bundled from '../data/exchange-rates.json'
+import { logger } from '../observability/logger'
+
+export interface ExchangeRates {
+  base: string
+  // When the rates were fetched (YYYY-MM-DD)
+  updatedAt: string
+  source?: string
+  // Units of each currency per one unit of `base`
+  rates: Record<string, number>
+}
+
+let table: ExchangeRates | null = null
+
+function parseRates(value: unknown): ExchangeRates {
+  const { base, updatedAt, source, rates } = (value || {}) as Record<string, unknown>
+  if (typeof base !== 'string' || !rates || typeof rates !== 'object') throw new Error('expected { base, updatedAt, rates }')
+  const valid = Object.entries(rates).filter(([, rate]) => typeof rate === 'number' && Number.isFinite(rate) && rate > 0)
+  return {
+    base: base.toUpperCase(),
+    updatedAt: String(updatedAt || ''),
+    source: typeof source === 'string' ? source : undefined,
+    rates: { ...Object.fromEntries(valid.map(([code, rate]) => [code.toUpperCase(), rate as number])), [base.toUpperCase()]: 1 }
+  }
+}
+
+export function exchangeRates(): ExchangeRates {
+  if (table) return table
+  table = parseRates(bundled)
+  const file = process.env.EXCHANGE_RATES_FILE
+  if (file) {
+    try {
+      table = parseRates(JSON.parse(readFileSync(file, 'utf8')))
+    } catch (error) {
+      // A broken override must not take search down; the bundled table is still a fair estimate
+      logger.warn('Ignoring EXCHANGE_RATES_FILE', { component: 'exchange-rates', file, error: error instanceof Error ? error.message : error })
+    }
+  }
+  return table
+}
+
+export function isSupportedCurrency(code: unknown): code is string {
+  return typeof code === 'string' && code.toUpperCase() in exchangeRates().rates
+}
+
+/** `amount` in `from` expressed in `to`; null when either currency is not in the table */
+export function convertAmount(amount: number, from: string, to: string): number | null {
+  if (from.toUpperCase() === to.toUpperCase()) return amount
+  const { rates } = exchangeRates()
+  const fromRate = rates[from.toUpperCase()]
+  const toRate = rates[to.toUpperCase()]
+  if (!fromRate || !toRate) return null
+  return amount / fromRate * toRate
+}
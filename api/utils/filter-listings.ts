@@ -0,0 +1,129 @@
+// Post-provider filter stage
+// Providers honour the query's constraints unevenly (Booking ignores price and guests), so every
+// normalized listing is checked again here. Only data that contradicts a constraint removes a listing; missing values
+// (no price, no capacity, no amenity list, an amenity no provider reports) are given the benefit of the doubt.
+import { logger } from '../observability/logger'
+
+export interface ListingConstraints {
+  priceMin?: number
+  priceMax?: number
+  adults?: number
+  children?: number
+  minBedrooms?: number
+  minBathrooms?: number
+  minBeds?: number
+  amenities?: string[]
+  minRating?: number
+  superhost?: boolean
+}
+
+export type ConstraintName = 'price' | 'guests' | 'bedrooms' | 'bathrooms' | 'beds' | 'amenities' | 'rating' | 'superhost'
+
+export interface FilterReport {
+  before: number
+  after: number
+  // Listings removed per constraint; a listing failing several is counted once, against the first in this order
+  removed: Partial<Record<ConstraintName, number>>
+}
+
+// The listing fields the filter stage looks at
+export interface FilterableListing {
+  price?: { rate: number }
+  offers?: { price?: { rate: number } }[]
+  maxGuests?: number
+  bedrooms?: number
+  bathrooms?: number
+  beds?: number
+  amenities?: string[]
+  rating?: number
+  host?: { isSuperhost?: boolean }
+}
+
+export type ConstraintStatus = 'satisfied' | 'violated' | 'unknown'
+
+// null when the query does not set the constraint
+type Check = (listing: FilterableListing, c: ListingConstraints) => ConstraintStatus | null
+
+// Nightly rates to test: a listing merged across platforms passes if any platform's offer fits
+export function nightlyRates(listing: FilterableListing): number[] {
+  const rates = listing.offers?.length
+    ? listing.offers.map(o => o.price?.rate || 0)
+    : [listing.price?.rate || 0]
+  return rates.filter(rate => rate > 0)
+}
+
+const atLeast = (value: number | undefined, min: number | undefined): ConstraintStatus | null =>
+  !min ? null : !value ? 'unknown' : value >= min ? 'satisfied' : 'violated'
+
+// The amenities provider mappers normalize listings onto: AMENITY_ID_MAP in airbnb-api, AMENITY_NAMES in vrbo and
+// AMENITY_RULES in the Inside Airbnb importer. Their absence from a listing's list means the listing lacks them;
+// any other amenity (a fireplace, pets allowed) is never reported, so its absence says nothing.
+export const MAPPED_AMENITIES: readonly string[] = ['WiFi', 'Kitchen', 'Parking', 'Pool', 'Hot Tub', 'Air Conditioning', 'Laundry', 'Gym']
+
+const MAPPED = new Set(MAPPED_AMENITIES.map(name => name.toLowerCase()))
+
+export function amenityStatus(listing: FilterableListing, amenity: string): ConstraintStatus {
+  if (!listing.amenities?.length) return 'unknown'
+  const wanted = amenity.toLowerCase()
+  if (!MAPPED.has(wanted)) return listing.amenities.some(a => a.toLowerCase() === wanted) ? 'satisfied' : 'unknown'
+  return listing.amenities.some(a => a.toLowerCase() === wanted) ? 'satisfied' : 'violated'
+}
+
+const CHECKS: [ConstraintName, Check][] = [
+  ['price', (l, c) => {
+    if (!c.priceMin && !c.priceMax) return null
+    const rates = nightlyRates(l)
+    if (rates.length === 0) return 'unknown'
+    return rates.some(rate => (!c.priceMin || rate >= c.priceMin) && (!c.priceMax || rate <= c.priceMax))
+      ? 'satisfied'
+      : 'violated'
+  }],
+  ['guests', (l, c) => atLeast(l.maxGuests, (c.adults || 0) + (c.children || 0))],
+  ['bedrooms', (l, c) => atLeast(l.bedrooms, c.minBedrooms)],
+  ['bathrooms', (l, c) => atLeast(l.bathrooms, c.minBathrooms)],
+  ['beds', (l, c) => atLeast(l.beds, c.minBeds)],
+  ['amenities', (l, c) => {
+    if (!c.amenities?.length) return null
+    const statuses = c.amenities.map(amenity => amenityStatus(l, amenity))
+    return statuses.includes('violated') ? 'violated' : statuses.includes('unknown') ? 'unknown' : 'satisfied'
+  }],
+  ['rating', (l, c) => atLeast(l.rating, c.minRating)],
+  ['superhost', (l, c) => {
+    if (!c.superhost) return null
+    const isSuperhost = l.host?.isSuperhost
+    return isSuperhost === undefined ? 'unknown' : isSuperhost ? 'satisfied' : 'violated'
+  }],
+]
+
+/** How a listing stands against each constraint the query sets, in filter order */
+export function checkConstraints(
+  listing: FilterableListing,
+  constraints: ListingConstraints
+): [ConstraintName, ConstraintStatus][] {
+  return CHECKS.flatMap(([name, check]) => {
+    const status = check(listing, constraints)
+    return status ? [[name, status] as [ConstraintName, ConstraintStatus]] : []
+  })
+}
+
+/**
+ * Drop listings that contradict the query's constraints and report what each constraint removed.
+ */
+export function applyConstraints<T extends FilterableListing>(
+  listings: T[],
+  constraints: ListingConstraints
+): { listings: T[], report: FilterReport } {
+  const removed: FilterReport['removed'] = {}
+  const kept = listings.filter(listing => {
+    const failed = CHECKS.find(([, check]) => check(listing, constraints) === 'violated')
+    if (!failed) return true
+    removed[failed[0]] = (removed[failed[0]] || 0) + 1
+    return false
+  })
+
+  if (kept.length < listings.length) {
+    logger.info('Filter stage removed listings', { component: 'filter', removed: listings.length - kept.length, of: listings.length, reasons: removed })
+  }
+
+  return { listings: kept, report: { before: listings.length, after: kept.length, removed } }
+}
@@ -0,0 +1,151 @@
+// Flexible-date search: the requested stay shifted up to ±N days, priced from the calendars of the top results.
+// Every window keeps the requested number of nights. A listing can take a window when each night is available and the
+// platform's changeover and minimum-stay rules allow it; its total is the sum of the nightly rates, before fees.
+import { API_CONFIG } from '../config'
+import type { CalendarDay, CalendarRange, ListingCalendar } from '../providers/types'
+import { convertAmount } from './exchange-rates'
+import { stayNights } from './pricing'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface FlexibleWindow {
+  checkin: string
+  checkout: string
+  // Days from the requested check-in; negative is earlier
+  shift: number
+  // Compared listings bookable for the whole window
+  available: number
+  // The cheapest of them, by nightly rates; absent when none shows prices
+  cheapest?: { id: string, platform: string, name?: string, total: number }
+  medianTotal?: number
+}
+
+export interface NightlyPrices {
+  date: string
+  // Compared listings with the night free
+  available: number
+  cheapest?: number
+  median?: number
+}
+
+export interface FlexibleDates {
+  days: number
+  nights: number
+  currency: string
+  // Listings whose calendars could be compared
+  compared: number
+  // The requested dates, to compare the windows against
+  requested: FlexibleWindow
+  // Bookable windows, cheapest first
+  windows: FlexibleWindow[]
+  // One entry per night from the earliest check-in to the night before the latest check-out
+  nightly: NightlyPrices[]
+}
+
+export interface CalendarListing {
+  id: string
+  platform: string
+  name?: string
+}
+
+/** YYYY-MM-DD `days` days after `date` (before, when negative) */
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/** Nights a flexible search needs calendars for: every window's nights plus the last check-out day */
+export function flexibleRange(checkin: string, checkout: string, days: number, today: string): CalendarRange {
+  const from = shiftDate(checkin, -days)
+  return { from: from < today ? today : from, to: shiftDate(checkout, days) }
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+function median(values: number[]): number | undefined {
+  if (!values.length) return undefined
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return round(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2)
+}
+
+// Calendar days by date with prices in the display currency
+function priceIndex(calendar: ListingCalendar, currency: string): Map<string, CalendarDay> {
+  const factor = convertAmount(1, calendar.currency, currency) ?? 1
+  return new Map(calendar.days.map(day => [day.date, day.price === undefined ? day : { ...day, price: day.price * factor }]))
+}
+
+// null when the listing cannot be booked for these dates; undefined total when some night has no price
+function quoteWindow(days: Map<string, CalendarDay>, checkin: string, nights: number): { total?: number } | null {
+  const first = days.get(checkin)
+  if (!first || first.checkinAllowed === false || (first.minNights && first.minNights > nights)) return null
+  if (days.get(shiftDate(checkin, nights))?.checkoutAllowed === false) return null
+  let total: number | undefined = 0
+  for (let i = 0; i < nights; i++) {
+    const night = days.get(shiftDate(checkin, i))
+    if (!night?.available) return null
+    total = total !== undefined && night.price !== undefined ? total + night.price : undefined
+  }
+  return { total: total === undefined ? undefined : round(total) }
+}
+
+/**
+ * Compares every window within `days` of the requested stay across the given calendars.
+ * Windows starting before `today` are skipped; so are windows no compared listing can take.
+ */
+export function compareFlexibleDates(
+  calendars: { listing: CalendarListing, calendar: ListingCalendar }[],
+  stay: { checkin: string, checkout: string },
+  days: number,
+  currency: string,
+  today: string
+): FlexibleDates {
+  const nights = stayNights(stay.checkin, stay.checkout) || 1
+  const indexed = calendars.map(({ listing, calendar }) => ({ listing, days: priceIndex(calendar, currency) }))
+
+  const evaluate = (shift: number): FlexibleWindow => {
+    const checkin = shiftDate(stay.checkin, shift)
+    const quotes = indexed
+      .map(({ listing, days }) => ({ listing, quote: quoteWindow(days, checkin, nights) }))
+      .filter(({ quote }) => quote !== null)
+    const priced = quotes
+      .filter(({ quote }) => quote?.total !== undefined)
+      .map(({ listing, quote }) => ({ listing, total: quote!.total! }))
+      .sort((a, b) => a.total - b.total)
+    const cheapest = priced[0]
+    return {
+      checkin,
+      checkout: shiftDate(checkin, nights),
+      shift,
+      available: quotes.length,
+      cheapest: cheapest && { id: cheapest.listing.id, platform: cheapest.listing.platform, name: cheapest.listing.name, total: cheapest.total },
+      medianTotal: median(priced.map(({ total }) => total)),
+    }
+  }
+
+  const windows: FlexibleWindow[] = []
+  for (let shift = -days; shift <= days; shift++) {
+    if (shiftDate(stay.checkin, shift) >= today) windows.push(evaluate(shift))
+  }
+
+  const range = flexibleRange(stay.checkin, stay.checkout, days, today)
+  const nightly: NightlyPrices[] = []
+  for (let date = range.from; date < range.to; date = shiftDate(date, 1)) {
+    const free = indexed.map(({ days }) => days.get(date)).filter(day => day?.available)
+    const prices = free.map(day => day!.price).filter((price): price is number => price !== undefined)
+    nightly.push({ date, available: free.length, cheapest: prices.length ? round(Math.min(...prices)) : undefined, median: median(prices) })
+  }
+
+  return {
+    days,
+    nights,
+    currency,
+    compared: calendars.length,
+    requested: windows.find(window => window.shift === 0) || evaluate(0),
+    // Unpriced windows after priced ones, nearest to the requested dates first
+    windows: windows
+      .filter(window => window.available > 0)
+      .sort((a, b) => (a.cheapest?.total ?? Infinity) - (b.cheapest?.total ?? Infinity) || Math.abs(a.shift) - Math.abs(b.shift))
+      .slice(0, API_CONFIG.FLEXIBLE_DATES.MAX_WINDOWS),
+    nightly,
+  }
+}
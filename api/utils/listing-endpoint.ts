@@ -0,0 +1,58 @@
+// Request parsing and error responses shared by the per-listing endpoints: /api/listing, /api/reviews and /api/calendar
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { CostLedger } from '../budget'
+import { fixtureMode } from '../providers/fixtures'
+import { currentRequestId, type Logger } from '../observability/logger'
+import { ApiError, type ApiErrorCode } from './api-error'
+
+// Airbnb room IDs, Google Hotels property tokens
+const LISTING_ID = /^[A-Za-z0-9_=.-]{1,200}$/
+
+export interface ListingRef {
+  platform: string
+  id: string
+}
+
+/** The route's platform (lowercased) and listing id; empty strings when missing */
+export function listingRef(req: VercelRequest): ListingRef {
+  return {
+    platform: typeof req.query?.platform === 'string' ? req.query.platform.toLowerCase() : '',
+    id: typeof req.query?.id === 'string' ? req.query.id : '',
+  }
+}
+
+/** Throws INVALID_REQUEST unless both parts are present and the id looks like one; `endpoint` is e.g. '/api/listing' */
+export function assertListingRef({ platform, id }: ListingRef, endpoint: string) {
+  if (!platform || !LISTING_ID.test(id)) throw new ApiError('INVALID_REQUEST', `Expected ${endpoint}/<platform>/<listing id>`)
+}
+
+/** Whether the endpoint reads and writes its cache; fixture replay and recording always go to the provider, as search does */
+export function listingCacheEnabled(): boolean {
+  return fixtureMode() === 'live'
+}
+
+export interface ListingFailure {
+  code: ApiErrorCode
+  message: string
+  log: Logger
+  event: string
+}
+
+/**
+ * Settles the request's budget and answers with the error. ApiErrors keep their code and status;
+ * anything else is logged as `failure.event` and answered with `failure.code` and 502.
+ */
+export async function sendListingError(
+  res: VercelResponse,
+  error: unknown,
+  ref: ListingRef,
+  budget: CostLedger | undefined,
+  failure: ListingFailure
+) {
+  await budget?.settle()
+  const known = error instanceof ApiError ? error : null
+  if (!known) failure.log.warn(failure.event, { ...ref, error })
+  const code: ApiErrorCode = known ? known.code : failure.code
+  const message = known ? known.message : failure.message
+  return res.status(known ? known.status : 502).json({ error: message, code, requestId: currentRequestId() })
+}
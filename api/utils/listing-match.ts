@@ -0,0 +1,175 @@
+// Cross-platform duplicate detection
+// Finds the same property listed on several platforms and merges it into one listing with per-platform offers
+
+import { API_CONFIG } from '../config'
+import { logger } from '../observability/logger'
+import type { NormalizedPrice } from './pricing'
+
+const MATCHING = API_CONFIG.CROSS_PLATFORM_MATCHING
+
+// Words that carry no identity in listing names
+const NAME_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'at', 'by', 'in', 'of', 'on', 'with', 'near', 'for', 'to', 'from'
+])
+
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+export interface ListingOffer {
+  platform: string
+  id: string
+  url: string
+  price: NormalizedPrice
+}
+
+// The listing fields matching and merging look at
+interface MatchableListing {
+  id: string | number
+  name: string
+  url: string
+  platform?: string
+  price: ListingOffer['price']
+  location?: {
+    city?: string
+    coordinates?: Coordinates
+  }
+  bedrooms?: number
+  bathrooms?: number
+  images?: string[]
+  amenities?: string[]
+  offers?: ListingOffer[]
+}
+
+function normalizeText(text: string): string {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+// City names are dropped from the name too: "Hotel Van Zandt Austin" and "Hotel Van Zandt" are the same place
+function nameTokens(name: string, city = ''): Set<string> {
+  const cityTokens = new Set(normalizeText(city).split(' '))
+  return new Set(
+    normalizeText(name).split(' ').filter(t => t && !NAME_STOPWORDS.has(t) && !cityTokens.has(t))
+  )
+}
+
+function nameSimilarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0
+  let shared = 0
+  a.forEach(t => { if (b.has(t)) shared++ })
+  // A multi-word name fully contained in the other counts as a near match ("Driskill Hotel" in "The Driskill Hotel Downtown")
+  const smaller = Math.min(a.size, b.size)
+  if (shared === smaller && smaller >= 2) return Math.max(0.9, (2 * shared) / (a.size + b.size))
+  return (2 * shared) / (a.size + b.size)
+}
+
+function knownCity(city = ''): string {
+  const normalized = normalizeText(city)
+  return normalized === 'unknown' ? '' : normalized
+}
+
+function sameCity(a?: string, b?: string): boolean {
+  const cityA = knownCity(a)
+  const cityB = knownCity(b)
+  if (!cityA || !cityB) return true
+  // "austin" vs "austin tx"
+  return cityA === cityB || cityA.startsWith(`${cityB} `) || cityB.startsWith(`${cityA} `)
+}
+
+function validCoordinates(listing: MatchableListing): Coordinates | undefined {
+  const c = listing.location?.coordinates
+  return c && Number.isFinite(c.lat) && Number.isFinite(c.lng) ? c : undefined
+}
+
+// Haversine distance in meters
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => deg * Math.PI / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371000 * Math.asin(Math.sqrt(h))
+}
+
+interface MatchCandidate {
+  listing: MatchableListing
+  tokens: Set<string>
+  coordinates?: Coordinates
+}
+
+function isSameProperty(a: MatchCandidate, b: MatchCandidate): boolean {
+  if (!sameCity(a.listing.location?.city, b.listing.location?.city)) return false
+
+  const bedroomsA = a.listing.bedrooms || 0
+  const bedroomsB = b.listing.bedrooms || 0
+  if (bedroomsA && bedroomsB && bedroomsA !== bedroomsB) return false
+
+  const similarity = nameSimilarity(a.tokens, b.tokens)
+  if (a.coordinates && b.coordinates) {
+    const distance = distanceMeters(a.coordinates, b.coordinates)
+    if (distance > MATCHING.MAX_DISTANCE_METERS) return false
+    if (distance <= MATCHING.NEARBY_DISTANCE_METERS && similarity >= MATCHING.NEARBY_NAME_SIMILARITY_THRESHOLD) return true
+  }
+  return similarity >= MATCHING.NAME_SIMILARITY_THRESHOLD
+}
+
+function toOffer(listing: MatchableListing): ListingOffer {
+  return {
+    platform: listing.platform || 'unknown',
+    id: String(listing.id),
+    url: listing.url,
+    price: listing.price
+  }
+}
+
+// The first listing of a group (provider registry order) is kept; the others only fill in what it lacks
+function mergeGroup<T extends MatchableListing>(group: T[]): T {
+  const [primary, ...others] = group
+  const merged: T = { ...primary, location: { ...primary.location } }
+  for (const other of others) {
+    if (!merged.images?.length && other.images?.length) merged.images = other.images
+    if (!merged.bedrooms && other.bedrooms) merged.bedrooms = other.bedrooms
+    if (!merged.bathrooms && other.bathrooms) merged.bathrooms = other.bathrooms
+    if (!merged.location?.coordinates && other.location?.coordinates) merged.location = { ...merged.location, coordinates: other.location.coordinates }
+    merged.amenities = Array.from(new Set([...(merged.amenities || []), ...(other.amenities || [])]))
+  }
+  // Cheapest stay first, fees included; offers without a price go last
+  const stayPrice = (offer: ListingOffer) => offer.price?.total || offer.price?.rate || Infinity
+  merged.offers = group.map(toOffer).sort((a, b) => stayPrice(a) - stayPrice(b))
+  return merged
+}
+
+/**
+ * Merge listings that describe the same property on different platforms.
+ * Only listings from different platforms are compared; order of first appearance is preserved.
+ */
+export function mergeCrossPlatformDuplicates<T extends MatchableListing>(listings: T[]): T[] {
+  const candidates: MatchCandidate[] = listings.map(listing => ({
+    listing,
+    tokens: nameTokens(listing.name, listing.location?.city),
+    coordinates: validCoordinates(listing)
+  }))
+
+  const groups: MatchCandidate[][] = []
+  for (const candidate of candidates) {
+    const group = groups.find(g =>
+      !g.some(member => member.listing.platform === candidate.listing.platform) &&
+      g.some(member => isSameProperty(member, candidate))
+    )
+    if (group) group.push(candidate)
+    else groups.push([candidate])
+  }
+
+  const merged = groups.filter(g => g.length > 1).length
+  if (merged > 0) {
+    logger.info('Merged cross-platform duplicates', { component: 'listing-match', merged })
+  }
+
+  return groups.map(g => g.length > 1 ? mergeGroup(g.map(c => c.listing as T)) : g[0].listing as T)
+}
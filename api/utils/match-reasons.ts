@@ -0,0 +1,147 @@
+// Match explanations for search results
+// Every returned listing carries `matchReasons`: how it stands against each constraint the query set
+// (one entry per requested amenity), and where its price and rating sit against the result set's medians.
+// Listings that violate a constraint are filtered out before this, so `violated` is rare; `unknown` is not.
+import { API_CONFIG } from '../config'
+import {
+  amenityStatus,
+  checkConstraints,
+  nightlyRates,
+  type ConstraintName,
+  type ConstraintStatus,
+  type FilterableListing,
+  type ListingConstraints
+} from './filter-listings'
+
+const { PRICE_NEAR_MEDIAN, RATING_NEAR_MEDIAN } = API_CONFIG.MATCH_REASONS
+
+export interface ConstraintMatch {
+  constraint: ConstraintName
+  status: ConstraintStatus
+  // Badge text, e.g. "hot tub", "3BR", "price"
+  label: string
+  // The listing's value against the requirement, for a tooltip
+  detail: string
+}
+
+export type MedianPosition = 'below' | 'near' | 'above'
+
+export interface MatchReasons {
+  constraints: ConstraintMatch[]
+  // Stay price (total, else nightly rate) against the median of the result set; absent without a price
+  price?: { value: number, median: number, ratio: number, position: MedianPosition }
+  // Absent for unrated listings
+  rating?: { value: number, median: number, difference: number, position: MedianPosition }
+}
+
+interface ExplainableListing extends FilterableListing {
+  price?: { rate: number, total?: number, currency?: string }
+}
+
+function median(values: number[]): number | undefined {
+  if (!values.length) return undefined
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const stayPrice = (listing: ExplainableListing) => listing.price?.total || listing.price?.rate || 0
+
+const plural = (count: number | undefined, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+function position(delta: number, tolerance: number): MedianPosition {
+  return delta < -tolerance ? 'below' : delta > tolerance ? 'above' : 'near'
+}
+
+function priceRange(c: ListingConstraints): string {
+  if (c.priceMin && c.priceMax) return `${c.priceMin}-${c.priceMax}`
+  return c.priceMax ? `under ${c.priceMax}` : `over ${c.priceMin}`
+}
+
+function describe(name: Exclude<ConstraintName, 'amenities'>, status: ConstraintStatus, listing: ExplainableListing, c: ListingConstraints): ConstraintMatch {
+  const known = status !== 'unknown'
+  switch (name) {
+    case 'price': {
+      const lowest = Math.min(...nightlyRates(listing))
+      const currency = listing.price?.currency ? ` ${listing.price.currency}` : ''
+      return {
+        constraint: name,
+        status,
+        label: 'price',
+        detail: known ? `${round(lowest)}${currency} per night, wanted ${priceRange(c)}` : 'No price listed'
+      }
+    }
+    case 'guests': {
+      const guests = (c.adults || 0) + (c.children || 0)
+      return { constraint: name, status, label: `${guests} guests`, detail: known ? `Sleeps ${listing.maxGuests}` : 'Capacity not listed' }
+    }
+    case 'bedrooms':
+      return { constraint: name, status, label: `${c.minBedrooms}BR`, detail: known ? plural(listing.bedrooms, 'bedroom') : 'Bedrooms not listed' }
+    case 'bathrooms':
+      return { constraint: name, status, label: `${c.minBathrooms} bath`, detail: known ? plural(listing.bathrooms, 'bathroom') : 'Bathrooms not listed' }
+    case 'beds':
+      return { constraint: name, status, label: `${c.minBeds} beds`, detail: known ? plural(listing.beds, 'bed') : 'Beds not listed' }
+    case 'rating':
+      return { constraint: name, status, label: `${c.minRating}+ rating`, detail: known ? `Rated ${listing.rating}` : 'Not rated yet' }
+    case 'superhost':
+      return {
+        constraint: name,
+        status,
+        label: 'superhost',
+        detail: status === 'satisfied' ? 'Superhost' : status === 'violated' ? 'Not a superhost' : 'Host status not listed'
+      }
+  }
+}
+
+// One entry per requested amenity rather than one for the whole list
+function describeAmenities(listing: ExplainableListing, amenities: string[]): ConstraintMatch[] {
+  return amenities.map(amenity => {
+    const status = amenityStatus(listing, amenity)
+    return {
+      constraint: 'amenities',
+      status,
+      label: amenity.toLowerCase(),
+      detail: status === 'satisfied' ? 'Listed' : status === 'violated' ? 'Not in the amenity list' : 'No amenity list'
+    }
+  })
+}
+
+function explainListing(
+  listing: ExplainableListing,
+  constraints: ListingConstraints,
+  medians: { price?: number, rating?: number }
+): MatchReasons {
+  const matches = checkConstraints(listing, constraints).flatMap(([name, status]) => name === 'amenities'
+    ? describeAmenities(listing, constraints.amenities || [])
+    : [describe(name, status, listing, constraints)])
+
+  const reasons: MatchReasons = { constraints: matches }
+  const price = stayPrice(listing)
+  if (price > 0 && medians.price) {
+    const ratio = price / medians.price
+    reasons.price = { value: price, median: round(medians.price), ratio: round(ratio), position: position(ratio - 1, PRICE_NEAR_MEDIAN) }
+  }
+  if (listing.rating && medians.rating) {
+    const difference = listing.rating - medians.rating
+    reasons.rating = { value: listing.rating, median: round(medians.rating), difference: round(difference), position: position(difference, RATING_NEAR_MEDIAN) }
+  }
+  return reasons
+}
+
+/**
+ * Attach `matchReasons` to each listing. Medians are taken over `resultSet`, every listing that passed
+ * the filter stage, so a page is compared against the whole search rather than against itself.
+ */
+export function explainMatches<T extends ExplainableListing>(
+  listings: T[],
+  constraints: ListingConstraints,
+  resultSet: ExplainableListing[] = listings
+): (T & { matchReasons: MatchReasons })[] {
+  const medians = {
+    price: median(resultSet.map(stayPrice).filter(price => price > 0)),
+    rating: median(resultSet.map(listing => listing.rating || 0).filter(rating => rating > 0))
+  }
+  return listings.map(listing => ({ ...listing, matchReasons: explainListing(listing, constraints, medians) }))
+}
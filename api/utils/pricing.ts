@@ -0,0 +1,97 @@
+// Stay price normalization
+// Providers report a nightly rate in their own currency, some with fees, taxes or a whole-stay total.
+// Every listing leaves the pipeline with a stay total in the requested currency, so prices compare
+// across platforms, and keeps what the provider quoted under `original`.
+import { API_CONFIG } from '../config'
+import { convertAmount } from './exchange-rates'
+import { logger } from '../observability/logger'
+import type { ListingConstraints } from './filter-listings'
+
+const { QUERY_CURRENCY } = API_CONFIG.PRICING
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Amounts for the whole stay
+export interface PriceFees {
+  cleaning?: number
+  service?: number
+  // Only when the provider breaks them out; nothing is estimated without a source
+  taxes?: number
+}
+
+// The price a provider mapper produces
+export interface ProviderPrice {
+  // Per night
+  rate: number
+  currency: string
+  // Whole-stay total when the provider quotes one; it already includes the provider's fees and taxes
+  total?: number
+  fees?: PriceFees
+}
+
+export interface NormalizedPrice {
+  rate: number
+  // nights × rate + fees and taxes, or the provider's own stay total
+  total: number
+  currency: string
+  // Absent without stay dates; `total` is then for one night
+  nights?: number
+  fees?: PriceFees
+  // False when taxes may still be added at checkout
+  taxesIncluded: boolean
+  // As quoted by the provider, before conversion
+  original: { rate: number, total: number, currency: string }
+}
+
+export interface PricingOptions {
+  currency: string
+  nights?: number
+}
+
+export function stayNights(checkin?: string, checkout?: string): number | undefined {
+  if (!checkin || !checkout) return undefined
+  const nights = Math.round((Date.parse(`${checkout}T00:00:00Z`) - Date.parse(`${checkin}T00:00:00Z`)) / DAY_MS)
+  return nights > 0 ? nights : undefined
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+const feeTotal = (fees: PriceFees) => (fees.cleaning || 0) + (fees.service || 0) + (fees.taxes || 0)
+
+export function normalizePrice(price: ProviderPrice, options: PricingOptions): NormalizedPrice {
+  const rate = price.rate > 0 ? price.rate : 0
+  const currency = (price.currency || QUERY_CURRENCY).toUpperCase()
+  const fees = price.fees && Object.values(price.fees).some(fee => typeof fee === 'number') ? price.fees : undefined
+  // A listing without a rate keeps a zero total, which sorting and filtering treat as "no price"
+  const total = price.total && price.total > 0
+    ? price.total
+    : rate > 0 ? rate * (options.nights || 1) + (fees ? feeTotal(fees) : 0) : 0
+
+  // A currency missing from the rates table stays as quoted rather than being mislabeled
+  const factor = convertAmount(1, currency, options.currency)
+  if (factor === null) logger.warn('No exchange rate; leaving the price unconverted', { component: 'pricing', currency })
+  const convert = (amount: number) => round(amount * (factor ?? 1))
+
+  return {
+    rate: convert(rate),
+    total: convert(total),
+    currency: factor === null ? currency : options.currency.toUpperCase(),
+    nights: options.nights,
+    fees: fees && Object.fromEntries(
+      Object.entries(fees).filter(([, fee]) => typeof fee === 'number').map(([name, fee]) => [name, convert(fee as number)])
+    ),
+    taxesIncluded: typeof fees?.taxes === 'number',
+    original: { rate, total: round(total), currency }
+  }
+}
+
+export function normalizeListingPrices<T extends { price?: ProviderPrice }>(listings: T[], options: PricingOptions): T[] {
+  return listings.map(listing => listing?.price ? { ...listing, price: normalizePrice(listing.price, options) } : listing)
+}
+
+/** Price limits from the query, read in QUERY_CURRENCY, expressed in the display currency */
+export function convertPriceLimits<T extends ListingConstraints>(constraints: T, currency: string): T {
+  if (!constraints.priceMin && !constraints.priceMax) return constraints
+  const convert = (amount?: number) => amount ? round(convertAmount(amount, QUERY_CURRENCY, currency) ?? amount) : amount
+  return { ...constraints, priceMin: convert(constraints.priceMin), priceMax: convert(constraints.priceMax) }
+}
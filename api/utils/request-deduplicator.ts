@@ -1,5 +1,10 @@
 // Request Deduplication Utility
 // Prevents duplicate API calls during rapid user interactions
+// Counts and response times are also reported to /api/metrics (request_dedup_*)
+import { logger } from '../observability/logger'
+import { metrics } from '../observability/metrics'
+
+const log = logger.child({ component: 'request-dedup' })
 
 interface RequestCacheEntry {
   promise: Promise<any>
@@ -38,7 +43,8 @@ export class RequestDeduplicator {
     if (cached && this.isEntryValid(cached)) {
       cached.hitCount++
       this.requestStats.duplicatePrevented++
-      console.log(`🔄 Deduplicating request: ${url} (hit #${cached.hitCount}, saved ${Date.now() - startTime}ms)`)
+      metrics.dedupRequests.inc({ result: 'deduplicated' })
+      log.debug('Deduplicating request', { url, hit: cached.hitCount })
       return cached.promise
     }
 
@@ -47,7 +53,8 @@ export class RequestDeduplicator {
       this.cleanupCache()
     }
 
-    console.log(`🌐 New request: ${url}`)
+    metrics.dedupRequests.inc({ result: 'new' })
+    log.debug('New request', { url })
     
     // Create new request with optimizations
     const promise = fetch(url, {
@@ -62,13 +69,14 @@ export class RequestDeduplicator {
     }).then(response => {
       const responseTime = Date.now() - startTime
       this.requestStats.totalResponseTime += responseTime
-      console.log(`✅ Request completed: ${url} (${responseTime}ms)`)
+      metrics.dedupDuration.observe({}, responseTime / 1000)
+      log.debug('Request completed', { url, durationMs: responseTime })
       return response
     }).finally(() => {
       // Delayed cleanup - keep cache for rapid subsequent requests
       setTimeout(() => {
         this.requestCache.delete(key)
-        console.log(`🧹 Cleaned up request cache for: ${url}`)
+        metrics.dedupCacheEntries.set({}, this.requestCache.size)
       }, this.cacheTimeout)
     })
 
@@ -79,6 +87,7 @@ export class RequestDeduplicator {
       hitCount: 0
     }
     this.requestCache.set(key, entry)
+    metrics.dedupCacheEntries.set({}, this.requestCache.size)
 
     return promise
   }
@@ -157,7 +166,7 @@ export class RequestDeduplicator {
     }
 
     if (removedCount > 0) {
-      console.log(`🧹 Request cache cleanup: removed ${removedCount} entries, size now: ${this.requestCache.size}`)
+      log.debug('Request cache cleanup', { removed: removedCount, size: this.requestCache.size })
     }
   }
 
@@ -180,7 +189,8 @@ export class RequestDeduplicator {
    */
   clearCache(): void {
     this.requestCache.clear()
-    console.log('🗑️ Request cache cleared')
+    metrics.dedupCacheEntries.set({}, 0)
+    log.debug('Request cache cleared')
   }
 
   /**
@@ -0,0 +1,333 @@
+// Review insights without an LLM: lexicon sentiment per sentence, aspect extraction and recency weighting
+// Each review is split into sentences and scored with SENTIMENT_LEXICON (negation, intensifiers and "but" clauses
+// adjust the valences). Sentences naming cleanliness, noise, location, the host or listing accuracy score that aspect.
+// Reviews count less the older they are (REVIEW_INSIGHTS.HALF_LIFE_DAYS), and the reviewer's own rating is blended in.
+import { API_CONFIG } from '../config'
+import type { LLMClient, LLMUsage } from '../llm'
+import type { ListingReview } from '../providers/types'
+import { CONTRAST_WORDS, INTENSIFIERS, NEGATORS, SENTIMENT_LEXICON } from './sentiment-lexicon'
+
+const {
+  HALF_LIFE_DAYS,
+  UNDATED_WEIGHT,
+  MIN_MENTIONS,
+  POSITIVE_THRESHOLD,
+  NEGATIVE_THRESHOLD,
+  SUMMARY_EXCERPTS
+} = API_CONFIG.REVIEW_INSIGHTS
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A sentence or review scoring within this of zero is neutral
+const NEUTRAL = 0.05
+
+const MAX_ITEMS = 5
+
+export type ReviewAspect = 'cleanliness' | 'noise' | 'location' | 'host' | 'accuracy'
+
+export type OverallSentiment = 'positive' | 'mixed' | 'negative'
+
+export interface AspectInsight {
+  aspect: ReviewAspect
+  label: string
+  // Recency-weighted sentiment of the sentences naming the aspect, -1 to 1
+  score: number
+  // Reviews naming the aspect, and how many of them were positive or negative about it
+  mentions: number
+  positive: number
+  negative: number
+  // The most telling sentence on the side the aspect leans
+  quote?: string
+}
+
+export interface ReviewSummary {
+  text: string
+  model: string
+  generatedAt: string
+}
+
+export interface ReviewInsights {
+  positiveHighlights: string[]
+  negativeInsights: string[]
+  commonConcerns: string[]
+  overallSentiment: OverallSentiment
+  // Recency-weighted sentiment of all reviews, -1 to 1
+  score: number
+  // Aspects at least one review names, most mentioned first
+  aspects: AspectInsight[]
+  reviewsAnalyzed: number
+  newestReview?: string
+  // Only when an LLM summary was asked for and an LLM is configured
+  summary?: ReviewSummary
+}
+
+const ASPECTS: { aspect: ReviewAspect, label: string, pattern: RegExp }[] = [
+  {
+    aspect: 'cleanliness',
+    label: 'Cleanliness',
+    pattern: /\b(clean\w*|unclean|dirt\w*|spotless|tidy|immaculate|filthy|dust\w*|stain\w*|smel\w*|odou?rs?|musty|mou?ld\w*|hair|grime|unsanitary|hygien\w*|sheets|towels|bugs|bedbugs|roach\w*|cockroach\w*)\b/
+  },
+  {
+    aspect: 'noise',
+    label: 'Noise',
+    pattern: /\b(nois\w*|quiet\w*|loud\w*|peaceful|traffic|sirens?|thin walls|part(y|ies)|music|construction|bark\w*|soundproof\w*|earplugs|hear\w*)\b/
+  },
+  {
+    aspect: 'location',
+    label: 'Location',
+    pattern: /\b(location|located|neighbou?rhood|area|walk\w*|distance|nearby|close to|downtown|restaurants|shops|beach|central\w*|transit|metro|subway|bus|convenient\w*)\b/
+  },
+  {
+    aspect: 'host',
+    label: 'Host',
+    pattern: /\b(host\w*|owner|manager|staff|communicat\w*|responsive|unresponsive|respond\w*|repl(y|ied|ies)|welcom\w*|hospitab\w*|hospitality|accommodating)\b/
+  },
+  {
+    aspect: 'accuracy',
+    label: 'Accuracy',
+    pattern: /\b(described|description|accurate\w*|inaccurate|photos?|pictures?|listing|advertised|misleading|as expected|expectations?|exactly as|than expected|looks? like)\b/
+  },
+]
+
+// Specific complaints worth naming when several guests raise them
+const CONCERNS: { label: string, pattern: RegExp }[] = [
+  { label: 'Street noise', pattern: /\b(street noise|traffic|sirens?|bars? nearby|nightlife)\b/ },
+  { label: 'Thin walls', pattern: /\b(thin walls|neighbou?rs|upstairs|next door)\b/ },
+  { label: 'Stairs', pattern: /\b(stairs?|steps|walk-?up|no elevator)\b/ },
+  { label: 'Parking', pattern: /\bparking\b/ },
+  { label: 'WiFi', pattern: /\b(wi-?fi|internet)\b/ },
+  { label: 'Hot water', pattern: /\b(hot water|shower|water pressure)\b/ },
+  { label: 'Temperature', pattern: /\b(a\/c|ac|air con\w*|heating|heater|too (hot|cold)|freezing|stuffy)\b/ },
+  { label: 'Beds', pattern: /\b(beds?|mattress\w*|pillows?)\b/ },
+  { label: 'Check-in', pattern: /\b(check-?in|keys?|lockbox|lock|door code)\b/ },
+  { label: 'Smells', pattern: /\b(smel\w*|odou?rs?|musty)\b/ },
+  { label: 'Pests', pattern: /\b(bugs|bedbugs|ants|roach\w*|cockroach\w*|mice|mouse)\b/ },
+  { label: 'Kitchen supplies', pattern: /\b(utensils|pans|pots|cookware|dishes)\b/ },
+  { label: 'Extra fees', pattern: /\b(fees?|deposit|charged)\b/ },
+]
+
+interface ScoredSentence {
+  text: string
+  lower: string
+  score: number
+}
+
+interface ScoredReview {
+  review: ListingReview
+  sentences: ScoredSentence[]
+  score: number
+  weight: number
+  time?: number
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+const isNegator = (token: string) => NEGATORS.has(token) || token.endsWith("n't")
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[’`]/g, "'").match(/[a-z]+(?:'[a-z]+)?/g) || []
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[a-z]/i.test(sentence))
+}
+
+// Sum of word valences, squashed into -1..1 the way VADER normalizes its compound score
+export function sentenceSentiment(text: string): number {
+  const tokens = tokenize(text)
+  let contrast = -1
+  tokens.forEach((token, i) => {
+    if (CONTRAST_WORDS.has(token)) contrast = i
+  })
+
+  let sum = 0
+  tokens.forEach((token, i) => {
+    let valence = SENTIMENT_LEXICON[token]
+    if (!valence) return
+    const previous = tokens[i - 1]
+    if (previous && INTENSIFIERS[previous]) valence *= INTENSIFIERS[previous]
+    if (tokens.slice(Math.max(0, i - 3), i).some(isNegator)) valence *= -0.75
+    if (contrast >= 0 && i !== contrast) valence *= i > contrast ? 1.5 : 0.5
+    sum += valence
+  })
+  return sum / Math.sqrt(sum * sum + 15)
+}
+
+function recencyWeight(time: number | undefined, now: number): number {
+  if (time === undefined) return UNDATED_WEIGHT
+  const ageDays = Math.max(0, (now - time) / DAY_MS)
+  return 0.5 ** (ageDays / HALF_LIFE_DAYS)
+}
+
+function scoreReview(review: ListingReview, now: number): ScoredReview {
+  const sentences = splitSentences(review.text).map(text => ({ text, lower: text.toLowerCase(), score: sentenceSentiment(text) }))
+  const opinions = sentences.filter(sentence => Math.abs(sentence.score) > NEUTRAL)
+  const textScore = opinions.length ? opinions.reduce((sum, s) => sum + s.score, 0) / opinions.length : 0
+  // The reviewer's stars, 1-5, on the same -1..1 scale
+  const ratingScore = review.rating ? Math.max(-1, Math.min(1, (review.rating - 3) / 2)) : undefined
+  const score = ratingScore === undefined ? textScore : opinions.length ? (textScore + ratingScore) / 2 : ratingScore
+  const parsed = review.date ? Date.parse(review.date) : NaN
+  const time = Number.isFinite(parsed) ? parsed : undefined
+  return { review, sentences, score, weight: recencyWeight(time, now), time }
+}
+
+function excerpt(text: string, max = 140): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text
+}
+
+function weightedMean(items: { score: number, weight: number }[]): number {
+  const total = items.reduce((sum, item) => sum + item.weight, 0)
+  return total ? items.reduce((sum, item) => sum + item.score * item.weight, 0) / total : 0
+}
+
+// `quoted` holds sentences already quoted for another aspect, so one glowing sentence is not repeated under each
+function aspectInsight(definition: (typeof ASPECTS)[number], reviews: ScoredReview[], quoted: Set<string>): AspectInsight | null {
+  const mentions: { score: number, weight: number, sentences: ScoredSentence[] }[] = []
+  for (const scored of reviews) {
+    const sentences = scored.sentences.filter(sentence => definition.pattern.test(sentence.lower))
+    if (!sentences.length) continue
+    const score = sentences.reduce((sum, sentence) => sum + sentence.score, 0) / sentences.length
+    mentions.push({ score, weight: scored.weight, sentences })
+  }
+  if (!mentions.length) return null
+
+  const score = weightedMean(mentions)
+  const leaning = score < 0 ? -1 : 1
+  const quote = mentions
+    .flatMap(mention => mention.sentences.map(sentence => ({ sentence, strength: sentence.score * leaning * mention.weight })))
+    .filter(candidate => candidate.sentence.score * leaning > NEUTRAL)
+    .sort((a, b) => b.strength - a.strength)
+    .map(candidate => candidate.sentence.text)
+    .find(text => !quoted.has(text))
+  if (quote) quoted.add(quote)
+
+  return {
+    aspect: definition.aspect,
+    label: definition.label,
+    score: round(score),
+    mentions: mentions.length,
+    positive: mentions.filter(mention => mention.score > NEUTRAL).length,
+    negative: mentions.filter(mention => mention.score < -NEUTRAL).length,
+    quote: quote && excerpt(quote),
+  }
+}
+
+// Reviews with a negative sentence naming each concern, for the concerns several guests share
+function concerns(reviews: ScoredReview[]): { label: string, count: number }[] {
+  return CONCERNS
+    .map(concern => ({
+      label: concern.label,
+      count: reviews.filter(scored => scored.sentences.some(s => s.score < -NEUTRAL && concern.pattern.test(s.lower))).length,
+    }))
+    .filter(concern => concern.count >= MIN_MENTIONS)
+    .sort((a, b) => b.count - a.count)
+}
+
+// Reviews from the last half-life before the newest one against everything older; null without enough of both
+function trend(reviews: ScoredReview[]): number | null {
+  const dated = reviews.filter(scored => scored.time !== undefined)
+  if (!dated.length) return null
+  const newest = Math.max(...dated.map(scored => scored.time!))
+  const cutoff = newest - HALF_LIFE_DAYS * DAY_MS
+  const recent = dated.filter(scored => scored.time! >= cutoff)
+  const older = dated.filter(scored => scored.time! < cutoff)
+  if (recent.length < 3 || older.length < 3) return null
+  const mean = (items: ScoredReview[]) => items.reduce((sum, item) => sum + item.score, 0) / items.length
+  return mean(recent) - mean(older)
+}
+
+export function analyzeReviews(reviews: ListingReview[], now = Date.now()): ReviewInsights {
+  const scored = reviews.filter(review => review.text.trim()).map(review => scoreReview(review, now))
+  const score = weightedMean(scored)
+  const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0)
+  const negativeShare = totalWeight
+    ? scored.filter(item => item.score < -NEUTRAL).reduce((sum, item) => sum + item.weight, 0) / totalWeight
+    : 0
+
+  const quoted = new Set<string>()
+  const aspects = ASPECTS
+    .map(definition => aspectInsight(definition, scored, quoted))
+    .filter((aspect): aspect is AspectInsight => !!aspect)
+    .sort((a, b) => b.mentions - a.mentions)
+  const reported = aspects.filter(aspect => aspect.mentions >= MIN_MENTIONS)
+  const praised = reported
+    .filter(aspect => aspect.score >= POSITIVE_THRESHOLD)
+    .sort((a, b) => b.score * b.mentions - a.score * a.mentions)
+  const criticized = reported
+    .filter(aspect => aspect.score <= NEGATIVE_THRESHOLD)
+    .sort((a, b) => a.score * a.mentions - b.score * b.mentions)
+  // Aspects that come out fine overall but that several guests still complained about
+  const contested = reported.filter(aspect => aspect.score > NEGATIVE_THRESHOLD && aspect.negative >= MIN_MENTIONS)
+
+  const withQuote = (text: string, quote?: string) => quote ? `${text}: "${quote}"` : text
+  const positiveHighlights = praised.map(aspect =>
+    withQuote(`${aspect.label} praised in ${aspect.positive} of ${aspect.mentions} reviews that mention it`, aspect.quote))
+  const negativeInsights = criticized.map(aspect =>
+    withQuote(`${aspect.label} criticized in ${aspect.negative} of ${aspect.mentions} reviews that mention it`, aspect.quote))
+
+  const change = trend(scored)
+  if (change !== null && change <= -0.3) negativeInsights.push('Recent reviews are less positive than older ones')
+  if (change !== null && change >= 0.3) positiveHighlights.push('Recent reviews are more positive than older ones')
+
+  const commonConcerns = [
+    ...concerns(scored).map(concern => `${concern.label} (${concern.count} reviews)`),
+    ...contested.map(aspect => `${aspect.label}: ${aspect.negative} of ${aspect.mentions} mentions negative`),
+  ]
+
+  const overallSentiment: OverallSentiment = !scored.length
+    ? 'mixed'
+    : score >= POSITIVE_THRESHOLD && negativeShare < 0.2
+      ? 'positive'
+      : score <= NEGATIVE_THRESHOLD
+        ? 'negative'
+        : 'mixed'
+  const newest = scored.filter(item => item.time !== undefined).sort((a, b) => b.time! - a.time!)[0]
+
+  return {
+    positiveHighlights: positiveHighlights.slice(0, MAX_ITEMS),
+    negativeInsights: negativeInsights.slice(0, MAX_ITEMS),
+    commonConcerns: commonConcerns.slice(0, MAX_ITEMS),
+    overallSentiment,
+    score: round(score),
+    aspects,
+    reviewsAnalyzed: scored.length,
+    newestReview: newest?.review.date,
+  }
+}
+
+const SUMMARY_PROMPT = `You summarize guest reviews of a place to stay for someone deciding whether to book it.
+Write two or three plain sentences: what guests consistently like, then any complaint that comes up more than once.
+Use only what the reviews say. No preamble, lists or markdown.`
+
+/**
+ * Optional LLM pass over the newest reviews and the local aspect scores. The summary is null when the model
+ * returns no text; usage is passed on for the cost ledger.
+ */
+export async function summarizeReviews(
+  llm: LLMClient,
+  reviews: ListingReview[],
+  insights: ReviewInsights
+): Promise<{ summary: ReviewSummary | null, usage?: LLMUsage }> {
+  const aspects = insights.aspects
+    .map(aspect => `${aspect.label}: ${aspect.score} (${aspect.positive} positive, ${aspect.negative} negative of ${aspect.mentions})`)
+    .join('\n')
+  const excerpts = reviews
+    .slice(0, SUMMARY_EXCERPTS)
+    .map(review => `- ${review.date ? `${review.date.slice(0, 10)} ` : ''}${excerpt(review.text.replace(/\s+/g, ' '), 400)}`)
+    .join('\n')
+
+  const response = await llm.complete({
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: `Aspect sentiment, -1 to 1:\n${aspects || 'none'}\n\nReviews, newest first:\n${excerpts}` },
+    ]
+  })
+  const text = response.content?.trim()
+  return {
+    summary: text ? { text, model: llm.model, generatedAt: new Date().toISOString() } : null,
+    usage: response.usage,
+  }
+}
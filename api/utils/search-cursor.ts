@@ -0,0 +1,48 @@
+// Opaque pagination cursor for /api/search
+// Carries the page number and each provider's own paging state (Airbnb offsets, SerpAPI tokens, ...).
+// A provider mapped to null has no further pages; a provider missing from the map is not queried again.
+// One round of provider pages usually holds more listings than a response, so `batch` says which round the
+// states fetch and how many of its listings earlier responses served; the rest are served before moving on.
+
+import type { ProviderCursor } from '../providers/types'
+
+const CURSOR_VERSION = 1
+
+export interface SearchCursor {
+  v: number
+  page: number
+  providers: Record<string, ProviderCursor | null>
+  // Absent in cursors issued before batches were tracked: the providers' page is the response page, none served
+  batch?: SearchBatch
+}
+
+export interface SearchBatch {
+  // Page number the providers are asked for
+  page: number
+  // Matching listings of that page already returned
+  served: number
+}
+
+export function encodeCursor(page: number, providers: Record<string, ProviderCursor | null>, batch?: SearchBatch): string {
+  const cursor: SearchCursor = { v: CURSOR_VERSION, page, providers, ...(batch && { batch }) }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+// Returns null for anything that is not a cursor this version issued
+export function decodeCursor(token: string): SearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    if (cursor?.v !== CURSOR_VERSION || typeof cursor.page !== 'number' || typeof cursor.providers !== 'object' || !cursor.providers) {
+      return null
+    }
+    const { batch } = cursor
+    if (batch !== undefined && (typeof batch?.page !== 'number' || typeof batch.served !== 'number')) return null
+    return cursor as SearchCursor
+  } catch {
+    return null
+  }
+}
+
+export function hasMorePages(providers: Record<string, ProviderCursor | null>): boolean {
+  return Object.values(providers).some(state => state !== null)
+}
@@ -0,0 +1,173 @@
+// Request schema for /api/search, mirrored by SearchRequest in src/types
+// The body is checked field by field; the first problem becomes an ApiError with its code.
+
+import { API_CONFIG } from '../config'
+import { todayDate } from '../tools/parse-dates'
+import { ROOM_TYPES, type RoomType } from '../tools/parse-filters'
+import { toSearchContext, type SearchContext } from '../tools/refine-context'
+import { ApiError } from './api-error'
+import { exchangeRates, isSupportedCurrency } from './exchange-rates'
+import { decodeCursor, type SearchCursor } from './search-cursor'
+import { isSortMode, SORT_MODES, type SortMode } from './sort-listings'
+
+const LIMITS = API_CONFIG.SEARCH_REQUEST
+
+export interface SearchRequestBody {
+  // With a `context`, a follow-up utterance applied to it; may then be empty to search the context as is
+  query: string
+  // `context` of the previous response
+  context?: SearchContext
+  stream?: boolean
+  sort?: SortMode
+  // `nextCursor` of the previous response
+  cursor?: string | null
+  // Only 1 without a cursor; later pages are addressed by the cursor
+  page?: number
+  maxResults?: number
+  // IANA name, e.g. "America/Chicago"; resolves relative dates
+  timeZone?: string
+  // ISO 4217 code listing prices are converted to, e.g. "EUR"; USD by default
+  currency?: string
+  // Also compare the same stay shifted up to this many days either way; ignored for searches without dates
+  flexibleDays?: number
+}
+
+export interface ValidSearchRequest {
+  query: string
+  stream: boolean
+  sort?: SortMode
+  cursor: SearchCursor | null
+  cursorToken?: string
+  maxResults: number
+  timeZone?: string
+  context?: SearchContext
+  currency?: string
+  flexibleDays?: number
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value)
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+// Field checks for a posted SearchContext; unknown fields are dropped
+const CONTEXT_CHECKS: Record<keyof SearchContext, (value: unknown) => boolean> = {
+  location: value => typeof value === 'string' && !!value.trim() && value.length <= 200,
+  checkin: value => typeof value === 'string' && ISO_DATE.test(value),
+  checkout: value => typeof value === 'string' && ISO_DATE.test(value),
+  nights: isCount,
+  adults: isCount,
+  children: isCount,
+  priceMin: isCount,
+  priceMax: isCount,
+  amenities: value => Array.isArray(value) && value.every(item => typeof item === 'string'),
+  propertyType: value => typeof value === 'string',
+  roomType: value => ROOM_TYPES.includes(value as RoomType),
+  minBedrooms: isCount,
+  minBathrooms: isCount,
+  minBeds: isCount,
+  minRating: value => isCount(value) && (value as number) <= 5,
+  superhost: value => typeof value === 'boolean',
+  sort: isSortMode
+}
+
+function parseContext(value: unknown): SearchContext {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError('INVALID_CONTEXT', 'context must be the `context` object of a previous response')
+  }
+  const fields = value as Record<string, unknown>
+  for (const [field, check] of Object.entries(CONTEXT_CHECKS)) {
+    const required = field === 'location'
+    if ((fields[field] !== undefined || required) && !check(fields[field])) {
+      throw new ApiError('INVALID_CONTEXT', `Invalid context.${field}`)
+    }
+  }
+  return toSearchContext(fields) as SearchContext
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Throws an ApiError naming the first invalid field. Unknown fields are ignored. */
+export function validateSearchRequest(body: unknown): ValidSearchRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError('INVALID_REQUEST', 'Request body must be a JSON object')
+  }
+  const {
+    query: rawQuery, stream, sort, cursor: cursorToken, page, maxResults, timeZone, context: rawContext, currency, flexibleDays
+  } = body as Record<string, unknown>
+
+  const context = rawContext === undefined || rawContext === null ? undefined : parseContext(rawContext)
+  // A context alone is a complete search; without one the query has to name the place
+  const query = rawQuery === undefined && context ? '' : rawQuery
+  if (typeof query !== 'string' || (!query.trim() && !context)) throw new ApiError('QUERY_REQUIRED', 'Query is required')
+  if (query.length > LIMITS.MAX_QUERY_LENGTH) {
+    throw new ApiError('QUERY_TOO_LONG', `Query must be at most ${LIMITS.MAX_QUERY_LENGTH} characters`)
+  }
+  if (sort !== undefined && !isSortMode(sort)) {
+    throw new ApiError('INVALID_SORT', `Invalid sort; expected one of ${SORT_MODES.join(', ')}`)
+  }
+
+  let cursor: SearchCursor | null = null
+  if (cursorToken !== undefined && cursorToken !== null) {
+    cursor = typeof cursorToken === 'string' ? decodeCursor(cursorToken) : null
+    if (!cursor) throw new ApiError('INVALID_CURSOR', 'Invalid cursor')
+  }
+  if (page !== undefined) {
+    const expected = cursor ? cursor.page : 1
+    if (!isInteger(page) || page !== expected) {
+      throw new ApiError('INVALID_PAGE', cursor
+        ? `page ${String(page)} does not match the cursor (page ${expected})`
+        : 'Pages after the first need the cursor of the previous page')
+    }
+  }
+
+  if (maxResults !== undefined && (!isInteger(maxResults) || maxResults < 1 || maxResults > LIMITS.MAX_RESULTS_LIMIT)) {
+    throw new ApiError('INVALID_MAX_RESULTS', `maxResults must be an integer from 1 to ${LIMITS.MAX_RESULTS_LIMIT}`)
+  }
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isTimeZone(timeZone))) {
+    throw new ApiError('INVALID_TIME_ZONE', 'timeZone must be an IANA time zone such as "America/New_York"')
+  }
+  if (currency !== undefined && !isSupportedCurrency(currency)) {
+    throw new ApiError('INVALID_CURRENCY', `currency must be one of ${Object.keys(exchangeRates().rates).join(', ')}`)
+  }
+  const maxShift = API_CONFIG.FLEXIBLE_DATES.MAX_DAYS
+  if (flexibleDays !== undefined && (!isInteger(flexibleDays) || flexibleDays < 1 || flexibleDays > maxShift)) {
+    throw new ApiError('INVALID_FLEXIBLE_DAYS', `flexibleDays must be an integer from 1 to ${maxShift}`)
+  }
+
+  return {
+    query,
+    stream: stream === true,
+    sort,
+    cursor,
+    cursorToken: cursor ? cursorToken as string : undefined,
+    maxResults: (maxResults as number | undefined) ?? LIMITS.DEFAULT_MAX_RESULTS,
+    timeZone,
+    context,
+    currency: currency?.toUpperCase(),
+    flexibleDays: flexibleDays as number | undefined
+  }
+}
+
+/**
+ * Stay dates a provider can be asked for: check-in no earlier than today in the user's timezone
+ * and check-out after check-in. Throws INVALID_DATES otherwise.
+ */
+export function assertValidStay(checkin: string | undefined, checkout: string | undefined, timeZone?: string) {
+  const malformed = [checkin, checkout].find(date => date !== undefined && !ISO_DATE.test(date))
+  if (malformed !== undefined) throw new ApiError('INVALID_DATES', `${malformed} is not a YYYY-MM-DD date`)
+  if (checkin && checkin < todayDate(timeZone)) {
+    throw new ApiError('INVALID_DATES', `Check-in ${checkin} is in the past`)
+  }
+  if (checkin && checkout && checkout <= checkin) {
+    throw new ApiError('INVALID_DATES', `Check-out ${checkout} must be after check-in ${checkin}`)
+  }
+}
@@ -0,0 +1,175 @@
+// Orchestration traces for /api/search
+// Each request records what the LLM saw and answered, every tool call and every provider call, so a bad
+// decision (a skipped provider, a wrong location) can be inspected afterwards and replayed offline.
+// Traces are kept when DEBUG_TRACES=1: in memory, and also as files when SEARCH_TRACE_DIR is set.
+
+import { existsSync, promises as fs } from 'fs'
+import path from 'path'
+import type { LLMMessage, LLMResponse } from '../llm'
+import type { ProviderParams, ProviderStatus } from '../providers/types'
+import type { SearchContext } from '../tools/refine-context'
+import { logger } from '../observability/logger'
+
+// Bump when the trace layout changes; replay rejects other versions
+export const TRACE_VERSION = 1
+
+const MAX_TRACES_IN_MEMORY = 200
+
+export interface TraceInput {
+  query: string
+  timeZone?: string
+  sort?: string
+  page: number
+  cursor?: string
+  maxResults: number
+  context?: SearchContext
+  currency?: string
+  flexibleDays?: number
+}
+
+export interface TraceLLMTurn {
+  turn: number
+  durationMs: number
+  response: LLMResponse
+}
+
+export interface TraceToolCall {
+  turn: number
+  id: string
+  name: string
+  arguments: unknown
+  durationMs: number
+  // What was sent back to the model
+  result: string
+}
+
+export interface TraceProviderCall extends ProviderStatus {
+  params: ProviderParams
+  durationMs: number
+}
+
+export interface SearchTrace {
+  version: number
+  requestId: string
+  startedAt: string
+  durationMs?: number
+  input: TraceInput
+  // 'fallback' when no LLM is configured, the LLM failed, or a later page skipped it
+  mode: 'llm' | 'fallback'
+  llm?: { provider: string, model: string, error?: string }
+  // Full transcript, system prompt and tool results included
+  messages: LLMMessage[]
+  llmTurns: TraceLLMTurn[]
+  toolCalls: TraceToolCall[]
+  providers: TraceProviderCall[]
+  extracted?: unknown
+  result?: {
+    count: number
+    hasMore: boolean
+    totalResults: number
+    sort: string
+    filtered: unknown
+  }
+  error?: string
+  // Request ID of the trace this one replayed
+  replayOf?: string
+}
+
+export function tracingEnabled(): boolean {
+  return process.env.DEBUG_TRACES === '1' || process.env.DEBUG_TRACES === 'true'
+}
+
+export class TraceRecorder {
+  readonly trace: SearchTrace
+  private readonly started = Date.now()
+  private turn = 0
+
+  constructor(requestId: string, input: TraceInput, replayOf?: string) {
+    this.trace = {
+      version: TRACE_VERSION,
+      requestId,
+      startedAt: new Date(this.started).toISOString(),
+      input,
+      mode: 'fallback',
+      messages: [],
+      llmTurns: [],
+      toolCalls: [],
+      providers: [],
+      ...(replayOf && { replayOf })
+    }
+  }
+
+  llmStarted(provider: string, model: string, messages: LLMMessage[]) {
+    this.trace.mode = 'llm'
+    this.trace.llm = { provider, model }
+    this.trace.messages = messages
+  }
+
+  llmFailed(error: string) {
+    this.trace.mode = 'fallback'
+    if (this.trace.llm) this.trace.llm.error = error
+  }
+
+  llmTurn(response: LLMResponse, durationMs: number) {
+    this.trace.llmTurns.push({ turn: ++this.turn, durationMs, response })
+  }
+
+  toolCall(call: Omit<TraceToolCall, 'turn'>) {
+    this.trace.toolCalls.push({ turn: this.turn, ...call })
+  }
+
+  providerCall(call: TraceProviderCall) {
+    this.trace.providers.push(call)
+  }
+
+  finish(fields: Pick<SearchTrace, 'extracted' | 'result' | 'error'>) {
+    Object.assign(this.trace, fields)
+    this.trace.durationMs = Date.now() - this.started
+    return this.trace
+  }
+}
+
+const traces = new Map<string, SearchTrace>()
+
+function traceDir(): string | null {
+  const dir = process.env.SEARCH_TRACE_DIR
+  return dir ? path.resolve(process.cwd(), dir) : null
+}
+
+function traceFile(dir: string, requestId: string): string {
+  return path.join(dir, `${requestId.replace(/[^A-Za-z0-9._-]/g, '_')}.json`)
+}
+
+export async function saveTrace(trace: SearchTrace): Promise<void> {
+  if (!tracingEnabled()) return
+  traces.delete(trace.requestId)
+  traces.set(trace.requestId, trace)
+  // Map keeps insertion order, so the first key is the oldest trace
+  if (traces.size > MAX_TRACES_IN_MEMORY) {
+    traces.delete(traces.keys().next().value!)
+  }
+
+  const dir = traceDir()
+  if (!dir) return
+  try {
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(traceFile(dir, trace.requestId), JSON.stringify(trace, null, 2) + '\n')
+  } catch (error) {
+    logger.warn('Failed to write search trace', { component: 'search-trace', error })
+  }
+}
+
+export async function loadTrace(requestId: string): Promise<SearchTrace | null> {
+  const cached = traces.get(requestId)
+  if (cached) return cached
+
+  const dir = traceDir()
+  const file = dir && traceFile(dir, requestId)
+  if (!file || !existsSync(file)) return null
+  return JSON.parse(await fs.readFile(file, 'utf8')) as SearchTrace
+}
+
+// The model's recorded answers, in order; replaying them through the mock client reproduces its decisions
+export function replayScript(trace: SearchTrace): LLMResponse[] {
+  return trace.llmTurns.map(t => t.response)
+}
@@ -0,0 +1,48 @@
+// Word valences for guest review sentiment, -3 (very negative) to 3 (very positive)
+// A small AFINN-style list tuned to stay reviews: "quiet", "spotless" and "cramped" carry more weight here than in general text.
+// Words are matched whole and lower-cased; list inflections separately rather than stemming.
+export const SENTIMENT_LEXICON: Record<string, number> = {
+  // Strongly positive
+  amazing: 3, awesome: 3, excellent: 3, exceptional: 3, fantastic: 3, flawless: 3, gorgeous: 3, immaculate: 3,
+  incredible: 3, outstanding: 3, perfect: 3, perfectly: 3, spotless: 3, stunning: 3, superb: 3, wonderful: 3,
+  loved: 3, love: 3, best: 3, phenomenal: 3, impeccable: 3, magical: 3,
+  // Positive
+  beautiful: 2, clean: 2, cozy: 2, cosy: 2, comfortable: 2, comfy: 2, convenient: 2, charming: 2, delightful: 2,
+  enjoyed: 2, friendly: 2, gracious: 2, great: 2, happy: 2, helpful: 2, hospitable: 2, kind: 2, lovely: 2,
+  peaceful: 2, pleasant: 2, quiet: 2, recommend: 2, recommended: 2, relaxing: 2, responsive: 2, spacious: 2,
+  tidy: 2, welcoming: 2, accommodating: 2, attentive: 2, thoughtful: 2, safe: 2, accurate: 2, bright: 2,
+  walkable: 2, modern: 2, stylish: 2, generous: 2, easy: 2, smooth: 2, seamless: 2, fresh: 2, glad: 2,
+  // Mildly positive
+  good: 1, nice: 1, fine: 1, decent: 1, clear: 1, quick: 1, fast: 1, close: 1, central: 1, handy: 1,
+  ok: 1, okay: 1, adequate: 1, reasonable: 1, helpfully: 1, stocked: 1,
+  responded: 1, prompt: 1, promptly: 1, value: 1, worth: 1, thanks: 1, thank: 1, appreciated: 1,
+  // Mildly negative
+  small: -1, tight: -1, dated: -1, basic: -1, noise: -1, busy: -1, slow: -1,
+  confusing: -1, hard: -1, difficult: -1, expensive: -1, pricey: -1, steep: -1, lacking: -1, missing: -1,
+  stairs: -1, weak: -1, uncomfortable: -2, dim: -1, worn: -1, tired: -1, freezing: -1, stuffy: -1,
+  // Negative
+  bad: -2, broken: -2, cramped: -2, dark: -1, dusty: -2, loud: -2, noisy: -2, poor: -2, problem: -2,
+  problems: -2, smelly: -2, smell: -1, smelled: -2, stained: -2, stains: -2, disappointed: -2,
+  disappointing: -2, unresponsive: -2, rude: -2, unsafe: -2, sketchy: -2, misleading: -2, inaccurate: -2,
+  issue: -1, issues: -1, leak: -2, leaking: -2, mold: -2, mould: -2, musty: -2, damp: -2, unclean: -2,
+  unhelpful: -2, annoying: -2, sadly: -1, unfortunately: -1, complaint: -2, complain: -2, overpriced: -2,
+  // Strongly negative
+  awful: -3, dirty: -3, disgusting: -3, filthy: -3, horrible: -3, nightmare: -3, terrible: -3, worst: -3,
+  bugs: -3, cockroach: -3, cockroaches: -3, roaches: -3, bedbugs: -3, mice: -3, scam: -3, unacceptable: -3,
+  avoid: -3, refund: -2, cancelled: -2, canceled: -2, gross: -3, unsanitary: -3, hated: -3,
+}
+
+// Flip the valence of the next few words: "not clean", "wasn't noisy", "never responded"
+export const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'hardly', 'barely', 'without', 'neither', 'nor', 'cannot', 'none',
+])
+
+// Scale the valence of the next word: "very clean", "a bit noisy"
+export const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.5, extremely: 1.75, super: 1.5, so: 1.3, incredibly: 1.75, absolutely: 1.5,
+  exceptionally: 1.75, truly: 1.3, quite: 1.2, totally: 1.3, too: 1.3,
+  slightly: 0.5, somewhat: 0.6, little: 0.6, bit: 0.6, fairly: 0.8, kinda: 0.7, mostly: 0.8,
+}
+
+// Words after these outweigh the ones before: "clean, but the street was loud"
+export const CONTRAST_WORDS = new Set(['but', 'however', 'although', 'though', 'unfortunately', 'except'])
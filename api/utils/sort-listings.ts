@@ -0,0 +1,119 @@
+// Ranking modes for unified search results
+// Every mode ends with a listing ID tiebreaker so equal listings keep a stable order between requests
+
+import { API_CONFIG } from '../config'
+import { distanceMeters, type Coordinates } from './listing-match'
+
+export const SORT_MODES = ['relevance', 'price_asc', 'price_desc', 'rating', 'trust', 'value', 'distance'] as const
+
+export type SortMode = typeof SORT_MODES[number]
+
+// The listing fields the ranking modes look at
+interface SortableListing {
+  id: string | number
+  price?: { rate: number, total?: number }
+  rating?: number
+  reviewsCount?: number
+  trustScore?: number
+  location?: { coordinates?: Coordinates }
+}
+
+type Comparator<T> = (a: T, b: T) => number
+
+export function isSortMode(value: unknown): value is SortMode {
+  return typeof value === 'string' && (SORT_MODES as readonly string[]).includes(value)
+}
+
+const rate = (l: SortableListing) => l.price?.rate || 0
+// Price modes compare whole stays, so a low rate with a large cleaning fee ranks where it belongs
+const stayPrice = (l: SortableListing) => l.price?.total || rate(l)
+const rating = (l: SortableListing) => l.rating || 0
+const reviews = (l: SortableListing) => l.reviewsCount || 0
+const trust = (l: SortableListing) => l.trustScore || 0
+
+// Trust score already blends rating with review volume; fall back to rating alone when it is missing
+function valueScore(l: SortableListing): number {
+  const quality = trust(l) || rating(l) * 20
+  return rate(l) > 0 ? quality / rate(l) : 0
+}
+
+function descending<T>(score: (l: T) => number): Comparator<T> {
+  return (a, b) => score(b) - score(a)
+}
+
+// Listings without a price go last in both price directions
+function byPrice<T extends SortableListing>(direction: 1 | -1): Comparator<T> {
+  return (a, b) => {
+    if (!stayPrice(a) || !stayPrice(b)) return (stayPrice(a) ? 0 : 1) - (stayPrice(b) ? 0 : 1)
+    return direction * (stayPrice(a) - stayPrice(b))
+  }
+}
+
+// Listings without coordinates go last
+function byDistance<T extends SortableListing>(origin: Coordinates | undefined): Comparator<T> {
+  const cache = new Map<T, number>()
+  const distance = (l: T) => {
+    if (!cache.has(l)) {
+      const c = l.location?.coordinates
+      cache.set(l, origin && c ? distanceMeters(origin, c) : Infinity)
+    }
+    return cache.get(l)!
+  }
+  return (a, b) => {
+    const dA = distance(a), dB = distance(b)
+    if (dA === dB) return 0
+    if (dA === Infinity) return 1
+    if (dB === Infinity) return -1
+    return dA - dB
+  }
+}
+
+function comparatorsFor<T extends SortableListing>(mode: SortMode, origin?: Coordinates): Comparator<T>[] {
+  switch (mode) {
+    case 'price_asc':
+      return [byPrice(1), descending(trust)]
+    case 'price_desc':
+      return [byPrice(-1), descending(trust)]
+    case 'rating':
+      return [descending(rating), descending(reviews)]
+    case 'trust':
+      return [descending(trust), descending(reviews)]
+    case 'value':
+      return [descending(valueScore), byPrice(1)]
+    case 'distance':
+      return [byDistance(origin), descending(trust)]
+    case 'relevance':
+    default:
+      return [descending(trust), descending(rating), byPrice(1)]
+  }
+}
+
+function byId(a: SortableListing, b: SortableListing): number {
+  const idA = String(a.id), idB = String(b.id)
+  return idA < idB ? -1 : idA > idB ? 1 : 0
+}
+
+// Centre of the listings that have coordinates; stands in for the searched point when geocoding fails
+export function centroid(listings: SortableListing[]): Coordinates | undefined {
+  const points = listings.map(l => l.location?.coordinates).filter((c): c is Coordinates => !!c)
+  if (points.length === 0) return undefined
+  return {
+    lat: points.reduce((sum, c) => sum + c.lat, 0) / points.length,
+    lng: points.reduce((sum, c) => sum + c.lng, 0) / points.length
+  }
+}
+
+/**
+ * Sort listings in place by the given mode. `origin` is the searched point used by `distance`.
+ */
+export function sortListings<T extends SortableListing>(listings: T[], mode: SortMode = 'relevance', origin?: Coordinates): T[] {
+  const comparators = comparatorsFor<T>(mode, origin)
+  if (API_CONFIG.SORT_BY_ID_FALLBACK) comparators.push(byId)
+  return listings.sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b)
+      if (result !== 0) return result
+    }
+    return 0
+  })
+}
@@ -0,0 +1,216 @@
+// Builds a local search index from an Inside Airbnb listings export (https://insideairbnb.com/get-the-data/)
+//   npm run listings:import -- ~/Downloads/listings.csv.gz
+//   npm run listings:import -- listings.csv --city "Mexico City" --country Mexico --currency MXN
+// Writes <dir>/<city>.json, where dir is --out, INSIDE_AIRBNB_DIR or data/inside-airbnb. The city and snapshot date
+// default to the ones in Inside Airbnb's download path (.../united-states/tx/austin/2025-03-06/data/listings.csv.gz).
+// Listings without a price (inactive ones, in recent exports) are left out.
+import { createReadStream } from 'fs'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { createGunzip } from 'zlib'
+
+// Bump together with INDEX_VERSION in api/providers/inside-airbnb.ts
+const INDEX_VERSION = 1
+
+// Column order of each listing row in the index
+const FIELDS = [
+  'id', 'name', 'picture', 'lat', 'lng', 'neighbourhood', 'propertyType', 'roomType',
+  'maxGuests', 'bedrooms', 'bathrooms', 'beds', 'price', 'rating', 'reviewsCount',
+  'hostName', 'superhost', 'amenities'
+]
+
+// Inside Airbnb amenity names onto the names the search filters use (see AMENITY_ID_MAP in api/airbnb-api.ts).
+// Keep in step with MAPPED_AMENITIES in api/utils/filter-listings.ts: searches ignore any amenity not listed there.
+const AMENITY_RULES = [
+  [/wifi|wi-fi|internet|ethernet/i, 'WiFi'],
+  [/kitchen/i, 'Kitchen'],
+  [/parking|garage|carport/i, 'Parking'],
+  [/\bpool\b(?! table)/i, 'Pool'],
+  [/hot tub|jacuzzi/i, 'Hot Tub'],
+  [/air conditioning|\bac\b/i, 'Air Conditioning'],
+  [/washer|dryer|laundry/i, 'Laundry'],
+  [/\bgym\b|fitness/i, 'Gym']
+]
+
+const ROOM_TYPES = {
+  'entire home/apt': 'entire_home',
+  'private room': 'private_room',
+  'shared room': 'shared_room',
+  'hotel room': 'hotel_room'
+}
+
+function parseArgs(argv) {
+  const args = { file: undefined, city: undefined, country: '', currency: 'USD', out: undefined }
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i].match(/^--(city|country|currency|out)$/)
+    if (flag) args[flag[1]] = argv[++i]
+    else args.file = argv[i]
+  }
+  return args
+}
+
+// RFC 4180 rows from a stream; quoted fields may hold commas, doubled quotes and newlines
+async function* csvRows(stream) {
+  let row = []
+  let field = ''
+  let quoted = false
+  let afterQuote = false
+  for await (const chunk of stream) {
+    for (const c of chunk) {
+      if (afterQuote) {
+        afterQuote = false
+        if (c === '"') {
+          field += '"'
+          continue
+        }
+        quoted = false
+      }
+      if (quoted) {
+        if (c === '"') afterQuote = true
+        else field += c
+      } else if (c === '"') {
+        quoted = true
+      } else if (c === ',') {
+        row.push(field)
+        field = ''
+      } else if (c === '\n') {
+        row.push(field)
+        field = ''
+        yield row
+        row = []
+      } else if (c !== '\r') {
+        field += c
+      }
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    yield row
+  }
+}
+
+const number = value => {
+  const parsed = parseFloat(String(value).replace(/[^0-9.-]/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Recent exports fill `bathrooms`; older ones only have text such as "1.5 shared baths" or "Half-bath"
+function bathrooms(count, text) {
+  const parsed = number(count)
+  if (parsed !== null) return parsed
+  if (/half-bath/i.test(text)) return 0.5
+  return number(text)
+}
+
+// JSON arrays in current exports, {Wifi,"Hot tub"} sets in exports before 2021
+function amenityNames(value) {
+  if (!value) return []
+  if (value.startsWith('[')) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return []
+    }
+  }
+  return value.replace(/^\{|\}$/g, '').split(',').map(name => name.replace(/^"|"$/g, ''))
+}
+
+function amenities(value) {
+  const names = amenityNames(value)
+  return AMENITY_RULES.filter(([rule]) => names.some(name => rule.test(name))).map(([, name]) => name)
+}
+
+// Review scores are out of 5 since 2021 and out of 100 before
+function rating(value) {
+  const score = number(value)
+  if (score === null) return 0
+  return Math.round((score > 5 ? score / 20 : score) * 100) / 100
+}
+
+const titleCase = slug => slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+const slugify = value => value.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+const args = parseArgs(process.argv.slice(2))
+if (!args.file) {
+  console.error('Usage: npm run listings:import -- <listings.csv[.gz]> [--city <name>] [--country <name>] [--currency <code>] [--out <dir>]')
+  process.exit(1)
+}
+
+const source = path.resolve(args.file)
+const fromPath = source.split(path.sep).join('/').match(/\/([a-z0-9-]+)\/(\d{4}-\d{2}-\d{2})\/data\/[^/]+$/)
+const city = args.city || (fromPath && titleCase(fromPath[1]))
+if (!city) {
+  console.error('Could not tell the city from the file path; pass --city')
+  process.exit(1)
+}
+
+const input = createReadStream(source)
+const stream = source.endsWith('.gz') ? input.pipe(createGunzip()) : input
+stream.setEncoding('utf8')
+
+let columns = null
+let skipped = 0
+const neighbourhoods = []
+const listings = []
+for await (const row of csvRows(stream)) {
+  if (!columns) {
+    columns = Object.fromEntries(row.map((name, i) => [name, i]))
+    const missing = ['id', 'latitude', 'longitude', 'price', 'room_type', 'accommodates'].filter(name => !(name in columns))
+    if (missing.length) throw new Error(`${args.file} is not a detailed listings export; missing ${missing.join(', ')}`)
+    continue
+  }
+  const get = name => (name in columns ? row[columns[name]] : '') || ''
+  const price = number(get('price'))
+  if (!price) {
+    skipped++
+    continue
+  }
+
+  const neighbourhood = get('neighbourhood_cleansed') || get('neighbourhood')
+  let area = neighbourhoods.indexOf(neighbourhood)
+  if (neighbourhood && area < 0) area = neighbourhoods.push(neighbourhood) - 1
+
+  listings.push([
+    get('id'),
+    get('name'),
+    get('picture_url'),
+    number(get('latitude')),
+    number(get('longitude')),
+    neighbourhood ? area : null,
+    get('property_type'),
+    ROOM_TYPES[get('room_type').toLowerCase()] || get('room_type'),
+    number(get('accommodates')),
+    number(get('bedrooms')),
+    bathrooms(get('bathrooms'), get('bathrooms_text')),
+    number(get('beds')),
+    price,
+    rating(get('review_scores_rating')),
+    number(get('number_of_reviews')) || 0,
+    get('host_name'),
+    get('host_is_superhost') === 't' ? 1 : 0,
+    amenities(get('amenities'))
+  ])
+}
+
+// Cheapest first, so the provider can cut a price range out by binary search
+const PRICE = FIELDS.indexOf('price')
+listings.sort((a, b) => a[PRICE] - b[PRICE])
+
+const dir = path.resolve(args.out || process.env.INSIDE_AIRBNB_DIR || 'data/inside-airbnb')
+const file = path.join(dir, `${slugify(city)}.json`)
+await mkdir(dir, { recursive: true })
+await writeFile(file, JSON.stringify({
+  version: INDEX_VERSION,
+  city,
+  country: args.country,
+  currency: args.currency.toUpperCase(),
+  snapshotDate: fromPath ? fromPath[2] : undefined,
+  importedAt: new Date().toISOString(),
+  source: path.basename(source),
+  fields: FIELDS,
+  neighbourhoods,
+  listings
+}) + '\n')
+console.log(`🏠 Indexed ${listings.length} ${city} listings into ${path.relative(process.cwd(), file)}`)
+if (skipped) console.warn(`⚠️ Left out ${skipped} listings without a price`)
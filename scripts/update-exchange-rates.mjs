@@ -0,0 +1,23 @@
+// Refreshes api/data/exchange-rates.json (or the file given as the first argument)
+//   npm run rates:update
+//   npm run rates:update -- /var/data/exchange-rates.json   then set EXCHANGE_RATES_FILE to it
+// Only the currencies already in the table are updated; add a code to the table to start tracking it.
+import { readFile, writeFile } from 'fs/promises'
+import path from 'path'
+
+const file = path.resolve(process.argv[2] || 'api/data/exchange-rates.json')
+const current = JSON.parse(await readFile(path.resolve('api/data/exchange-rates.json'), 'utf8'))
+const source = `https://open.er-api.com/v6/latest/${current.base}`
+
+const response = await fetch(source)
+if (!response.ok) throw new Error(`${source} answered ${response.status}`)
+const data = await response.json()
+if (data.result !== 'success' || !data.rates) throw new Error(`${source} returned no rates`)
+
+const missing = Object.keys(current.rates).filter(code => typeof data.rates[code] !== 'number')
+const rates = Object.fromEntries(Object.keys(current.rates).map(code => [code, data.rates[code] ?? current.rates[code]]))
+const updatedAt = new Date((data.time_last_update_unix || Date.now() / 1000) * 1000).toISOString().slice(0, 10)
+
+await writeFile(file, JSON.stringify({ base: current.base, updatedAt, source, rates }, null, 2) + '\n')
+console.log(`💱 Wrote ${Object.keys(rates).length} rates from ${updatedAt} to ${path.relative(process.cwd(), file)}`)
+if (missing.length) console.warn(`⚠️ Kept the previous rates for ${missing.join(', ')}`)
@@ -11,7 +11,8 @@ import {
   VStack,
   Textarea,
   Grid,
-  Input
+  Input,
+  NativeSelect
 } from '@chakra-ui/react'
 import { 
   MapPin, 
@@ -44,18 +45,23 @@ import { SEARCH_CONFIG } from './config/constants'
 // Import optimistic search utilities
 import { 
   predictSearchCharacteristics, 
-  createOptimisticLoadingSteps,
   predictFollowUps,
   createOptimisticResultsPreview
 } from './utils/optimisticSearch'
 import { OptimisticSearchMessage } from './components/OptimisticSearchMessage'
 import { QuickFilters } from './components/QuickFilters'
+import { MatchBadges } from './components/MatchBadges'
+import { FlexibleDateGrid } from './components/FlexibleDateGrid'
 
 // Import consolidated state management
 import { useSearchState } from './hooks/useSearchState'
 
 // Import request deduplication
 import { useRequestDeduplication } from './utils/request-deduplicator'
+import { apiErrorFrom, SearchApiError, streamSearch } from './utils/searchStream'
+import { platformLabel } from './utils/platforms'
+import { fetchFlexibleDates } from './utils/flexibleDates'
+import { formatMoney, formatNightlyRate, formatStayTotal } from './utils/formatPrice'
 
 // Intelligent follow-up question generator
 function generateFollowUpQuestions(query: string, _queryAnalysis: any, results: AirbnbListing[]): string[] {
@@ -73,8 +79,10 @@ function generateFollowUpQuestions(query: string, _queryAnalysis: any, results:
     const minPrice = Math.min(...prices)
     const maxPrice = Math.max(...prices)
     
+    const currency = results[0]?.price.currency
+    
     if (maxPrice > minPrice + 100) {
-      questions.push(`What's your budget range? I found options from $${minPrice} to $${maxPrice} per night`)
+      questions.push(`What's your budget range? I found options from ${formatMoney(minPrice, currency)} to ${formatMoney(maxPrice, currency)} per night`)
     }
   }
 
@@ -140,8 +148,32 @@ function generateFollowUpQuestions(query: string, _queryAnalysis: any, results:
   return questions.slice(0, 3)
 }
 
+// Chat reply for a failed search, chosen by the API error code
+function searchErrorReply(error: unknown): { content: string; followUps?: string[] } {
+  const code = error instanceof SearchApiError ? error.code : undefined
+  switch (code) {
+    case 'LOCATION_MISSING':
+      return {
+        content: 'I couldn\'t identify a location in your search. Could you please specify where you\'d like to stay?',
+        followUps: ['Try: "Dog-friendly cabin near Yellowstone"', 'Try: "Charleston vacation rental"', 'Try: "Austin loft for 2 adults"']
+      }
+    case 'INVALID_DATES':
+      return { content: `Those dates don't work: ${(error as Error).message}. Could you give me check-in and check-out dates from today on?` }
+    case 'QUERY_TOO_LONG':
+      return { content: 'That message is too long for a search. Could you describe the stay in a sentence or two?' }
+    case 'ALL_PROVIDERS_FAILED':
+      return { content: 'None of the booking sites answered this time. Please try again in a moment.' }
+    case 'RATE_LIMITED': {
+      const wait = (error as SearchApiError).retryAfter
+      return { content: `You're searching faster than I can keep up. Please try again${wait ? ` in ${wait} seconds` : ' shortly'}.` }
+    }
+    default:
+      return { content: 'Sorry, I had trouble searching for properties. Please try again.' }
+  }
+}
+
 // Import types
-import type { AirbnbListing, SearchResponse, ChatMessage, SearchHistory, GeocodeResult } from './types'
+import type { AirbnbListing, SearchResponse, ChatMessage, SearchHistory, GeocodeResult, ProviderProgress } from './types'
 
 // Import location disambiguation component
 import { LocationDisambiguation } from './components/LocationDisambiguation'
@@ -153,8 +185,10 @@ function App() {
   const { state, actions } = useSearchState()
   
   // Use request deduplication for API calls
-  const { fetch: fetchWithDeduplication, getStats: getDeduplicationStats, cancelRequests } = useRequestDeduplication()
-  
+  const { cancelRequests } = useRequestDeduplication()
+
+  // In-flight streamed search, aborted when a newer search starts or the app unmounts
+  const searchAbortRef = useRef<AbortController | null>(null)
   
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -184,9 +218,35 @@ function App() {
     }
   }, [actions])
 
+  // Restore the display currency picked in an earlier session
+  useEffect(() => {
+    const savedCurrency = localStorage.getItem('airbnb-search-currency')
+    if (savedCurrency && (SEARCH_CONFIG.CURRENCIES as readonly string[]).includes(savedCurrency)) {
+      actions.setCurrency(savedCurrency)
+    }
+  }, [actions])
+
+  // The date editor prices nearby dates for the current search; loaded once per search and currency
+  const { showDateEditor, context, currency, flexibleDates } = state
+  useEffect(() => {
+    if (!showDateEditor || flexibleDates || !context?.checkin || !context.checkout) return
+    let cancelled = false
+    actions.flexibleDatesStart()
+    fetchFlexibleDates(context, currency, SEARCH_CONFIG.FLEXIBLE_DAYS)
+      .then(result => {
+        if (!cancelled) actions.flexibleDatesSuccess(result)
+      })
+      .catch(error => {
+        console.error('Flexible dates error:', error)
+        if (!cancelled) actions.flexibleDatesSuccess(null)
+      })
+    return () => { cancelled = true }
+  }, [showDateEditor, context, currency, flexibleDates, actions])
+
   useEffect(() => {
     return () => {
       cancelRequests()
+      searchAbortRef.current?.abort()
     }
   }, [cancelRequests])
 
@@ -221,7 +281,6 @@ function App() {
 
     // 🚀 OPTIMISTIC UI: Immediate feedback with predictions
     const prediction = predictSearchCharacteristics(query)
-    const loadingSteps = createOptimisticLoadingSteps(prediction)
     const optimisticFollowUps = predictFollowUps(query, prediction)
     const resultsPreview = createOptimisticResultsPreview(prediction)
     
@@ -234,7 +293,8 @@ function App() {
       isOptimistic: true,
       optimisticData: {
         prediction,
-        loadingSteps,
+        providers: [],
+        listingsFound: 0,
         resultsPreview
       },
       followUps: prediction.confidence > 0.6 ? optimisticFollowUps : [],
@@ -252,25 +312,54 @@ function App() {
       actions.setSearchQuery('')
     }
 
+    // A newer search supersedes any stream still in flight
+    searchAbortRef.current?.abort()
+    const abortController = new AbortController()
+    searchAbortRef.current = abortController
+
     try {
-      // 🚀 NEW: Single enhanced search call with request deduplication
-      console.log('🚀 Using unified search endpoint')
+      // 🚀 Streamed unified search: each provider's listings render as soon as they arrive
+      console.log('🚀 Using unified search endpoint (streaming)')
       const startTime = Date.now()
-      
-      const enhancedData = await fetchWithDeduplication('/api/search', {
-        method: 'POST',
-        body: JSON.stringify({
-          query,
-          page
-        })
-      })
+
+      const progress: ProviderProgress[] = []
+      let listingsFound = 0
+      let firstBatch = true
+
+      // The previous search's context turns this message into a refinement ("make it 4 guests");
+      // the server drops it when the message is a new search somewhere else ("loft in Chicago")
+      const enhancedData = await streamSearch({
+        query,
+        context: state.context ?? undefined,
+        currency: state.currency,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      }, (event) => {
+        if (event.type === 'provider_start') {
+          if (!progress.some(p => p.platform === event.platform)) {
+            progress.push({ platform: event.platform, status: 'pending', count: 0 })
+          }
+        } else if (event.type === 'provider') {
+          const entry = progress.find(p => p.platform === event.platform)
+          if (entry) {
+            entry.status = event.status
+            entry.count = event.count
+            entry.reason = event.reason
+          } else {
+            progress.push({ platform: event.platform, status: event.status, count: event.count, reason: event.reason })
+          }
+          listingsFound += event.count
+          if (event.listings.length > 0) {
+            actions.streamResults(event.listings, firstBatch)
+            firstBatch = false
+          }
+        } else {
+          return
+        }
+        actions.updateOptimisticProgress(progress.map(p => ({ ...p })), listingsFound)
+      }, abortController.signal)
 
       const totalTime = Date.now() - startTime
-      
-      // Log deduplication stats
-      const deduplicationStats = getDeduplicationStats()
       console.log(`⚡ Search completed in ${totalTime}ms`) 
-      console.log('🔄 Frontend deduplication:', deduplicationStats)
       
       // Unified search does not include a success flag; handle by presence of listings
 
@@ -284,7 +373,7 @@ function App() {
 
       // Handle search results
       if (!enhancedData.listings) {
-        const friendly = enhancedData.notes || enhancedData.error || 'I could not retrieve property results this time.'
+        const friendly = 'I could not retrieve property results this time.'
         const assistantMessage: ChatMessage = {
           id: (Date.now() + 1).toString(),
           type: 'assistant',
@@ -304,8 +393,9 @@ function App() {
       }
 
       const searchResults = enhancedData.listings || []
-      // Extract a location label from first result if present
-      let extractedLocation = searchResults[0]?.location?.city || 'your destination'
+      // The server's context names the searched place; the first result's city is a fallback label
+      const searchContext = enhancedData.context ?? null
+      const extractedLocation = searchContext?.location || searchResults[0]?.location?.city || 'your destination'
 
       // Handle location validation if available
       // No server-side location validation in simplified flow
@@ -338,28 +428,10 @@ function App() {
         } : 'No listings'
       })
       
-      // Context tracking
-      if (page === 1) {
-        if (state.context) {
-          const updatedContext = {
-            ...state.context,
-            location: extractedLocation,
-            adults: state.context.adults || 2,
-            children: state.context.children || 0
-          }
-          actions.setSearchContext(updatedContext)
-          console.log('Updated search context for refinement:', updatedContext)
-        } else {
-          const newContext = {
-            location: extractedLocation,
-            adults: SEARCH_CONFIG.DEFAULT_ADULTS,
-            children: SEARCH_CONFIG.DEFAULT_CHILDREN
-          }
-          actions.setSearchContext(newContext)
-          console.log('Created new search context:', newContext)
-        }
+      if (enhancedData.changes?.length) {
+        console.log('Refined search context:', enhancedData.changes)
       }
-      
+
       // Use search results directly from enhanced endpoint (filtering already applied)
       const filteredResults = searchResults
       
@@ -370,7 +442,7 @@ function App() {
       if (filteredResults.length > 0) {
         try {
           const analyzer = new RefinementAnalyzer(filteredResults)
-          refinementSuggestions = analyzer.generateRefinementSuggestions(query)
+          refinementSuggestions = analyzer.generateRefinementSuggestions(query, searchContext)
           
           // Generate contextual follow-up questions
           followUpSuggestions.push(...generateFollowUpQuestions(query, null, filteredResults))
@@ -385,18 +457,12 @@ function App() {
       // Update pagination and query state through actions
       const searchSuccessPayload = {
         results: filteredResults,
-        hasMore: false,
+        hasMore: enhancedData.hasMore || false,
+        nextCursor: enhancedData.nextCursor ?? null,
         page: page,
-        context: page === 1 ? (state.context ? {
-          ...state.context,
-          location: extractedLocation,
-        } : {
-          location: extractedLocation,
-          adults: SEARCH_CONFIG.DEFAULT_ADULTS,
-          children: SEARCH_CONFIG.DEFAULT_CHILDREN
-        }) : undefined,
+        context: page === 1 ? searchContext ?? undefined : undefined,
         filters: refinementSuggestions.slice(0, 12),
-        dates: null,
+        dates: enhancedData.dates || null,
         priceRange: null
       }
       
@@ -437,26 +503,21 @@ function App() {
       addToHistory(query, filteredResults.length)
 
     } catch (error) {
+      // Superseded by a newer search, which owns the optimistic message now
+      if (abortController.signal.aborted) return
+
       // Add error message with more details for debugging
       console.error('Enhanced search error details:', error)
-      
-      let errorContent = 'Sorry, I had trouble searching for properties. Please try again.'
-      
-      // Provide more specific error messages based on the error
-      if (error instanceof Error) {
-        if (error.message.includes('Location is required')) {
-          errorContent = 'I couldn\'t identify a location in your search. Could you please specify where you\'d like to stay?'
-        } else if (error.message.includes('filter refinement')) {
-          errorContent = 'This seems like a refinement request, but I need a location first. Where would you like to search?'
-        }
-        console.error('Enhanced search API error:', error.message)
-      }
-      
+
+      // The reply depends on the error code, never on the wording of the message
+      const reply = searchErrorReply(error)
+
       // ❌ ERROR: Replace optimistic message with error
       const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: errorContent,
+        content: reply.content,
+        followUps: reply.followUps,
         timestamp: new Date()
       }
       
@@ -464,19 +525,84 @@ function App() {
       actions.replaceOptimisticMessage(errorMessage)
       setTimeout(scrollToBottom, 100)
     } finally {
-      actions.setLoading(false)
+      if (searchAbortRef.current === abortController) {
+        searchAbortRef.current = null
+        actions.setLoading(false)
+      }
     }
   }
 
-  const handleNextPage = () => {
-    if (state.hasMore && !state.loading && state.currentQuery) {
-      handleSearch(state.currentPage + 1)
+  // Later pages resume each provider from the cursor of the previous response and append to the results
+  const handleNextPage = async () => {
+    if (!state.hasMore || !state.nextCursor || state.loading || !state.currentQuery) return
+
+    actions.setLoading(true)
+    try {
+      const response = await fetch('/api/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // The context the first page returned; re-applying the same utterance to it changes nothing
+        body: JSON.stringify({
+          query: state.currentQuery,
+          context: state.context ?? undefined,
+          cursor: state.nextCursor,
+          currency: state.currency,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        })
+      })
+
+      if (!response.ok) throw await apiErrorFrom(response)
+
+      const data: SearchResponse = await response.json()
+      actions.loadMoreSuccess({
+        results: data.listings || [],
+        hasMore: data.hasMore || false,
+        nextCursor: data.nextCursor ?? null,
+        page: data.page
+      })
+    } catch (error) {
+      console.error('Load more error:', error)
+    } finally {
+      actions.setLoading(false)
     }
   }
 
-  const handlePrevPage = () => {
-    if (state.currentPage > 1 && !state.loading && state.currentQuery) {
-      handleSearch(state.currentPage - 1)
+  // Re-prices the current results: the unchanged context is searched again in the new currency
+  const handleCurrencyChange = async (currency: string) => {
+    actions.setCurrency(currency)
+    localStorage.setItem('airbnb-search-currency', currency)
+    if (!state.context || state.loading) return
+
+    actions.setLoading(true)
+    try {
+      const response = await fetch('/api/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: '',
+          context: state.context,
+          currency,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        })
+      })
+
+      if (!response.ok) throw await apiErrorFrom(response)
+
+      const data: SearchResponse = await response.json()
+      actions.searchSuccess({
+        results: data.listings || [],
+        hasMore: data.hasMore || false,
+        nextCursor: data.nextCursor ?? null,
+        page: data.page,
+        context: data.context ?? undefined
+      })
+    } catch (error) {
+      console.error('Currency change error:', error)
+      actions.setLoading(false)
     }
   }
 
@@ -493,9 +619,8 @@ function App() {
     
     actions.setCurrentDates({ checkin, checkout, flexible: false })
     
-    // Create a new search with updated dates
-    const dateQuery = `${state.currentQuery} from ${new Date(checkin).toLocaleDateString()} to ${new Date(checkout).toLocaleDateString()}`
-    handleSearch(1, dateQuery)
+    // Only the dates change; the server applies them to the current search context
+    handleSearch(1, `from ${checkin} to ${checkout}`)
   }
 
   // Format date for input (YYYY-MM-DD)
@@ -594,7 +719,9 @@ function App() {
         page: 1,
         location: validatedLocation.location,
         adults: SEARCH_CONFIG.DEFAULT_ADULTS,
-        children: SEARCH_CONFIG.DEFAULT_CHILDREN
+        children: SEARCH_CONFIG.DEFAULT_CHILDREN,
+        currency: state.currency,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
       }
       
       console.log('DIRECT SEARCH WITH VALIDATED LOCATION:', locationSearchPayload)
@@ -607,26 +734,19 @@ function App() {
         body: JSON.stringify(locationSearchPayload)
       })
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        throw new Error(errorData.error || `Search failed: ${response.statusText}`)
-      }
+      if (!response.ok) throw await apiErrorFrom(response)
 
       const data: SearchResponse = await response.json()
       const searchResults = data.listings || []
       
       // Update context with validated location
-      const newContext = {
-        location: validatedLocation.location,
-        adults: SEARCH_CONFIG.DEFAULT_ADULTS,
-        children: SEARCH_CONFIG.DEFAULT_CHILDREN
-      }
-      actions.setSearchContext(newContext)
+      actions.setSearchContext(data.context ?? { location: validatedLocation.location })
       
       // Use searchSuccess to update pagination state
       actions.searchSuccess({
         results: searchResults,
         hasMore: data.hasMore || false,
+        nextCursor: data.nextCursor ?? null,
         page: 1
       })
       actions.searchStart(query, 1) // Update currentQuery
@@ -648,10 +768,12 @@ function App() {
     } catch (error) {
       console.error('Direct search error:', error)
       
+      const reply = searchErrorReply(error)
       const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: 'Sorry, I had trouble searching for properties. Please try again.',
+        content: reply.content,
+        followUps: reply.followUps,
         timestamp: new Date()
       }
       actions.addMessage(errorMessage)
@@ -1182,11 +1304,8 @@ function App() {
                     <OptimisticSearchMessage
                       location={message.optimisticData.prediction.location}
                       estimatedResults={message.optimisticData.prediction.estimatedResults}
-                      loadingSteps={message.optimisticData.loadingSteps}
-                      onStepsComplete={() => {
-                        // Optional: Could trigger some action when loading completes
-                        console.log('Optimistic loading steps completed')
-                      }}
+                      providers={message.optimisticData.providers}
+                      listingsFound={message.optimisticData.listingsFound}
                     />
                   ) : (
                     <>
@@ -1347,6 +1466,18 @@ function App() {
                   {state.currentPriceRange?.budget && (
                     <Text color="#CC6B2E">• {state.currentPriceRange.budget}</Text>
                   )}
+                  <NativeSelect.Root size="xs" width="80px" disabled={state.loading}>
+                    <NativeSelect.Field
+                      aria-label="Currency"
+                      value={state.currency}
+                      onChange={(e) => handleCurrencyChange(e.target.value)}
+                    >
+                      {SEARCH_CONFIG.CURRENCIES.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
                 </HStack>
                 <Button
                   size="xs"
@@ -1434,6 +1565,16 @@ function App() {
                             />
                           </Box>
                         </HStack>
+                        <FlexibleDateGrid
+                          checkin={state.currentDates.checkin!}
+                          checkout={state.currentDates.checkout!}
+                          flexibleDates={state.flexibleDates}
+                          loading={state.loadingFlexibleDates}
+                          onSelect={(checkin, checkout) => {
+                            handleDateUpdate(checkin, checkout)
+                            actions.setShowDateEditor(false)
+                          }}
+                        />
                         <Text fontSize="xs" color="gray.500" textAlign="center">
                           Results will automatically update when you change dates
                         </Text>
@@ -1815,11 +1956,18 @@ function App() {
                             </HStack>
                           </HStack>
 
+                          <MatchBadges reasons={listing.matchReasons} />
+
                           <HStack justify="space-between" w="full" align="center">
                             <VStack align="start" gap={0}>
                               <Text fontWeight="600" color="gray.900" fontSize="sm">
-                                ${listing.price.rate}/night
+                                {formatNightlyRate(listing.price)}/night
                               </Text>
+                              {formatStayTotal(listing.price) && (
+                                <Text fontSize="xs" color="gray.500">
+                                  {formatStayTotal(listing.price)}
+                                </Text>
+                              )}
                             </VStack>
                             
                             <VStack align="end" gap={1}>
@@ -1856,6 +2004,32 @@ function App() {
                               </HStack>
                             </VStack>
                           </HStack>
+
+                          {/* Same property on other platforms, cheapest first */}
+                          {listing.offers && listing.offers.length > 1 && (
+                            <VStack align="stretch" gap={1} w="full" pt={2} borderTop="1px" borderColor="gray.100">
+                              {listing.offers.map((offer, index) => (
+                                <Link
+                                  key={`${offer.platform}-${offer.id}`}
+                                  href={offer.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  _hover={{ textDecoration: 'none', bg: '#F8FDFC' }}
+                                >
+                                  <HStack justify="space-between" w="full">
+                                    <Text fontSize="xs" color="gray.600">{platformLabel(offer.platform)}</Text>
+                                    <Text
+                                      fontSize="xs"
+                                      fontWeight={index === 0 ? '600' : '400'}
+                                      color={index === 0 ? '#2E7A73' : 'gray.600'}
+                                    >
+                                      {offer.price.rate ? `${formatNightlyRate(offer.price)}/night` : 'See price'}
+                                    </Text>
+                                  </HStack>
+                                </Link>
+                              ))}
+                            </VStack>
+                          )}
                         </VStack>
                       </Box>
                     </Box>
@@ -1867,36 +2041,21 @@ function App() {
                 <Box p={3} borderTop="2px" borderColor="#FF6B6B">
                   <Flex justify="space-between" align="center">
                     <Text fontSize="xs" color="gray.500">
-                      Page {state.currentPage}
+                      {state.results.length} shown · page {state.currentPage}
                     </Text>
-                    <HStack gap={1}>
-                      <Button 
-                        size="xs" 
-                        variant="outline"
-                        onClick={handlePrevPage}
-                        disabled={state.currentPage === 1 || state.loading}
-                        borderColor="#4ECDC4"
-                        _hover={{ 
-                          bg: "#F0F8F7",
-                          borderColor: "#FF8E53"
-                        }}
-                      >
-                        ←
-                      </Button>
-                      <Button 
-                        size="xs" 
-                        variant="outline"
-                        onClick={handleNextPage}
-                        disabled={!state.hasMore || state.loading}
-                        borderColor="#4ECDC4"
-                        _hover={{ 
-                          bg: "#F0F8F7",
-                          borderColor: "#FF8E53"
-                        }}
-                      >
-                        →
-                      </Button>
-                    </HStack>
+                    <Button 
+                      size="xs" 
+                      variant="outline"
+                      onClick={handleNextPage}
+                      disabled={!state.hasMore || state.loading}
+                      borderColor="#4ECDC4"
+                      _hover={{ 
+                        bg: "#F0F8F7",
+                        borderColor: "#FF8E53"
+                      }}
+                    >
+                      {state.hasMore ? 'Load more' : 'No more results'}
+                    </Button>
                   </Flex>
                 </Box>
               )}
@@ -0,0 +1,120 @@
+import React from 'react'
+import { Box, Button, Flex, Grid, Spinner, Text, VStack } from '@chakra-ui/react'
+import type { FlexibleDates, FlexibleWindow } from '../types'
+import { calendarWeeks, shiftDate } from '../utils/flexibleDates'
+import { formatMoney } from '../utils/formatPrice'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const SUGGESTED_WINDOWS = 3
+
+interface FlexibleDateGridProps {
+  checkin: string
+  checkout: string
+  flexibleDates: FlexibleDates | null
+  loading: boolean
+  onSelect: (checkin: string, checkout: string) => void
+}
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+// "Dec 7 – Dec 11 · from €258 · save €45" against the cheapest listing on the requested dates
+function windowLabel(window: FlexibleWindow, requested: FlexibleWindow, currency: string): string {
+  const parts = [`${shortDate(window.checkin)} – ${shortDate(window.checkout)}`]
+  if (window.cheapest) parts.push(`from ${formatMoney(window.cheapest.total, currency)}`)
+  const saving = window.cheapest && requested.cheapest ? requested.cheapest.total - window.cheapest.total : 0
+  if (saving >= 1) parts.push(`save ${formatMoney(saving, currency)}`)
+  return parts.join(' · ')
+}
+
+// Nightly prices around the current stay; picking a night moves check-in there and keeps the length of stay
+export const FlexibleDateGrid = React.memo(({ checkin, checkout, flexibleDates, loading, onSelect }: FlexibleDateGridProps) => {
+  if (loading) {
+    return (
+      <Flex align="center" justify="center" gap={2} py={2}>
+        <Spinner size="xs" color="#4ECDC4" />
+        <Text fontSize="xs" color="gray.500">Checking prices on nearby dates...</Text>
+      </Flex>
+    )
+  }
+  if (!flexibleDates) return null
+  if (!flexibleDates.compared) {
+    return <Text fontSize="xs" color="gray.500" textAlign="center">No availability calendars for these results</Text>
+  }
+
+  const { currency, nights, requested } = flexibleDates
+  const prices = flexibleDates.nightly.map(night => night.cheapest).filter((price): price is number => price !== undefined)
+  const lowest = prices.length ? Math.min(...prices) : undefined
+  const suggestions = flexibleDates.windows.filter(window => window.shift !== 0).slice(0, SUGGESTED_WINDOWS)
+
+  return (
+    <VStack gap={2} align="stretch">
+      <Text fontSize="xs" color="gray.600" fontWeight="500">
+        Cheapest nightly rate across {flexibleDates.compared} listings, before fees
+      </Text>
+      <Grid templateColumns="repeat(7, 1fr)" gap={1}>
+        {WEEKDAYS.map(day => (
+          <Text key={day} fontSize="2xs" color="gray.400" textAlign="center">{day}</Text>
+        ))}
+        {calendarWeeks(flexibleDates.nightly).flat().map((night, i) => {
+          if (!night) return <Box key={`pad-${i}`} />
+          const inStay = night.date >= checkin && night.date < checkout
+          const bookable = night.available > 0
+          const day = Number(night.date.slice(8))
+          return (
+            <Box
+              key={night.date}
+              as="button"
+              px={1}
+              py={1}
+              borderRadius="md"
+              border="1px solid"
+              borderColor={inStay ? '#4ECDC4' : 'gray.200'}
+              bg={inStay ? '#E0F7F4' : bookable ? 'white' : 'gray.50'}
+              opacity={bookable ? 1 : 0.5}
+              cursor={bookable ? 'pointer' : 'not-allowed'}
+              _hover={bookable ? { borderColor: '#FF8E53' } : undefined}
+              title={bookable
+                ? `${night.available} of ${flexibleDates.compared} listings free${night.median !== undefined ? ` · median ${formatMoney(night.median, currency)}` : ''}`
+                : 'Booked at every compared listing'}
+              onClick={() => bookable && onSelect(night.date, shiftDate(night.date, nights))}
+            >
+              <Text fontSize="2xs" color="gray.500">{day === 1 || night.date === flexibleDates.nightly[0].date ? shortDate(night.date) : day}</Text>
+              <Text
+                fontSize="xs"
+                fontWeight="600"
+                color={night.cheapest !== undefined && night.cheapest === lowest ? 'green.600' : 'gray.700'}
+              >
+                {!bookable ? '—' : night.cheapest !== undefined ? formatMoney(night.cheapest, currency) : '✓'}
+              </Text>
+            </Box>
+          )
+        })}
+      </Grid>
+      {suggestions.length > 0 && (
+        <VStack gap={1} align="stretch">
+          <Text fontSize="xs" color="gray.600" fontWeight="500">
+            Cheapest {nights}-night stays within ±{flexibleDates.days} days
+          </Text>
+          {suggestions.map(window => (
+            <Button
+              key={window.checkin}
+              size="xs"
+              variant="outline"
+              borderColor="#4ECDC4"
+              color="#2E7A73"
+              _hover={{ bg: '#F8FDFC', borderColor: '#3FB8B3' }}
+              justifyContent="flex-start"
+              onClick={() => onSelect(window.checkin, window.checkout)}
+            >
+              {windowLabel(window, requested, currency)}
+            </Button>
+          ))}
+        </VStack>
+      )}
+    </VStack>
+  )
+})
+
+FlexibleDateGrid.displayName = 'FlexibleDateGrid'
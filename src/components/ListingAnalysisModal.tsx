@@ -8,11 +8,13 @@ import {
   Spinner,
   Icon,
   Grid,
-  Circle
+  Circle,
+  Image
 } from '@chakra-ui/react';
-import { X, ExternalLink, CheckCircle, AlertTriangle, Star, DollarSign, MapPin, User, Home } from 'lucide-react';
+import { X, ExternalLink, CheckCircle, AlertTriangle, Star, DollarSign, MapPin, User, Home, FileText } from 'lucide-react';
 import { useState, useEffect } from 'react';
-import type { AirbnbListing } from '../types';
+import type { AirbnbListing, ApiErrorResponse, ListingDetails, ReviewInsights } from '../types';
+import { fetchReviewInsights, sentimentLabel } from '../utils/reviewInsights';
 
 interface ListingAnalysis {
   overallScore: number;
@@ -69,12 +71,43 @@ interface ListingAnalysisModalProps {
   listing: AirbnbListing;
 }
 
+// Description, rules and the rest of what the search card lacks; null when the platform has no details
+async function fetchListingDetails(listing: AirbnbListing): Promise<ListingDetails | null> {
+  const response = await fetch(`/api/listing/${listing.platform || 'airbnb'}/${encodeURIComponent(listing.id)}`);
+  if (response.ok) return response.json();
+  const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+  if (body?.code === 'UNKNOWN_PLATFORM' || body?.code === 'LISTING_NOT_FOUND') return null;
+  throw new Error(body?.error || `Listing details failed (${response.status})`);
+}
+
+// The review tab's shape, from the locally analyzed insights; aspect frequency is the share of reviews naming it
+function reviewAnalysisFrom(insights: ReviewInsights): ListingAnalysis['insights']['reviewAnalysis'] {
+  const analyzed = insights.reviewsAnalyzed || 0;
+  return {
+    score: Math.round(((insights.score ?? 0) + 1) * 50),
+    credibility: analyzed >= 20 ? 'high' : analyzed >= 5 ? 'medium' : 'low',
+    summary: insights.summary?.text || `${sentimentLabel(insights.overallSentiment)} across ${analyzed} recent reviews`,
+    reviewThemes: (insights.aspects || []).map(aspect => ({
+      category: aspect.label,
+      sentiment: aspect.score >= 0.25 ? 'positive' : aspect.score <= -0.1 ? 'negative' : 'mixed',
+      frequency: analyzed ? Math.round((aspect.mentions / analyzed) * 100) : 0,
+      summary: aspect.quote
+        ? `${aspect.positive} positive and ${aspect.negative} negative mentions. "${aspect.quote}"`
+        : `${aspect.positive} positive and ${aspect.negative} negative mentions.`,
+      keyPhrases: []
+    })),
+    positiveHighlights: insights.positiveHighlights,
+    commonConcerns: [...insights.negativeInsights, ...insights.commonConcerns]
+  };
+}
+
 export function ListingAnalysisModal({ 
   isOpen, 
   onClose, 
   listing
 }: ListingAnalysisModalProps) {
   const [analysis, setAnalysis] = useState<ListingAnalysis | null>(null);
+  const [details, setDetails] = useState<ListingDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentTab, setCurrentTab] = useState('overview');
@@ -97,17 +130,40 @@ export function ListingAnalysisModal({
     setError(null);
 
     try {
+      const [fetched, reviews] = await Promise.all([
+        fetchListingDetails(listing).catch((err) => {
+          console.warn('Listing details unavailable:', err);
+          return null;
+        }),
+        fetchReviewInsights(listing, { summary: true }).catch((err) => {
+          console.warn('Review insights unavailable:', err);
+          return null;
+        })
+      ]);
+      setDetails(fetched);
+      const tenure = fetched?.host?.yearsHosting;
+      const policy = fetched?.cancellationPolicy;
       // Feature deprecated in simplified flow
       setAnalysis({
         overallScore: Math.min(95, Math.max(55, Math.round((listing.trustScore || 60) * 0.8 + (listing.rating || 4) * 10))),
         insights: {
           priceAnalysis: { score: 70, assessment: 'good', details: 'Priced competitively for the area.' },
           locationAnalysis: { score: 75, highlights: ['Safe area', 'Popular neighborhood'], concerns: [] },
-          hostAnalysis: { score: listing.host?.isSuperhost ? 85 : 70, trustLevel: listing.host?.isSuperhost ? 'high' : 'medium', details: 'Responsive host' },
-          propertyAnalysis: { score: 72, highlights: listing.amenities?.slice(0, 3) || [], amenityScore: 70 },
-          reviewAnalysis: { score: 68, credibility: 'medium', summary: 'Generally positive reviews', reviewThemes: [] }
+          hostAnalysis: {
+            score: listing.host?.isSuperhost ? 85 : 70,
+            trustLevel: listing.host?.isSuperhost ? 'high' : 'medium',
+            details: 'Responsive host',
+            experience: tenure ? `Hosting since ${fetched?.host?.memberSince} (${tenure} ${tenure === 1 ? 'year' : 'years'})` : undefined
+          },
+          propertyAnalysis: { score: 72, highlights: (fetched?.amenities || listing.amenities)?.slice(0, 3) || [], amenityScore: 70 },
+          reviewAnalysis: reviews
+            ? reviewAnalysisFrom(reviews.insights)
+            : { score: 68, credibility: 'medium', summary: 'Generally positive reviews', reviewThemes: [] }
         },
-        recommendations: ['Confirm cancellation policy', 'Check additional fees before booking'],
+        recommendations: [
+          policy ? `${policy.name} cancellation${policy.description ? `: ${policy.description}` : ''}` : 'Confirm cancellation policy',
+          'Check additional fees before booking'
+        ],
         redFlags: [],
         bottomLine: 'Solid option for the price and rating.'
       })
@@ -236,6 +292,7 @@ export function ListingAnalysisModal({
               <HStack gap={2} wrap="wrap">
                 {[
                   { id: 'overview', label: '📋 Overview', icon: Home },
+                  ...(details ? [{ id: 'details', label: '🏠 Details', icon: FileText }] : []),
                   { id: 'price', label: '💰 Price', icon: DollarSign },
                   { id: 'location', label: '📍 Location', icon: MapPin },
                   { id: 'host', label: '👤 Host', icon: User },
@@ -294,6 +351,82 @@ export function ListingAnalysisModal({
                   </VStack>
                 )}
 
+                {currentTab === 'details' && details && (
+                  <VStack gap={4} align="stretch">
+                    {details.description && (
+                      <Text fontSize="sm" whiteSpace="pre-line">{details.description}</Text>
+                    )}
+
+                    <HStack gap={2} wrap="wrap">
+                      {details.checkIn && <Badge bg="blue.100" color="blue.800">Check-in {details.checkIn}</Badge>}
+                      {details.checkOut && <Badge bg="blue.100" color="blue.800">Check-out {details.checkOut}</Badge>}
+                      {details.cancellationPolicy && (
+                        <Badge bg="purple.100" color="purple.800">{details.cancellationPolicy.name} cancellation</Badge>
+                      )}
+                    </HStack>
+                    {details.cancellationPolicy?.description && (
+                      <Text fontSize="sm" color="gray.600">{details.cancellationPolicy.description}</Text>
+                    )}
+
+                    {details.sleepingArrangements.length > 0 && (
+                      <Box>
+                        <Text fontWeight="bold" mb={2}>🛏️ Sleeping arrangements</Text>
+                        <Grid templateColumns="repeat(auto-fit, minmax(160px, 1fr))" gap={2}>
+                          {details.sleepingArrangements.map((room, i) => (
+                            <Box key={i} p={2} border="1px" borderColor="gray.200" borderRadius="md">
+                              <Text fontSize="sm" fontWeight="medium">{room.room}</Text>
+                              <Text fontSize="xs" color="gray.600">
+                                {room.beds.map(bed => `${bed.count} × ${bed.type}`).join(', ')}
+                              </Text>
+                            </Box>
+                          ))}
+                        </Grid>
+                      </Box>
+                    )}
+
+                    {details.houseRules.length > 0 && (
+                      <Box>
+                        <Text fontWeight="bold" mb={2}>📜 House rules</Text>
+                        <VStack align="start" gap={1}>
+                          {details.houseRules.map((rule, i) => (
+                            <Text key={i} fontSize="sm">• {rule}</Text>
+                          ))}
+                        </VStack>
+                      </Box>
+                    )}
+
+                    {details.amenities.length > 0 && (
+                      <Box>
+                        <Text fontWeight="bold" mb={2}>✨ Amenities ({details.amenities.length})</Text>
+                        <HStack wrap="wrap" gap={1}>
+                          {details.amenities.map((amenity, i) => (
+                            <Badge key={i} size="sm" variant="outline">{amenity}</Badge>
+                          ))}
+                        </HStack>
+                      </Box>
+                    )}
+
+                    {details.photos.length > 0 && (
+                      <Grid templateColumns="repeat(auto-fill, minmax(140px, 1fr))" gap={2}>
+                        {details.photos.slice(0, 12).map((photo, i) => (
+                          <VStack key={i} gap={1} align="stretch">
+                            <Image
+                              src={photo.url}
+                              alt={photo.caption || `${details.name} photo ${i + 1}`}
+                              w="100%"
+                              h="96px"
+                              objectFit="cover"
+                              borderRadius="md"
+                              loading="lazy"
+                            />
+                            {photo.caption && <Text fontSize="xs" color="gray.600">{photo.caption}</Text>}
+                          </VStack>
+                        ))}
+                      </Grid>
+                    )}
+                  </VStack>
+                )}
+
                 {currentTab === 'price' && (
                   <VStack gap={4} align="stretch">
                     <HStack justify="space-between">
@@ -375,6 +508,9 @@ export function ListingAnalysisModal({
                       </VStack>
                     </HStack>
                     <Text>{analysis.insights.hostAnalysis.details}</Text>
+                    {analysis.insights.hostAnalysis.experience && (
+                      <Text fontSize="sm" color="gray.600">{analysis.insights.hostAnalysis.experience}</Text>
+                    )}
                   </VStack>
                 )}
 
@@ -0,0 +1,56 @@
+import React from 'react'
+import { Box, Flex, Text } from '@chakra-ui/react'
+import type { MatchReasons, MatchStatus } from '../types'
+
+const STATUS_STYLE: Record<MatchStatus, { mark: string; bg: string; color: string }> = {
+  satisfied: { mark: '✓', bg: 'green.50', color: 'green.700' },
+  violated: { mark: '✗', bg: 'red.50', color: 'red.700' },
+  unknown: { mark: '?', bg: 'gray.100', color: 'gray.600' }
+}
+
+// "15% below the median price · rating above median"; nothing when both sit near the median
+function medianSummary(reasons: MatchReasons): string | null {
+  const parts: string[] = []
+  const { price, rating } = reasons
+  if (price && price.position !== 'near') {
+    parts.push(`${Math.round(Math.abs(price.ratio - 1) * 100)}% ${price.position} median price`)
+  }
+  if (rating && rating.position !== 'near') parts.push(`rating ${rating.position} median`)
+  return parts.length ? parts.join(' · ') : null
+}
+
+// Compact "matches: hot tub ✓, 3BR ✓, price ✗" row; the detail is in each badge's tooltip
+export const MatchBadges = React.memo(({ reasons }: { reasons?: MatchReasons }) => {
+  if (!reasons) return null
+  const summary = medianSummary(reasons)
+  if (!reasons.constraints.length && !summary) return null
+
+  return (
+    <Flex wrap="wrap" gap={1} align="center">
+      {reasons.constraints.length > 0 && (
+        <Text fontSize="xs" color="gray.500">matches:</Text>
+      )}
+      {reasons.constraints.map(match => {
+        const style = STATUS_STYLE[match.status]
+        return (
+          <Box
+            key={`${match.constraint}-${match.label}`}
+            px={1.5}
+            borderRadius="md"
+            fontSize="xs"
+            bg={style.bg}
+            color={style.color}
+            title={match.detail}
+          >
+            {match.label} {style.mark}
+          </Box>
+        )
+      })}
+      {summary && (
+        <Text fontSize="xs" color="gray.500" w="full">{summary}</Text>
+      )}
+    </Flex>
+  )
+})
+
+MatchBadges.displayName = 'MatchBadges'
@@ -1,4 +1,3 @@
-import { useState, useEffect } from 'react'
 import {
   Box,
   Text,
@@ -13,58 +12,62 @@ import {
   Search, 
   Star, 
   CheckCircle2, 
-  Clock,
+  AlertCircle,
   Sparkles
 } from 'lucide-react'
+import type { ProviderProgress } from '../types'
+import { platformLabel } from '../utils/platforms'
 
-interface LoadingStep {
+interface ProgressStep {
   id: string
   message: string
-  duration: number
-  completed: boolean
+  state: 'active' | 'completed' | 'failed'
 }
 
 interface OptimisticSearchMessageProps {
   location: string
   estimatedResults: number
-  loadingSteps: LoadingStep[]
-  onStepsComplete?: () => void
+  // Live per-provider progress reported by the search stream
+  providers: ProviderProgress[]
+  listingsFound: number
+}
+
+function providerStep(provider: ProviderProgress): ProgressStep {
+  const label = platformLabel(provider.platform)
+  switch (provider.status) {
+    case 'pending':
+      return { id: provider.platform, message: `Searching ${label}…`, state: 'active' }
+    case 'success':
+      return { id: provider.platform, message: `${label}: ${provider.count} listings`, state: 'completed' }
+    case 'timeout':
+      return { id: provider.platform, message: `${label} took too long to respond`, state: 'failed' }
+    case 'skipped':
+      return provider.reason === 'over_budget'
+        ? { id: provider.platform, message: `${label} skipped to stay within the cost budget`, state: 'failed' }
+        : { id: provider.platform, message: `${label} is paused after repeated failures`, state: 'failed' }
+    default:
+      return { id: provider.platform, message: `${label} is unavailable right now`, state: 'failed' }
+  }
 }
 
 export function OptimisticSearchMessage({ 
   location, 
   estimatedResults, 
-  loadingSteps: initialSteps,
-  onStepsComplete 
+  providers,
+  listingsFound
 }: OptimisticSearchMessageProps) {
-  const [steps, setSteps] = useState(initialSteps)
-  const [currentStepIndex, setCurrentStepIndex] = useState(0)
-
-  useEffect(() => {
-    if (currentStepIndex >= steps.length) {
-      onStepsComplete?.()
-      return
-    }
-
-    const currentStep = steps[currentStepIndex]
-    const timer = setTimeout(() => {
-      // Mark current step as completed
-      setSteps(prev => prev.map((step, index) => 
-        index === currentStepIndex 
-          ? { ...step, completed: true }
-          : step
-      ))
+  // The server starts providers only after it has understood the query
+  const steps: ProgressStep[] = [
+    {
+      id: 'understand',
+      message: 'Understanding your request',
+      state: providers.length > 0 ? 'completed' : 'active'
+    },
+    ...providers.map(providerStep)
+  ]
 
-      // Move to next step
-      setCurrentStepIndex(prev => prev + 1)
-
-    }, currentStep.duration)
-
-    return () => clearTimeout(timer)
-  }, [currentStepIndex, steps.length, onStepsComplete])
-
-  const completedSteps = steps.filter(step => step.completed).length
-  const progressPercentage = (completedSteps / steps.length) * 100
+  const finishedSteps = steps.filter(step => step.state !== 'active').length
+  const progressPercentage = (finishedSteps / steps.length) * 100
 
   return (
     <Box
@@ -78,7 +81,7 @@ export function OptimisticSearchMessage({
       overflow="hidden"
     >
       <VStack gap={4} align="stretch">
-        {/* Header with location and estimated results */}
+        {/* Header with location and results found so far */}
         <HStack justify="space-between" align="center">
           <HStack gap={3}>
             <Box
@@ -107,7 +110,7 @@ export function OptimisticSearchMessage({
             py={1}
             borderRadius="full"
           >
-            ~{estimatedResults} properties
+            {listingsFound > 0 ? `${listingsFound} found` : `~${estimatedResults} properties`}
           </Badge>
         </HStack>
 
@@ -138,44 +141,44 @@ export function OptimisticSearchMessage({
           </Box>
         </Box>
 
-        {/* Loading steps */}
+        {/* Progress steps */}
         <VStack gap={3} align="stretch">
-          {steps.map((step, index) => (
+          {steps.map((step) => (
             <HStack
               key={step.id}
               gap={3}
               p={3}
-              bg={step.completed ? "green.50" : index === currentStepIndex ? "blue.50" : "gray.50"}
+              bg={step.state === 'completed' ? "green.50" : step.state === 'failed' ? "orange.50" : "blue.50"}
               borderRadius="lg"
               transition="all 0.3s ease"
-              border={index === currentStepIndex ? "2px solid" : "1px solid"}
+              border={step.state === 'active' ? "2px solid" : "1px solid"}
               borderColor={
-                step.completed 
+                step.state === 'completed' 
                   ? "green.200" 
-                  : index === currentStepIndex 
-                    ? "blue.200" 
-                    : "gray.200"
+                  : step.state === 'failed' 
+                    ? "orange.200" 
+                    : "blue.200"
               }
             >
               {/* Step icon */}
               <Box minW="24px">
-                {step.completed ? (
+                {step.state === 'completed' ? (
                   <Icon 
                     as={CheckCircle2} 
                     boxSize={5} 
                     color="green.600"
                   />
-                ) : index === currentStepIndex ? (
+                ) : step.state === 'failed' ? (
+                  <Icon 
+                    as={AlertCircle} 
+                    boxSize={5} 
+                    color="orange.500"
+                  />
+                ) : (
                   <Spinner 
                     size="sm" 
                     color="blue.600"
                   />
-                ) : (
-                  <Icon 
-                    as={Clock} 
-                    boxSize={5} 
-                    color="gray.400"
-                  />
                 )}
               </Box>
 
@@ -183,27 +186,17 @@ export function OptimisticSearchMessage({
               <Text
                 fontSize="sm"
                 color={
-                  step.completed 
+                  step.state === 'completed' 
                     ? "green.700" 
-                    : index === currentStepIndex 
-                      ? "blue.700" 
-                      : "gray.600"
+                    : step.state === 'failed' 
+                      ? "orange.700" 
+                      : "blue.700"
                 }
-                fontWeight={index === currentStepIndex ? "medium" : "normal"}
+                fontWeight={step.state === 'active' ? "medium" : "normal"}
                 flex={1}
               >
                 {step.message}
               </Text>
-
-              {/* Step status indicator */}
-              {index === currentStepIndex && !step.completed && (
-                <Box
-                  w="8px"
-                  h="8px"
-                  bg="blue.400"
-                  borderRadius="full"
-                />
-              )}
             </HStack>
           ))}
         </VStack>
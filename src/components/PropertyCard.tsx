@@ -24,7 +24,11 @@ import {
   ChevronDown, 
   ChevronUp 
 } from 'lucide-react'
-import type { AirbnbListing } from '../types'
+import type { AirbnbListing, ListingOffer } from '../types'
+import { platformLabel } from '../utils/platforms'
+import { MatchBadges } from './MatchBadges'
+import { formatNightlyRate, formatOriginalPrice, formatStayTotal } from '../utils/formatPrice'
+import { fetchReviewInsights, sentimentLabel } from '../utils/reviewInsights'
 
 interface PropertyCardProps {
   listing: AirbnbListing
@@ -35,6 +39,7 @@ interface ReviewInsightsState {
   isOpen: boolean
   data: AirbnbListing['reviewInsights'] | null
   isLoading: boolean
+  error: string | null
 }
 
 // Memoized sub-components for better performance
@@ -96,16 +101,65 @@ const PropertyDetails = React.memo(({
   )
 })
 
+// Same property on several platforms: one row per platform, cheapest first
+const PlatformOffers = React.memo(({ offers }: { offers?: ListingOffer[] }) => {
+  const handleOfferClick = useCallback((e: React.MouseEvent, url: string) => {
+    e.stopPropagation()
+    window.open(url, '_blank')
+  }, [])
+
+  if (!offers || offers.length < 2) return null
+
+  const cheapest = offers[0]
+  // Offers are ranked by stay total, so compare totals where the platforms quote them
+  const stayPrice = (offer: ListingOffer) => offer.price.total || offer.price.rate
+  const hasPriceGap = offers.some(offer => stayPrice(offer) > stayPrice(cheapest))
+
+  return (
+    <VStack align="stretch" gap={1} p={2} bg="gray.50" borderRadius="md">
+      <Text fontSize="xs" fontWeight="semibold" color="gray.600">
+        Available on {offers.length} platforms
+      </Text>
+      {offers.map((offer) => (
+        <HStack
+          key={`${offer.platform}-${offer.id}`}
+          justify="space-between"
+          cursor="pointer"
+          onClick={(e) => handleOfferClick(e, offer.url)}
+          _hover={{ color: 'blue.600' }}
+        >
+          <HStack gap={2}>
+            <Text fontSize="xs">{platformLabel(offer.platform)}</Text>
+            {hasPriceGap && offer === cheapest && (
+              <Badge colorScheme="green" size="sm" variant="subtle">
+                Best price
+              </Badge>
+            )}
+          </HStack>
+          <HStack gap={1}>
+            <Text fontSize="xs" fontWeight="medium">
+              {offer.price.rate ? formatNightlyRate(offer.price) : 'See price'}
+            </Text>
+            <Icon as={ExternalLink} w={3} h={3} color="blue.500" />
+          </HStack>
+        </HStack>
+      ))}
+    </VStack>
+  )
+})
+
 const ReviewInsightsSection = React.memo(({ 
   insights,
   isOpen,
   isLoading,
+  error,
   onToggle,
   onLoad
 }: {
   insights: AirbnbListing['reviewInsights'] | null
   isOpen: boolean
   isLoading: boolean
+  error: string | null
   onToggle: () => void
   onLoad: () => void
 }) => {
@@ -141,8 +195,21 @@ const ReviewInsightsSection = React.memo(({
         
       {isOpen && (
         <VStack align="stretch" gap={2} mt={2} p={3} bg="gray.50" borderRadius="md">
-          {insights ? (
+          {error ? (
+            <Text fontSize="xs" color="red.600" textAlign="center">
+              {error}
+            </Text>
+          ) : insights?.reviewsAnalyzed === 0 ? (
+            <Text fontSize="xs" color="gray.500" textAlign="center">
+              No reviews to analyze yet
+            </Text>
+          ) : insights ? (
             <>
+              <Text fontSize="xs" color="gray.600">
+                {sentimentLabel(insights.overallSentiment)}
+                {insights.reviewsAnalyzed ? ` · ${insights.reviewsAnalyzed} recent reviews` : ''}
+              </Text>
+
               {/* Negative Insights */}
               {insights.negativeInsights?.length > 0 && (
                 <Box>
@@ -210,11 +277,16 @@ export const PropertyCard = React.memo(({
   const [reviewState, setReviewState] = useState<ReviewInsightsState>({
     isOpen: false,
     data: listing.reviewInsights || null,
-    isLoading: false
+    isLoading: false,
+    error: null
   })
 
   // Memoized expensive calculations
-  const priceDisplay = useMemo(() => `$${listing.price.rate}`, [listing.price.rate])
+  const priceDisplay = useMemo(() => ({
+    rate: formatNightlyRate(listing.price),
+    total: formatStayTotal(listing.price),
+    original: formatOriginalPrice(listing.price)
+  }), [listing.price])
   
   const ratingDisplay = useMemo(() => ({
     rating: listing.rating,
@@ -246,30 +318,24 @@ export const PropertyCard = React.memo(({
   const loadReviewInsights = useCallback(async () => {
     if (reviewState.data || reviewState.isLoading) return
     
-    setReviewState(prev => ({ ...prev, isLoading: true }))
+    setReviewState(prev => ({ ...prev, isLoading: true, error: null }))
     
     try {
-      // Feature removed; keep UI responsive
-      const data = {
-        success: true,
-        reviewInsights: {
-          summary: 'Recent guests mentioned clean rooms and responsive hosts.',
-          positives: ['Clean', 'Great location', 'Responsive host'],
-          negatives: ['Occasional street noise']
-        }
-      }
+      const { insights } = await fetchReviewInsights(listing)
       setReviewState(prev => ({ 
         ...prev, 
-        data: (data as any).reviewInsights,
+        data: insights,
         isLoading: false 
       }))
-      return
     } catch (error) {
       console.error('Failed to load review insights:', error)
+      setReviewState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Review insights failed'
+      }))
     }
-    
-    setReviewState(prev => ({ ...prev, isLoading: false }))
-  }, [listing.id, listing.url, reviewState.data, reviewState.isLoading])
+  }, [listing, reviewState.data, reviewState.isLoading])
 
   return (
     <Box
@@ -351,10 +417,15 @@ export const PropertyCard = React.memo(({
           bathrooms={listing.bathrooms} 
         />
         
+        <MatchBadges reasons={listing.matchReasons} />
+        
+        <PlatformOffers offers={listing.offers} />
+        
         <ReviewInsightsSection
           insights={reviewState.data}
           isOpen={reviewState.isOpen}
           isLoading={reviewState.isLoading}
+          error={reviewState.error}
           onToggle={handleReviewToggle}
           onLoad={loadReviewInsights}
         />
@@ -362,11 +433,21 @@ export const PropertyCard = React.memo(({
         <Flex justify="space-between" align="center">
           <VStack align="start" gap={0}>
             <Text fontWeight="bold" fontSize="lg">
-              {priceDisplay}
+              {priceDisplay.rate}
             </Text>
             <Text fontSize="xs" color="gray.500">
               per night
             </Text>
+            {priceDisplay.total && (
+              <Text fontSize="xs" color="gray.600">
+                {priceDisplay.total}
+              </Text>
+            )}
+            {priceDisplay.original && (
+              <Text fontSize="xs" color="gray.400">
+                {priceDisplay.original}
+              </Text>
+            )}
           </VStack>
           
           <Button
@@ -389,9 +470,13 @@ export const PropertyCard = React.memo(({
   return (
     prevProps.listing.id === nextProps.listing.id &&
     prevProps.listing.price.rate === nextProps.listing.price.rate &&
+    prevProps.listing.price.total === nextProps.listing.price.total &&
+    prevProps.listing.price.currency === nextProps.listing.price.currency &&
     prevProps.listing.rating === nextProps.listing.rating &&
     prevProps.listing.reviewsCount === nextProps.listing.reviewsCount &&
     prevProps.listing.trustScore === nextProps.listing.trustScore &&
+    prevProps.listing.offers?.length === nextProps.listing.offers?.length &&
+    prevProps.listing.matchReasons === nextProps.listing.matchReasons &&
     prevProps.onListingClick === nextProps.onListingClick
   )
 })
@@ -399,4 +484,5 @@ export const PropertyCard = React.memo(({
 PropertyCard.displayName = 'PropertyCard'
 TrustScoreBadge.displayName = 'TrustScoreBadge'
 PropertyDetails.displayName = 'PropertyDetails'
+PlatformOffers.displayName = 'PlatformOffers'
 ReviewInsightsSection.displayName = 'ReviewInsightsSection'
@@ -98,6 +98,7 @@ export const ResultsPanel = React.memo(({
     prevProps.listings.every((listing, index) => 
       listing.id === nextProps.listings[index]?.id &&
       listing.price.rate === nextProps.listings[index]?.price.rate &&
+      listing.price.currency === nextProps.listings[index]?.price.currency &&
       listing.rating === nextProps.listings[index]?.rating
     )
   )
@@ -7,6 +7,13 @@ export const SEARCH_CONFIG = {
   // Search history limits
   MAX_SEARCH_HISTORY_ITEMS: 50,
   
+  // Display currencies; the server accepts the codes in api/data/exchange-rates.json
+  DEFAULT_CURRENCY: 'USD',
+  CURRENCIES: ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'MXN', 'BRL', 'INR', 'SEK', 'NOK', 'DKK', 'ZAR', 'SGD', 'HKD', 'THB'],
+  
+  // Days either way the date editor compares prices for (the API allows up to 7)
+  FLEXIBLE_DAYS: 3,
+  
   // UI interaction delays
   SEARCH_DEBOUNCE_MS: 150,
   
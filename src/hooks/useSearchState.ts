@@ -1,6 +1,7 @@
 import { useReducer, useMemo } from 'react'
-import type { AirbnbListing, SearchContext, ChatMessage, SearchHistory, LocationValidation } from '../types'
+import type { AirbnbListing, SearchContext, ChatMessage, SearchHistory, LocationValidation, ProviderProgress, FlexibleDates } from '../types'
 import type { RefinementSuggestion } from '../utils/refinementAnalyzer'
+import { SEARCH_CONFIG } from '../config/constants'
 
 // Consolidated state interface
 export interface SearchState {
@@ -14,11 +15,18 @@ export interface SearchState {
   currentQuery: string
   currentPage: number
   hasMore: boolean
+  // Opaque token from /api/search for the next page; null once every provider is exhausted
+  nextCursor: string | null
+  // Prices are requested in this currency; kept across new chats
+  currency: string
   
   // Filters and refinement
   quickFilters: RefinementSuggestion[]
   currentDates: { checkin?: string; checkout?: string; flexible?: boolean } | null
   currentPriceRange: { min?: number; max?: number; budget?: string } | null
+  // Prices of nearby dates for the date editor; loaded when it opens
+  flexibleDates: FlexibleDates | null
+  loadingFlexibleDates: boolean
   
   // UI state
   loading: boolean
@@ -59,6 +67,7 @@ export type SearchAction =
   | { type: 'SEARCH_SUCCESS'; payload: { 
       results: AirbnbListing[]
       hasMore: boolean
+      nextCursor?: string | null
       page: number
       context?: SearchContext
       filters?: RefinementSuggestion[]
@@ -69,17 +78,23 @@ export type SearchAction =
   | { type: 'LOAD_MORE_SUCCESS'; payload: { 
       results: AirbnbListing[]
       hasMore: boolean
+      nextCursor: string | null
       page: number
     }}
   | { type: 'SET_SEARCH_CONTEXT'; payload: SearchContext | null }
+  | { type: 'SET_CURRENCY'; payload: string }
   | { type: 'SET_QUICK_FILTERS'; payload: RefinementSuggestion[] }
   | { type: 'SET_CURRENT_DATES'; payload: { checkin?: string; checkout?: string; flexible?: boolean } | null }
   | { type: 'SET_CURRENT_PRICE_RANGE'; payload: { min?: number; max?: number; budget?: string } | null }
+  | { type: 'FLEXIBLE_DATES_START' }
+  | { type: 'FLEXIBLE_DATES_SUCCESS'; payload: FlexibleDates | null }
   | { type: 'ADD_TO_HISTORY'; payload: { query: string; resultCount: number } }
   | { type: 'CLEAR_HISTORY' }
   | { type: 'LOAD_HISTORY'; payload: SearchHistory[] }
   | { type: 'START_NEW_CHAT' }
   | { type: 'REPLACE_OPTIMISTIC_MESSAGE'; payload: ChatMessage }
+  | { type: 'UPDATE_OPTIMISTIC_PROGRESS'; payload: { providers: ProviderProgress[]; listingsFound: number } }
+  | { type: 'STREAM_RESULTS'; payload: { results: AirbnbListing[]; replace: boolean } }
 
 // Initial state
 const initialState: SearchState = {
@@ -93,11 +108,15 @@ const initialState: SearchState = {
   currentQuery: '',
   currentPage: 1,
   hasMore: false,
+  nextCursor: null,
+  currency: SEARCH_CONFIG.DEFAULT_CURRENCY,
   
   // Filters and refinement
   quickFilters: [],
   currentDates: null,
   currentPriceRange: null,
+  flexibleDates: null,
+  loadingFlexibleDates: false,
   
   // UI state
   loading: false,
@@ -119,6 +138,12 @@ const initialState: SearchState = {
   lastQueryAnalysis: null
 }
 
+// Every platform listing a result stands for, so merged listings dedupe against any of their offers
+const listingKeys = (listing: AirbnbListing): string[] => [
+  `${listing.platform || 'airbnb'}:${listing.id}`,
+  ...(listing.offers || []).map(offer => `${offer.platform}:${offer.id}`)
+]
+
 // Consolidated reducer for all state management
 const searchReducer = (state: SearchState, action: SearchAction): SearchState => {
   switch (action.type) {
@@ -186,9 +211,11 @@ const searchReducer = (state: SearchState, action: SearchAction): SearchState =>
         loading: false,
         results: action.payload.results,
         hasMore: action.payload.hasMore,
+        nextCursor: action.payload.nextCursor ?? null,
         currentPage: action.payload.page,
         showResults: true,
-        ...(action.payload.context && { context: action.payload.context }),
+        // Nearby-date prices belong to the search they were loaded for
+        ...(action.payload.context && { context: action.payload.context, flexibleDates: null }),
         ...(action.payload.filters && { quickFilters: action.payload.filters }),
         ...(action.payload.dates !== undefined && { currentDates: action.payload.dates }),
         ...(action.payload.priceRange !== undefined && { currentPriceRange: action.payload.priceRange })
@@ -200,16 +227,24 @@ const searchReducer = (state: SearchState, action: SearchAction): SearchState =>
         loading: false
       }
     
-    case 'LOAD_MORE_SUCCESS':
+    case 'LOAD_MORE_SUCCESS': {
+      // A listing can come back on a later page (or on another platform's page) once already shown
+      const seen = new Set(state.results.flatMap(listingKeys))
+      const fresh = action.payload.results.filter(listing => !listingKeys(listing).some(key => seen.has(key)))
       return {
         ...state,
-        results: [...state.results, ...action.payload.results],
+        results: [...state.results, ...fresh],
         hasMore: action.payload.hasMore,
+        nextCursor: action.payload.nextCursor,
         currentPage: action.payload.page
       }
+    }
     
     case 'SET_SEARCH_CONTEXT':
-      return { ...state, context: action.payload }
+      return { ...state, context: action.payload, flexibleDates: null }
+    
+    case 'SET_CURRENCY':
+      return { ...state, currency: action.payload }
     
     case 'SET_QUICK_FILTERS':
       return { ...state, quickFilters: action.payload }
@@ -220,6 +255,12 @@ const searchReducer = (state: SearchState, action: SearchAction): SearchState =>
     case 'SET_CURRENT_PRICE_RANGE':
       return { ...state, currentPriceRange: action.payload }
     
+    case 'FLEXIBLE_DATES_START':
+      return { ...state, flexibleDates: null, loadingFlexibleDates: true }
+    
+    case 'FLEXIBLE_DATES_SUCCESS':
+      return { ...state, flexibleDates: action.payload, loadingFlexibleDates: false }
+    
     case 'ADD_TO_HISTORY':
       const newHistoryItem: SearchHistory = {
         id: Date.now().toString(),
@@ -252,13 +293,15 @@ const searchReducer = (state: SearchState, action: SearchAction): SearchState =>
         showResults: false,
         currentPage: 1,
         hasMore: false,
+        nextCursor: null,
         currentQuery: '',
         searchQuery: '',
         context: null,
         lastQueryAnalysis: null,
         quickFilters: [],
         currentDates: null,
-        currentPriceRange: null
+        currentPriceRange: null,
+        flexibleDates: null
       }
     
     case 'REPLACE_OPTIMISTIC_MESSAGE':
@@ -271,6 +314,33 @@ const searchReducer = (state: SearchState, action: SearchAction): SearchState =>
         ).filter(msg => !msg.isOptimistic || msg.id === action.payload.id)
       }
     
+    case 'UPDATE_OPTIMISTIC_PROGRESS':
+      return {
+        ...state,
+        messages: state.messages.map(msg =>
+          msg.isOptimistic && msg.optimisticData
+            ? { ...msg, optimisticData: { ...msg.optimisticData, ...action.payload } }
+            : msg
+        )
+      }
+
+    case 'STREAM_RESULTS': {
+      // Partial results from a streamed search; the final ranked list arrives via SEARCH_SUCCESS
+      const base = action.payload.replace ? [] : state.results
+      const seen = new Set(base.map(l => l.url || l.id))
+      const incoming = action.payload.results.filter(l => {
+        const key = l.url || l.id
+        if (!key || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      return {
+        ...state,
+        results: [...base, ...incoming],
+        showResults: true
+      }
+    }
+
     default:
       return state
   }
@@ -299,6 +369,7 @@ export const useSearchState = () => {
     searchSuccess: (payload: { 
       results: AirbnbListing[]
       hasMore: boolean
+      nextCursor?: string | null
       page: number
       context?: SearchContext
       filters?: RefinementSuggestion[]
@@ -309,17 +380,23 @@ export const useSearchState = () => {
     loadMoreSuccess: (payload: { 
       results: AirbnbListing[]
       hasMore: boolean
+      nextCursor: string | null
       page: number
     }) => dispatch({ type: 'LOAD_MORE_SUCCESS', payload }),
     setSearchContext: (context: SearchContext | null) => dispatch({ type: 'SET_SEARCH_CONTEXT', payload: context }),
+    setCurrency: (currency: string) => dispatch({ type: 'SET_CURRENCY', payload: currency }),
     setQuickFilters: (filters: RefinementSuggestion[]) => dispatch({ type: 'SET_QUICK_FILTERS', payload: filters }),
     setCurrentDates: (dates: { checkin?: string; checkout?: string; flexible?: boolean } | null) => dispatch({ type: 'SET_CURRENT_DATES', payload: dates }),
     setCurrentPriceRange: (priceRange: { min?: number; max?: number; budget?: string } | null) => dispatch({ type: 'SET_CURRENT_PRICE_RANGE', payload: priceRange }),
+    flexibleDatesStart: () => dispatch({ type: 'FLEXIBLE_DATES_START' }),
+    flexibleDatesSuccess: (flexibleDates: FlexibleDates | null) => dispatch({ type: 'FLEXIBLE_DATES_SUCCESS', payload: flexibleDates }),
     addToHistory: (query: string, resultCount: number) => dispatch({ type: 'ADD_TO_HISTORY', payload: { query, resultCount } }),
     clearHistory: () => dispatch({ type: 'CLEAR_HISTORY' }),
     loadHistory: (history: SearchHistory[]) => dispatch({ type: 'LOAD_HISTORY', payload: history }),
     startNewChat: () => dispatch({ type: 'START_NEW_CHAT' }),
-    replaceOptimisticMessage: (message: ChatMessage) => dispatch({ type: 'REPLACE_OPTIMISTIC_MESSAGE', payload: message })
+    replaceOptimisticMessage: (message: ChatMessage) => dispatch({ type: 'REPLACE_OPTIMISTIC_MESSAGE', payload: message }),
+    updateOptimisticProgress: (providers: ProviderProgress[], listingsFound: number) => dispatch({ type: 'UPDATE_OPTIMISTIC_PROGRESS', payload: { providers, listingsFound } }),
+    streamResults: (results: AirbnbListing[], replace: boolean) => dispatch({ type: 'STREAM_RESULTS', payload: { results, replace } })
   }), [])
   
   return { state, actions }
@@ -19,16 +19,13 @@ export interface AirbnbListing {
   name: string
   url: string
   images: string[]
-  price: {
-    total: number
-    rate: number
-    currency: string
-  }
+  price: ListingPrice
   rating: number
   reviewsCount: number
   location: {
     city: string
     country: string
+    coordinates?: { lat: number; lng: number }
   }
   host: {
     name: string
@@ -38,6 +35,8 @@ export interface AirbnbListing {
   roomType: string
   propertyType?: string
   platform?: string
+  // Same property found on several platforms, cheapest first (only set when merged)
+  offers?: ListingOffer[]
   // Enhanced property details
   bedrooms?: number
   bathrooms?: number
@@ -45,34 +44,292 @@ export interface AirbnbListing {
   maxGuests?: number
   // Review insights
   trustScore?: number // 0-100 score based on rating and review count
-  reviewInsights?: {
-    positiveHighlights: string[]
-    negativeInsights: string[]
-    commonConcerns: string[]
-    overallSentiment: 'positive' | 'mixed' | 'negative'
+  reviewInsights?: ReviewInsights // Loaded on demand from /api/reviews
+  // Why the listing matched: set by /api/search on every returned listing
+  matchReasons?: MatchReasons
+}
+
+export type MatchStatus = 'satisfied' | 'violated' | 'unknown'
+
+export type MedianPosition = 'below' | 'near' | 'above'
+
+export interface MatchReasons {
+  // One entry per constraint the query set, one per requested amenity
+  constraints: {
+    constraint: 'price' | 'guests' | 'bedrooms' | 'bathrooms' | 'beds' | 'amenities' | 'rating' | 'superhost'
+    status: MatchStatus
+    label: string // Badge text, e.g. "hot tub", "3BR", "price"
+    detail: string // The listing's value, e.g. "Sleeps 4"
+  }[]
+  // Stay price and rating against the medians of the whole result set
+  price?: { value: number; median: number; ratio: number; position: MedianPosition }
+  rating?: { value: number; median: number; difference: number; position: MedianPosition }
+}
+
+// Normalized by /api/search: converted to the requested currency, with a stay total
+export interface ListingPrice {
+  rate: number // Per night
+  total: number // nights × rate + fees and taxes, or the platform's own stay total; one night without dates
+  currency: string // ISO 4217, e.g. "EUR"
+  nights?: number // Absent without stay dates
+  fees?: { cleaning?: number; service?: number; taxes?: number } // Whole stay
+  taxesIncluded?: boolean // False when taxes may still be added at checkout
+  original?: { rate: number; total: number; currency: string } // As the platform quoted it
+}
+
+export interface ListingOffer {
+  platform: string
+  id: string
+  url: string
+  price: ListingPrice
+}
+
+export type ReviewAspect = 'cleanliness' | 'noise' | 'location' | 'host' | 'accuracy'
+
+// Analyzed locally from the listing's reviews by /api/reviews; `summary` only when an LLM summary was asked for
+export interface ReviewInsights {
+  positiveHighlights: string[]
+  negativeInsights: string[]
+  commonConcerns: string[]
+  overallSentiment: 'positive' | 'mixed' | 'negative'
+  score?: number // Recency-weighted sentiment, -1 to 1
+  aspects?: {
+    aspect: ReviewAspect
+    label: string
+    score: number // -1 to 1
+    mentions: number // Reviews naming the aspect
+    positive: number
+    negative: number
+    quote?: string
+  }[]
+  reviewsAnalyzed?: number
+  newestReview?: string
+  summary?: { text: string; model: string; generatedAt: string }
+}
+
+export interface ListingReview {
+  id: string
+  text: string
+  date?: string
+  rating?: number // Out of 5
+  author?: string
+  language?: string
+}
+
+// GET /api/reviews/:platform/:id
+export interface ReviewInsightsResponse {
+  platform: string
+  id: string
+  insights: ReviewInsights
+  recentReviews: ListingReview[]
+}
+
+// GET /api/listing/:platform/:id; fields a platform does not publish are left out
+export interface ListingDetails {
+  id: string
+  platform: string
+  name: string
+  url: string
+  description?: string
+  propertyType?: string
+  roomType?: string
+  maxGuests?: number
+  bedrooms?: number
+  bathrooms?: number
+  beds?: number
+  amenities: string[] // Every amenity the platform lists, in its own words
+  houseRules: string[]
+  checkIn?: string // As the platform words it, e.g. "3:00 PM - 10:00 PM"
+  checkOut?: string
+  cancellationPolicy?: { name: string; description?: string }
+  sleepingArrangements: { room: string; beds: { type: string; count: number }[] }[]
+  photos: { url: string; caption?: string }[]
+  host?: {
+    name: string
+    isSuperhost?: boolean
+    memberSince?: number // Year the host joined the platform
+    yearsHosting?: number
+  }
+  location: {
+    city?: string
+    country?: string
+    coordinates?: { lat: number; lng: number }
   }
+  rating?: number
+  reviewsCount?: number
+  fetchedAt: string
+}
+
+// GET /api/calendar/:platform/:id; nights from `from` through `to`
+export interface ListingCalendar {
+  id: string
+  platform: string
+  currency: string // Of the nightly prices, which are before fees
+  from: string
+  to: string
+  days: {
+    date: string
+    available: boolean
+    price?: number
+    minNights?: number // Shortest stay that may start on `date`
+    checkinAllowed?: boolean
+    checkoutAllowed?: boolean
+  }[]
+  fetchedAt: string
+}
+
+// A stay of the requested length shifted `shift` days, priced across the compared listings
+export interface FlexibleWindow {
+  checkin: string
+  checkout: string
+  shift: number
+  available: number // Compared listings bookable for the whole window
+  cheapest?: { id: string; platform: string; name?: string; total: number }
+  medianTotal?: number
+}
+
+// `flexibleDates` of a search sent with `flexibleDays`; prices are nightly rates before fees
+export interface FlexibleDates {
+  days: number
+  nights: number
+  currency: string
+  compared: number // Listings whose calendars could be compared
+  requested: FlexibleWindow
+  windows: FlexibleWindow[] // Bookable windows, cheapest first
+  nightly: { date: string; available: number; cheapest?: number; median?: number }[]
+}
+
+// Ranking modes accepted by /api/search as `sort`
+export type SortMode = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'trust' | 'value' | 'distance'
+
+// Body of POST /api/search; unknown fields are ignored
+export interface SearchRequest {
+  query: string // At most 500 characters; with `context`, a follow-up such as "make it 4 guests" (may be empty)
+  context?: SearchContext // `context` of the previous response
+  stream?: boolean
+  sort?: SortMode
+  cursor?: string | null // `nextCursor` of the previous response
+  page?: number // Only 1 without a cursor; later pages are addressed by the cursor
+  maxResults?: number // 1-100, default 40
+  timeZone?: string // IANA name; resolves relative dates such as "next weekend"
+  currency?: string // ISO 4217 code listing prices are converted to, default USD
+  flexibleDays?: number // 1-7; also compare the stay shifted this many days either way (dated searches only)
+}
+
+// Machine-readable `code` of an API error; branch on it rather than on the message
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'QUERY_REQUIRED'
+  | 'QUERY_TOO_LONG'
+  | 'INVALID_SORT'
+  | 'INVALID_CURSOR'
+  | 'INVALID_PAGE'
+  | 'INVALID_MAX_RESULTS'
+  | 'INVALID_TIME_ZONE'
+  | 'INVALID_CONTEXT'
+  | 'INVALID_CURRENCY'
+  | 'INVALID_FLEXIBLE_DAYS'
+  | 'LOCATION_MISSING'
+  | 'INVALID_DATES'
+  | 'UNKNOWN_PLATFORM'
+  | 'LISTING_NOT_FOUND'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'RATE_LIMITED'
+  | 'ALL_PROVIDERS_FAILED'
+  | 'DETAILS_UNAVAILABLE'
+  | 'REVIEWS_UNAVAILABLE'
+  | 'CALENDAR_UNAVAILABLE'
+  | 'INTERNAL_ERROR'
+
+export interface ApiErrorResponse {
+  error: string
+  code: ApiErrorCode
+  requestId?: string
+  retryAfter?: number // Seconds, with RATE_LIMITED
+}
+
+export interface SearchCost {
+  currency: 'USD'
+  spentUsd: number
+  requestBudgetUsd: number | null
+  daySpentUsd: number | null
+  dayBudgetUsd: number | null
+  degraded: ('llm_skipped' | 'premium_proxy_dropped' | 'proxy_dropped' | 'serpapi_skipped')[]
+  calls: { service: 'llm' | 'scrapingbee' | 'serpapi'; usd: number; detail?: string }[]
 }
 
 export interface SearchResponse {
+  // Also sent as the X-Request-Id header; keys the orchestration trace behind /api/trace
+  requestId?: string
   listings: AirbnbListing[]
   hasMore: boolean
   totalResults: number
   page: number
+  // Opaque token to send back as `cursor` for the next page; null when hasMore is false
+  nextCursor?: string | null
   searchUrl?: string
   source?: string
+  sort?: SortMode
+  // Every listing price is in this currency, converted with rates from `ratesUpdatedAt`
+  currency?: string
+  ratesUpdatedAt?: string
+  // Structured state of this search; send it back with the next utterance to refine it
+  context?: SearchContext | null
+  // What the utterance changed in the context it was sent with
+  changes?: ContextChange[]
+  // Post-provider filter stage: listings removed per constraint (price, guests, bedrooms, amenities, rating, ...)
+  filtered?: {
+    before: number
+    after: number
+    removed: Partial<Record<'price' | 'guests' | 'bedrooms' | 'bathrooms' | 'beds' | 'amenities' | 'rating' | 'superhost', number>>
+  }
   dates?: {
     checkin?: string
     checkout?: string
     flexible?: boolean
+    inferred?: boolean // Resolved from phrases like "next weekend" rather than typed dates
   }
+  // With `flexibleDays`: the same stay shifted around `dates`, priced from listing calendars
+  flexibleDates?: FlexibleDates
+  // Estimated USD spent on paid APIs (LLM, ScrapingBee, SerpAPI) and what was skipped to stay within budget
+  cost?: SearchCost
   sources?: {
     platform: string
     count: number
-    status: 'success' | 'error' | 'timeout'
+    status: 'success' | 'error' | 'timeout' | 'skipped'
     error?: string
+    reason?: 'circuit_open' | 'over_budget' // Why a provider was skipped: it kept failing and is cooling down, or its paid call would exceed the cost budget
+    attempts?: number // Calls made, including retries
+    exhausted?: boolean // No further pages from this provider
+    cache?: 'hit' | 'miss' | 'bypass' // Served from the provider response cache
   }[]
 }
 
+// Live per-provider progress while a streamed search is running
+export interface ProviderProgress {
+  platform: string
+  status: 'pending' | 'success' | 'error' | 'timeout' | 'skipped'
+  count: number
+  reason?: 'circuit_open' | 'over_budget'
+}
+
+// Newline-delimited JSON events sent by /api/search when called with `stream: true`
+export type SearchStreamEvent =
+  | { type: 'provider_start'; platform: string }
+  | {
+      type: 'provider'
+      platform: string
+      status: 'success' | 'error' | 'timeout' | 'skipped'
+      count: number
+      error?: string
+      reason?: 'circuit_open' | 'over_budget'
+      listings: AirbnbListing[]
+    }
+  | ({ type: 'done' } & Partial<SearchResponse>)
+  | { type: 'error'; error: string; code: ApiErrorCode }
+
 // Import RefinementSuggestion from refinementAnalyzer
 import type { RefinementSuggestion } from '../utils/refinementAnalyzer'
 
@@ -87,7 +344,8 @@ export interface ChatMessage {
   isOptimistic?: boolean // For optimistic UI updates
   optimisticData?: {
     prediction: any
-    loadingSteps: any[]
+    providers: ProviderProgress[]
+    listingsFound: number
     resultsPreview: string
   }
   travelContext?: {
@@ -104,15 +362,31 @@ export interface SearchHistory {
   resultCount: number
 }
 
+// Mirrors SearchContext in api/tools/refine-context.ts
 export interface SearchContext {
   location: string
-  adults: number
-  children: number
-  nights?: number
   checkin?: string
   checkout?: string
-  minPrice?: number
-  maxPrice?: number
+  nights?: number
+  adults?: number
+  children?: number
+  priceMin?: number
+  priceMax?: number
+  amenities?: string[]
+  propertyType?: string
+  roomType?: 'entire_home' | 'private_room' | 'shared_room' | 'hotel_room'
+  minBedrooms?: number
+  minBathrooms?: number
+  minBeds?: number
+  minRating?: number
+  superhost?: boolean
+  sort?: SortMode
+}
+
+export interface ContextChange {
+  field: keyof SearchContext
+  action: 'set' | 'add' | 'remove'
+  value?: unknown
 }
 
 // Geocoding types
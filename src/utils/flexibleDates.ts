@@ -0,0 +1,37 @@
+import type { FlexibleDates, SearchContext, SearchRequest, SearchResponse } from '../types'
+import { apiErrorFrom } from './searchStream'
+
+// Searches the context again with `flexibleDays`; null when the search has no dates to shift
+export async function fetchFlexibleDates(context: SearchContext, currency: string, days: number): Promise<FlexibleDates | null> {
+  const body: SearchRequest = {
+    query: '',
+    context,
+    currency,
+    flexibleDays: days,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  }
+  const response = await fetch('/api/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) throw await apiErrorFrom(response)
+  const data: SearchResponse = await response.json()
+  return data.flexibleDates ?? null
+}
+
+// YYYY-MM-DD arithmetic in UTC, so local daylight-saving changes never skip or repeat a date
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+// Sunday-first weeks covering every night in `nightly`; null pads the days outside it
+export function calendarWeeks(nightly: FlexibleDates['nightly']): (FlexibleDates['nightly'][number] | null)[][] {
+  if (!nightly.length) return []
+  const lead = new Date(`${nightly[0].date}T00:00:00Z`).getUTCDay()
+  const cells = [...Array(lead).fill(null), ...nightly]
+  while (cells.length % 7) cells.push(null)
+  const weeks = []
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7))
+  return weeks
+}
@@ -0,0 +1,38 @@
+// Display formatting for the normalized listing prices /api/search returns
+
+import type { ListingPrice } from '../types'
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+// Whole units, like the platforms themselves show nightly rates
+export function formatMoney(amount: number, currency = 'USD'): string {
+  let formatter = formatters.get(currency)
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 0 })
+    } catch {
+      // Not an ISO 4217 code; show the amount with the code as given
+      return `${currency} ${Math.round(amount)}`
+    }
+    formatters.set(currency, formatter)
+  }
+  return formatter.format(amount)
+}
+
+export function formatNightlyRate(price: ListingPrice): string {
+  return formatMoney(price.rate, price.currency)
+}
+
+// "$615 total for 3 nights" once the stay has dates; null otherwise
+export function formatStayTotal(price: ListingPrice): string | null {
+  if (!price.nights || !price.total) return null
+  const nights = `${price.nights} night${price.nights === 1 ? '' : 's'}`
+  return `${formatMoney(price.total, price.currency)} total for ${nights}${price.taxesIncluded ? ' incl. taxes' : ''}`
+}
+
+// What the platform quoted, when it was converted from another currency
+export function formatOriginalPrice(price: ListingPrice): string | null {
+  const { original } = price
+  if (!original || original.currency === price.currency) return null
+  return `${formatMoney(original.rate, original.currency)}/night as listed`
+}
@@ -138,20 +138,6 @@ export function predictSearchCharacteristics(query: string): OptimisticSearchPre
   }
 }
 
-/**
- * Generate realistic loading steps with timing
- */
-export function createOptimisticLoadingSteps(prediction: OptimisticSearchPrediction) {
-  const steps = prediction.loadingSteps.map((step, index) => ({
-    id: `step-${index}`,
-    message: step,
-    duration: 800 + (index * 300), // Staggered timing
-    completed: false
-  }))
-  
-  return steps
-}
-
 /**
  * Smart follow-up predictions based on query analysis
  */
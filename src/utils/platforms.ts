@@ -0,0 +1,12 @@
+// Display names for the platforms search providers report in `listing.platform` and `sources`
+
+const PLATFORM_LABELS: Record<string, string> = {
+  airbnb: 'Airbnb',
+  booking: 'Booking.com',
+  vrbo: 'Vrbo',
+  inside_airbnb: 'Inside Airbnb'
+}
+
+export function platformLabel(platform: string): string {
+  return PLATFORM_LABELS[platform] || platform.charAt(0).toUpperCase() + platform.slice(1)
+}
@@ -1,6 +1,6 @@
 // Intelligent refinement analysis utilities
 import { SEARCH_CONFIG, FILTER_CONFIG } from '../config/constants'
-import type { AirbnbListing } from '../types'
+import type { AirbnbListing, SearchContext } from '../types'
 
 interface PriceInsights {
   min: number
@@ -61,6 +61,7 @@ export interface RefinementSuggestion {
   type: 'price' | 'rating' | 'amenity' | 'property_type' | 'host_type'
   label: string
   description: string
+  // Follow-up utterance applied by the server to the current search context, e.g. "under $150/night"
   query: string
   count: number
   priority: 'high' | 'medium' | 'low'
@@ -179,7 +180,8 @@ export class RefinementAnalyzer {
   }
 
   // Generate intelligent refinement suggestions
-  generateRefinementSuggestions(originalQuery: string): RefinementSuggestion[] {
+  // Each suggestion is a delta for the context the search returned, not a rewritten query
+  generateRefinementSuggestions(originalQuery: string, context?: SearchContext | null): RefinementSuggestion[] {
     const suggestions: RefinementSuggestion[] = []
     const queryLower = originalQuery.toLowerCase()
     
@@ -197,15 +199,17 @@ export class RefinementAnalyzer {
     const isWarmLocation = this.isWarmClimate(queryLower)
     const isColdLocation = this.isColdClimate(queryLower)
 
-    // Price-based suggestions - only if no price mentioned
-    if (!alreadySpecified(['$', 'budget', 'luxury', 'cheap', 'expensive', 'under', 'over', 'range'])) {
+    // Price-based suggestions - only if no price mentioned, and only for dollar prices:
+    // the server reads price limits in follow-ups as USD
+    const inDollars = this.listings.every(l => !l.price.currency || l.price.currency === 'USD')
+    if (inDollars && context?.priceMax === undefined && !alreadySpecified(['$', 'budget', 'luxury', 'cheap', 'expensive', 'under', 'over', 'range'])) {
       priceInsights.suggestedRanges.forEach(range => {
         if (range.count > FILTER_CONFIG.MIN_SUGGESTION_COUNT) {
           suggestions.push({
             type: 'price',
             label: range.label,
             description: `${range.count} properties in this range`,
-            query: `${originalQuery} under $${range.max}/night`,
+            query: `under $${range.max}/night`,
             count: range.count,
             priority: range.count > this.listings.length * SEARCH_CONFIG.HIGH_PRIORITY_THRESHOLD ? 'high' : 'medium'
           })
@@ -214,24 +218,24 @@ export class RefinementAnalyzer {
     }
 
     // Rating-based suggestions - only if not already specified
-    if (!alreadySpecified(['excellent', '4.8', '4.9', '5.0', 'highly rated', 'top rated']) && ratingInsights.distribution.excellent > 0) {
+    if (context?.minRating === undefined && !alreadySpecified(['excellent', '4.8', '4.9', '5.0', 'highly rated', 'top rated']) && ratingInsights.distribution.excellent > 0) {
       suggestions.push({
         type: 'rating',
         label: 'Excellent ratings only',
         description: `${ratingInsights.distribution.excellent} properties with 4.8+ rating`,
-        query: `${originalQuery} with excellent reviews`,
+        query: 'with excellent reviews',
         count: ratingInsights.distribution.excellent,
         priority: 'high'
       })
     }
 
     // Superhost suggestion - only if not already specified
-    if (!alreadySpecified(['superhost', 'super host']) && ratingInsights.superhostCount > 0) {
+    if (!context?.superhost && !alreadySpecified(['superhost', 'super host']) && ratingInsights.superhostCount > 0) {
       suggestions.push({
         type: 'host_type',
         label: 'Superhosts only',
         description: `${ratingInsights.superhostCount} superhost properties`,
-        query: `${originalQuery} superhost only`,
+        query: 'superhost only',
         count: ratingInsights.superhostCount,
         priority: ratingInsights.superhostPercentage > SEARCH_CONFIG.SUPERHOST_HIGH_PRIORITY_THRESHOLD ? 'high' : 'medium'
       })
@@ -241,8 +245,9 @@ export class RefinementAnalyzer {
     amenityInsights.popular.slice(0, FILTER_CONFIG.MAX_AMENITY_SUGGESTIONS).forEach(amenity => {
       const amenityLower = amenity.amenity.toLowerCase()
       
-      // Skip if already mentioned in query
+      // Skip if already mentioned in query or part of the search
       if (alreadySpecified([amenityLower])) return
+      if (context?.amenities?.some(a => a.toLowerCase() === amenityLower)) return
       
       // Skip climate-inappropriate amenities
       if (isWarmLocation && ['heating', 'fireplace'].some(warm => amenityLower.includes(warm))) return
@@ -256,7 +261,7 @@ export class RefinementAnalyzer {
           type: 'amenity',
           label: `With ${amenityLower}`,
           description: `${amenity.count} properties have this amenity`,
-          query: `${originalQuery} with ${amenityLower}`,
+          query: `with ${amenityLower}`,
           count: amenity.count,
           priority: amenity.percentage > 50 ? 'high' : 'medium'
         })
@@ -264,7 +269,7 @@ export class RefinementAnalyzer {
     })
 
     // Property type suggestions - only if not specified and multiple types available
-    if (!alreadySpecified(['apartment', 'house', 'villa', 'condo', 'entire', 'private room', 'shared']) && propertyInsights.types.length > 1) {
+    if (!context?.propertyType && !context?.roomType && !alreadySpecified(['apartment', 'house', 'villa', 'condo', 'entire', 'private room', 'shared']) && propertyInsights.types.length > 1) {
       propertyInsights.types
         .filter(type => type.count > FILTER_CONFIG.MIN_SUGGESTION_COUNT)
         .slice(0, FILTER_CONFIG.MAX_PROPERTY_TYPE_SUGGESTIONS)
@@ -273,7 +278,7 @@ export class RefinementAnalyzer {
             type: 'property_type',
             label: `${type.type} only`,
             description: `${type.count} ${type.type.toLowerCase()} properties`,
-            query: `${originalQuery} ${type.type.toLowerCase()} only`,
+            query: `${type.type.toLowerCase()} only`,
             count: type.count,
             priority: type.percentage > 40 ? 'high' : 'medium'
           })
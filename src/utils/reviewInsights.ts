@@ -0,0 +1,25 @@
+import type { AirbnbListing, ApiErrorResponse, ReviewInsightsResponse } from '../types'
+
+// Reviews are fetched and analyzed server-side; `summary` adds the optional LLM summary
+export async function fetchReviewInsights(
+  listing: Pick<AirbnbListing, 'id' | 'platform'>,
+  options: { summary?: boolean } = {}
+): Promise<ReviewInsightsResponse> {
+  const query = options.summary ? '?summary=1' : ''
+  const response = await fetch(`/api/reviews/${listing.platform || 'airbnb'}/${encodeURIComponent(listing.id)}${query}`)
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as ApiErrorResponse | null
+    throw new Error(body?.error || `Review insights failed (${response.status})`)
+  }
+  return response.json()
+}
+
+const SENTIMENT_LABELS = {
+  positive: 'Mostly positive',
+  mixed: 'Mixed',
+  negative: 'Mostly negative'
+} as const
+
+export function sentimentLabel(sentiment: keyof typeof SENTIMENT_LABELS): string {
+  return SENTIMENT_LABELS[sentiment]
+}
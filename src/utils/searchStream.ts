@@ -0,0 +1,88 @@
+// Streaming client for the unified search endpoint
+// Reads newline-delimited JSON events so results can be rendered as each provider answers
+import type { ApiErrorCode, ApiErrorResponse, SearchStreamEvent } from '../types'
+
+type DoneEvent = Extract<SearchStreamEvent, { type: 'done' }>
+
+// An error answer from the API; `code` is undefined when the response carried none (proxy pages, network errors)
+export class SearchApiError extends Error {
+  readonly code?: ApiErrorCode
+  readonly status?: number
+  readonly retryAfter?: number
+
+  constructor(message: string, code?: ApiErrorCode, status?: number, retryAfter?: number) {
+    super(message)
+    this.name = 'SearchApiError'
+    this.code = code
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+/** Build a SearchApiError from a non-2xx response, reading the `{ error, code }` body when there is one */
+export async function apiErrorFrom(response: Response): Promise<SearchApiError> {
+  const body: Partial<ApiErrorResponse> = await response.json().catch(() => ({}))
+  return new SearchApiError(
+    body.error || `HTTP ${response.status}: ${response.statusText}`,
+    body.code,
+    response.status,
+    body.retryAfter
+  )
+}
+
+/**
+ * POST a search with `stream: true`, invoking onEvent for every event.
+ * Resolves with the final `done` event; rejects with a SearchApiError on HTTP or stream `error` events.
+ */
+export async function streamSearch(
+  body: Record<string, unknown>,
+  onEvent: (event: SearchStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<DoneEvent> {
+  const response = await fetch('/api/search', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/x-ndjson'
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  })
+
+  if (!response.ok) throw await apiErrorFrom(response)
+
+  // A server without streaming support answers with a single JSON document
+  if (!response.body || !response.headers.get('content-type')?.includes('ndjson')) {
+    const done: DoneEvent = { type: 'done', ...(await response.json()) }
+    onEvent(done)
+    return done
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let done = null as DoneEvent | null
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    const event = JSON.parse(line) as SearchStreamEvent
+    if (event.type === 'error') throw new SearchApiError(event.error, event.code)
+    if (event.type === 'done') done = event
+    onEvent(event)
+  }
+
+  for (;;) {
+    const { value, done: finished } = await reader.read()
+    if (finished) break
+    buffer += decoder.decode(value, { stream: true })
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      handleLine(buffer.slice(0, newline))
+      buffer = buffer.slice(newline + 1)
+    }
+  }
+  handleLine(buffer + decoder.decode())
+
+  if (!done) throw new Error('Search stream ended before results were complete')
+  return done
+}
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { withApi } from '../../api/middleware'
+import { currentRequestId } from '../../api/observability/logger'
+
+function call(route: ReturnType<typeof withApi>, headers: Record<string, string> = {}) {
+  const sent: { status: number, headers: Record<string, string>, body?: unknown } = { status: 200, headers: {} }
+  const res = {
+    get statusCode() { return sent.status },
+    setHeader: (name: string, value: string) => { sent.headers[name] = value },
+    status: (status: number) => { sent.status = status; return res },
+    json: (body: unknown) => { sent.body = body; return res },
+    end: () => res
+  }
+  const req = { method: 'GET', url: '/api/test', headers, query: {} }
+  return Promise.resolve(route(req as unknown as VercelRequest, res as unknown as VercelResponse)).then(() => sent)
+}
+
+describe('withApi', () => {
+  beforeEach(() => {
+    vi.stubEnv('LOG_LEVEL', 'silent')
+    vi.stubEnv('RATE_LIMIT', 'off')
+    vi.stubEnv('API_KEYS', 'debug:k_secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('generates the request ID instead of taking the caller\'s', async () => {
+    let seen: string | undefined
+    const route = withApi((_req, res) => { seen = currentRequestId(); return res.status(200).json({}) }, { methods: ['GET'] })
+    const sent = await call(route, { 'x-request-id': 'chosen-by-caller' })
+    expect(seen).not.toBe('chosen-by-caller')
+    expect(sent.headers['X-Request-Id']).toBe(seen)
+  })
+
+  it('rejects callers without a valid key on routes that require one', async () => {
+    const handler = vi.fn((_req: VercelRequest, res: VercelResponse) => res.status(200).json({}))
+    const route = withApi(handler, { methods: ['GET'], requireKey: true })
+    expect(await call(route)).toMatchObject({ status: 401, body: { code: 'UNAUTHORIZED' } })
+    expect(await call(route, { 'x-api-key': 'k_wrong' })).toMatchObject({ status: 401 })
+    expect(handler).not.toHaveBeenCalled()
+    expect(await call(route, { 'x-api-key': 'k_secret' })).toMatchObject({ status: 200 })
+  })
+})
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CostLedger, OverBudgetError, withCostLedger } from '../../api/budget'
+import { fetchBookingReviews, searchBooking } from '../../api/providers/booking'
+
+describe('Booking over budget', () => {
+  const fetch = vi.fn()
+
+  beforeEach(() => {
+    vi.stubEnv('SERPAPI_KEY', 'test-key')
+    vi.stubEnv('BUDGET_PER_REQUEST_USD', '0.000001')
+    vi.stubGlobal('fetch', fetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    fetch.mockReset()
+  })
+
+  it('skips the paid search with an error instead of an empty, finished page', async () => {
+    const ledger = await CostLedger.open()
+    await expect(withCostLedger(ledger, () => searchBooking({ location: 'Austin', cursor: { token: 'next' } })))
+      .rejects.toBeInstanceOf(OverBudgetError)
+    await expect(withCostLedger(ledger, () => fetchBookingReviews('ChkI1-austin-driskill')))
+      .rejects.toBeInstanceOf(OverBudgetError)
+    expect(fetch).not.toHaveBeenCalled()
+    expect(ledger.summary()).toMatchObject({ degraded: ['serpapi_skipped'] })
+  })
+})
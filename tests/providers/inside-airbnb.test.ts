@@ -0,0 +1,60 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { searchInsideAirbnb } from '../../api/providers/inside-airbnb'
+
+const FIELDS = [
+  'id', 'name', 'picture', 'lat', 'lng', 'neighbourhood', 'propertyType', 'roomType',
+  'maxGuests', 'bedrooms', 'bathrooms', 'beds', 'price', 'rating', 'reviewsCount',
+  'hostName', 'superhost', 'amenities',
+]
+
+const row = (id: string, price: number, reviewsCount: number, amenities: string[]) =>
+  [id, `Listing ${id}`, '', 30.26, -97.74, 0, 'Entire home', 'entire_home', 4, 2, 1, 2, price, 4.8, reviewsCount, 'Host', 0, amenities]
+
+let dir: string
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'inside-airbnb-'))
+  writeFileSync(path.join(dir, 'austin.json'), JSON.stringify({
+    version: 1,
+    city: 'Austin',
+    country: 'United States',
+    currency: 'USD',
+    fields: FIELDS,
+    neighbourhoods: ['Travis Heights'],
+    listings: [
+      row('1', 120, 50, ['WiFi', 'Kitchen']),
+      row('2', 180, 90, ['WiFi', 'Pool']),
+      row('3', 240, 10, []),
+    ],
+  }))
+  process.env.INSIDE_AIRBNB_DIR = dir
+})
+
+afterAll(() => {
+  delete process.env.INSIDE_AIRBNB_DIR
+  rmSync(dir, { recursive: true, force: true })
+})
+
+const ids = async (amenities: string[]) =>
+  (await searchInsideAirbnb({ location: 'Austin, TX', amenities })).listings.map(listing => listing.id)
+
+describe('searchInsideAirbnb', () => {
+  it('filters by the amenities the index maps, keeping listings without amenity data', async () => {
+    expect(await ids(['Pool'])).toEqual(['2', '3'])
+    expect(await ids(['wifi', 'kitchen'])).toEqual(['1', '3'])
+  })
+
+  it('ignores amenities the index cannot show', async () => {
+    expect(await ids(['Pet Friendly'])).toEqual(['2', '1', '3'])
+    expect(await ids(['Fireplace', 'Pool'])).toEqual(['2', '3'])
+  })
+
+  it('applies price limits before paging', async () => {
+    const page = await searchInsideAirbnb({ location: 'Austin', priceMax: 200 })
+    expect(page.listings.map(listing => [listing.id, listing.price.rate])).toEqual([['2', 180], ['1', 120]])
+    expect(page).toMatchObject({ cursor: null, totalResults: 2 })
+  })
+})
@@ -0,0 +1,104 @@
+// Recorded payloads in fixtures/providers through each provider's mappers, as PROVIDER_FIXTURES=replay serves them
+import { describe, expect, it } from 'vitest'
+import { getProvider } from '../../api/providers/registry'
+import type { ProviderParams, SearchProvider } from '../../api/providers/types'
+import { normalizePrice } from '../../api/utils/pricing'
+
+const replay = (name: string): SearchProvider => {
+  const provider = getProvider(name, 'replay')
+  if (!provider) throw new Error(`No ${name} provider`)
+  return provider
+}
+
+const AUSTIN: ProviderParams = { location: 'Austin', adults: 2 }
+
+describe('airbnb', () => {
+  it('maps explore_tabs search results', async () => {
+    const page = await replay('airbnb').search(AUSTIN)
+    expect(page.listings).toHaveLength(6)
+    expect(page.listings[0]).toMatchObject({
+      id: 52871934,
+      platform: 'airbnb',
+      name: 'Modern Bungalow near South Congress',
+      price: { rate: 189, currency: 'USD' },
+      rating: 4.92,
+      host: { name: 'Maya', isSuperhost: true },
+      location: { city: 'Austin', coordinates: { lat: 30.2461, lng: -97.7509 } },
+    })
+  })
+
+  it('pages with the explore cursor', async () => {
+    const provider = replay('airbnb')
+    const first = await provider.search(AUSTIN)
+    expect(first.cursor).toEqual({ itemsOffset: 6, sectionOffset: 2 })
+    const second = await provider.search({ ...AUSTIN, page: 2, cursor: first.cursor ?? undefined })
+    expect(second.listings).toHaveLength(3)
+    expect(second.cursor).toBeNull()
+  })
+
+  it('maps listing details, reviews and calendars', async () => {
+    const provider = replay('airbnb')
+    expect(await provider.details!('52871934')).toMatchObject({ id: '52871934', platform: 'airbnb', propertyType: 'Entire bungalow' })
+
+    const reviews = await provider.reviews!('52871934')
+    expect(reviews).toHaveLength(12)
+    expect(reviews![0]).toMatchObject({ id: '918273645001', rating: 5, author: 'Jordan', date: '2025-03-09T21:14:02Z' })
+
+    const calendar = await provider.calendar!('52871934', { from: '2026-12-01', to: '2026-12-07' })
+    expect(calendar?.currency).toBe('USD')
+    expect(calendar?.days.map(day => day.date)).toEqual([
+      '2026-12-01', '2026-12-02', '2026-12-03', '2026-12-04', '2026-12-05', '2026-12-06', '2026-12-07',
+    ])
+    expect(calendar?.days[0]).toEqual({
+      date: '2026-12-01', available: false, price: 180, minNights: 2, checkinAllowed: false, checkoutAllowed: true,
+    })
+  })
+})
+
+describe('booking', () => {
+  it('maps Google Hotels search results', async () => {
+    const page = await replay('booking').search(AUSTIN)
+    expect(page.listings).toHaveLength(5)
+    expect(page.cursor).toBeNull()
+    expect(page.listings[0]).toMatchObject({
+      id: 'ChkI1-austin-driskill',
+      platform: 'booking',
+      name: 'The Driskill',
+      price: { rate: 329, currency: 'USD' },
+      roomType: 'Hotel',
+    })
+  })
+
+  it('maps property details and reviews', async () => {
+    const provider = replay('booking')
+    expect(await provider.details!('ChkI1-austin-driskill')).toMatchObject({ id: 'ChkI1-austin-driskill', name: 'The Driskill' })
+    const reviews = await provider.reviews!('ChkI1-austin-driskill')
+    expect(reviews).toHaveLength(8)
+    expect(reviews![0]).toMatchObject({ rating: 5, author: 'Kelly R.', date: '2025-03-02T00:00:00Z' })
+  })
+})
+
+describe('vrbo', () => {
+  // austin.json was recorded for a three-night stay at $289 a night: $1,228.41 with $175 cleaning, $156.60 service, $29.81 taxes
+  const RECORDED: ProviderParams = { ...AUSTIN, checkin: '2025-04-10', checkout: '2025-04-13' }
+
+  it('keeps the nightly rate alone without dates', async () => {
+    const page = await replay('vrbo').search(AUSTIN)
+    expect(page.listings).toHaveLength(5)
+    expect(page.listings[0].price).toEqual({ rate: 289, currency: 'USD' })
+  })
+
+  it('uses the quoted stay total for the recorded dates', async () => {
+    const [listing] = (await replay('vrbo').search(RECORDED)).listings
+    expect(listing.price).toMatchObject({ rate: 289, total: 1228.41, fees: { cleaning: 175, service: 156.6, taxes: 29.81 } })
+    expect(normalizePrice(listing.price, { currency: 'USD', nights: 3 })).toMatchObject({ total: 1228.41, nights: 3 })
+  })
+
+  it('recomputes the total for other dates', async () => {
+    const [listing] = (await replay('vrbo').search({ ...AUSTIN, checkin: '2026-12-20', checkout: '2026-12-27' })).listings
+    expect(listing.price.total).toBeUndefined()
+    // Cleaning once; service fee and taxes scaled from three nights to seven
+    expect(listing.price.fees).toEqual({ cleaning: 175, service: 365.4, taxes: 69.56 })
+    expect(normalizePrice(listing.price, { currency: 'USD', nights: 7 })).toMatchObject({ total: 2632.96, nights: 7 })
+  })
+})
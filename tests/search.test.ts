@@ -0,0 +1,70 @@
+// The search pipeline end to end on replayed fixtures: fallback parser, every provider, pricing and dedupe
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ProviderStatus } from '../api/providers/types'
+import { runSearch, type SearchInput } from '../api/search'
+import { decodeCursor } from '../api/utils/search-cursor'
+import { TraceRecorder } from '../api/utils/search-trace'
+
+// "Dec 20-27" resolves against today's date
+const TODAY = new Date('2026-10-19T12:00:00Z')
+
+type Listing = { id: string | number, platform: string, price: { rate: number, total: number, nights: number, currency: string } }
+
+async function search(query: string, { maxResults = 20, cursor = null as string | null } = {}) {
+  const input: SearchInput = { query, cursor: cursor ? decodeCursor(cursor) : null, maxResults, timeZone: 'UTC' }
+  const trace = new TraceRecorder('test', { query, page: input.cursor?.page ?? 1, maxResults, timeZone: input.timeZone })
+  const result = await runSearch(input, { trace, providerMode: 'replay', llm: null, currency: 'USD' })
+  return { result, trace: trace.trace }
+}
+
+describe('runSearch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(TODAY)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('searches every replayed provider and prices the requested stay', async () => {
+    const { result, trace } = await search('in Austin Dec 20-27 for 2')
+
+    expect(trace.mode).toBe('fallback')
+    expect(result.dates).toEqual({ checkin: '2026-12-20', checkout: '2026-12-27', inferred: false })
+    const sources = result.sources as ProviderStatus[]
+    expect(sources.map(source => [source.platform, source.status]).sort()).toEqual([
+      ['airbnb', 'success'], ['booking', 'success'], ['vrbo', 'success'],
+    ])
+
+    const listings = result.listings as Listing[]
+    expect(listings.length).toBeGreaterThan(0)
+    expect(listings.every(listing => listing.price.nights === 7 && listing.price.currency === 'USD')).toBe(true)
+
+    // The Vrbo fixture's three-night quote is not served as a seven-night total
+    const vrbo = listings.find(listing => listing.platform === 'vrbo')
+    expect(vrbo?.price).toMatchObject({ rate: 289, total: 2632.96 })
+    expect(listings.every(listing => listing.price.total >= listing.price.rate * 7)).toBe(true)
+  })
+
+  it('keeps listings that cannot report a requested amenity', async () => {
+    const all = (await search('place in Austin for 2')).result.listings as Listing[]
+    for (const query of ['pet friendly place in Austin for 2', 'place in Austin for 2 with a fireplace']) {
+      const { result } = await search(query)
+      expect(result.filtered).toMatchObject({ removed: {} })
+      expect((result.listings as Listing[]).map(listing => listing.id)).toEqual(all.map(listing => listing.id))
+    }
+  })
+
+  it('serves the rest of a provider page before moving the providers on', async () => {
+    const all = (await search('place in Austin for 2')).result.listings as Listing[]
+    const ids: Array<string | number> = []
+    let cursor: string | null = null
+    do {
+      const { result } = await search('place in Austin for 2', { maxResults: 4, cursor })
+      ids.push(...(result.listings as Listing[]).map(listing => listing.id))
+      cursor = result.nextCursor as string | null
+    } while (cursor && ids.length < all.length)
+    expect(ids).toEqual(all.map(listing => listing.id))
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { parseDates, todayDate } from '../../api/tools/parse-dates'
+
+// A Monday
+const referenceDate = new Date('2026-10-19T12:00:00Z')
+const parse = (text: string, timeZone = 'UTC') => parseDates(text, { referenceDate, timeZone })
+
+describe('parseDates', () => {
+  it('reads a stated range and masks it out of the query', () => {
+    expect(parse('loft in Austin Dec 20-27 for 2')).toEqual({
+      checkin: '2026-12-20',
+      checkout: '2026-12-27',
+      nights: 7,
+      source: 'stated',
+      remainder: 'loft in Austin , for 2',
+    })
+  })
+
+  it('rolls a range over the end of the month and the year', () => {
+    expect(parse('Dec 28-3')).toMatchObject({ checkin: '2026-12-28', checkout: '2027-01-03' })
+    expect(parse('Dec 28 to Jan 3')).toMatchObject({ checkin: '2026-12-28', checkout: '2027-01-03', nights: 6 })
+  })
+
+  it('puts a month and day already past into next year', () => {
+    expect(parse('March 3-5')).toMatchObject({ checkin: '2027-03-03', checkout: '2027-03-05' })
+  })
+
+  it('adds a night count to a check-in', () => {
+    expect(parse('from Nov 2 for 3 nights')).toMatchObject({ checkin: '2026-11-02', checkout: '2026-11-05', nights: 3 })
+  })
+
+  it('resolves relative phrases as inferred dates', () => {
+    expect(parse('next weekend')).toMatchObject({ source: 'inferred' })
+  })
+
+  it('keeps a night count without dates', () => {
+    expect(parse('a week-long stay in Denver')).toEqual({ nights: 7, remainder: expect.any(String) })
+  })
+})
+
+describe('todayDate', () => {
+  it('is the date in the user\'s timezone', () => {
+    const lateEvening = new Date('2026-10-20T02:00:00Z')
+    expect(todayDate('UTC', lateEvening)).toBe('2026-10-20')
+    expect(todayDate('America/Chicago', lateEvening)).toBe('2026-10-19')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { refineContext, toSearchContext, type SearchContext } from '../../api/tools/refine-context'
+
+const AUSTIN: SearchContext = {
+  location: 'Austin, TX',
+  checkin: '2026-12-20',
+  checkout: '2026-12-27',
+  nights: 7,
+  adults: 2,
+  priceMax: 200,
+  amenities: ['Pool'],
+}
+
+const options = { timeZone: 'UTC' }
+
+describe('refineContext', () => {
+  it('starts over when the message searches somewhere else', () => {
+    expect(refineContext(AUSTIN, 'loft in Chicago', options)).toBeNull()
+  })
+
+  it('keeps the search when the message moves it to another place', () => {
+    for (const utterance of ['in Denver instead', 'actually, in Denver']) {
+      expect(refineContext(AUSTIN, utterance, options)).toMatchObject({
+        context: { ...AUSTIN, location: 'Denver' },
+        changes: [{ field: 'location', action: 'set', value: 'Denver' }],
+      })
+    }
+  })
+
+  it('refines a message that names the same place', () => {
+    expect(refineContext(AUSTIN, 'in austin with a hot tub', options)?.context)
+      .toEqual({ ...AUSTIN, amenities: ['Pool', 'Hot Tub'] })
+  })
+
+  it('replaces stated values and reports each change', () => {
+    expect(refineContext(AUSTIN, 'actually make it 4 guests', options)).toEqual({
+      context: { ...AUSTIN, adults: 4 },
+      changes: [{ field: 'adults', action: 'set', value: 4 }],
+    })
+  })
+
+  it('accumulates amenities and drops removed ones without reading them as requests', () => {
+    expect(refineContext(AUSTIN, 'with a hot tub', options)?.context.amenities).toEqual(['Pool', 'Hot Tub'])
+    const removed = refineContext(AUSTIN, 'no pool and drop the price limit', options)
+    expect(removed?.context).toEqual({ location: 'Austin, TX', checkin: '2026-12-20', checkout: '2026-12-27', nights: 7, adults: 2 })
+    expect(removed?.changes).toEqual(expect.arrayContaining([
+      { field: 'priceMax', action: 'remove' },
+      { field: 'amenities', action: 'remove', value: 'Pool' },
+    ]))
+  })
+
+  it('moves the check-out with a new stay length and keeps the length with new dates', () => {
+    expect(refineContext(AUSTIN, 'make it 5 nights', options)?.context)
+      .toMatchObject({ checkin: '2026-12-20', checkout: '2026-12-25', nights: 5 })
+    expect(refineContext(AUSTIN, 'starting Jan 10', options)?.context)
+      .toMatchObject({ checkin: '2027-01-10', checkout: '2027-01-17', nights: 7 })
+  })
+
+  it('changes nothing when the same utterance is applied twice', () => {
+    const once = refineContext(AUSTIN, 'with a hot tub under $150', options)!
+    expect(refineContext(once.context, 'with a hot tub under $150', options)).toEqual({ context: once.context, changes: [] })
+  })
+})
+
+describe('toSearchContext', () => {
+  it('keeps the context fields that have values, and needs a location', () => {
+    expect(toSearchContext({ location: 'Austin', adults: 2, amenities: [], priceMax: undefined }))
+      .toEqual({ location: 'Austin', adults: 2 })
+    expect(toSearchContext({ adults: 2 })).toBeNull()
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { parseFilters } from '../../api/tools/parse-filters'
+import { amenityStatus, applyConstraints, checkConstraints, nightlyRates, type FilterableListing } from '../../api/utils/filter-listings'
+
+const listing = (fields: FilterableListing = {}): FilterableListing => ({
+  price: { rate: 150 },
+  maxGuests: 4,
+  bedrooms: 2,
+  amenities: ['WiFi', 'Kitchen', 'Hot Tub'],
+  rating: 4.8,
+  host: { isSuperhost: true },
+  ...fields,
+})
+
+describe('amenityStatus', () => {
+  it('checks amenities providers map against the listing', () => {
+    expect(amenityStatus(listing(), 'hot tub')).toBe('satisfied')
+    expect(amenityStatus(listing(), 'Pool')).toBe('violated')
+  })
+
+  it('does not know about listings without an amenity list', () => {
+    expect(amenityStatus(listing({ amenities: [] }), 'Pool')).toBe('unknown')
+    expect(amenityStatus(listing({ amenities: undefined }), 'Pool')).toBe('unknown')
+  })
+
+  it('does not rule a listing out over an amenity no provider reports', () => {
+    const [amenity] = parseFilters('pet friendly place in Austin').amenities
+    expect(amenity).toBe('Pet Friendly')
+    expect(amenityStatus(listing(), amenity)).toBe('unknown')
+    expect(amenityStatus(listing({ amenities: ['WiFi', 'Pet Friendly'] }), amenity)).toBe('satisfied')
+  })
+})
+
+describe('checkConstraints', () => {
+  it('reports only the constraints the query sets', () => {
+    expect(checkConstraints(listing(), { priceMax: 200, minBedrooms: 3 })).toEqual([
+      ['price', 'satisfied'],
+      ['bedrooms', 'violated'],
+    ])
+  })
+
+  it('counts children towards the guest capacity', () => {
+    expect(checkConstraints(listing(), { adults: 3, children: 2 })).toEqual([['guests', 'violated']])
+  })
+
+  it('fails amenities when one mapped amenity is missing, and is unsure when one cannot be reported', () => {
+    expect(checkConstraints(listing(), { amenities: ['Hot Tub', 'Pool'] })).toEqual([['amenities', 'violated']])
+    expect(checkConstraints(listing(), { amenities: ['Hot Tub', 'Fireplace'] })).toEqual([['amenities', 'unknown']])
+  })
+})
+
+describe('nightlyRates', () => {
+  it('tests every offer of a merged listing and skips missing rates', () => {
+    expect(nightlyRates(listing({ offers: [{ price: { rate: 320 } }, { price: { rate: 180 } }, {}] }))).toEqual([320, 180])
+    expect(nightlyRates(listing({ price: { rate: 0 } }))).toEqual([])
+  })
+})
+
+describe('applyConstraints', () => {
+  it('keeps listings with missing data and reports removals against the first failed constraint', () => {
+    const listings = [
+      listing(),
+      listing({ price: { rate: 450 } }),
+      listing({ price: { rate: 450 }, bedrooms: 1 }),
+      listing({ price: undefined, bedrooms: undefined }),
+      listing({ amenities: ['WiFi'] }),
+    ]
+    const { listings: kept, report } = applyConstraints(listings, { priceMax: 300, minBedrooms: 2, amenities: ['Fireplace'] })
+    expect(kept).toEqual([listings[0], listings[3], listings[4]])
+    expect(report).toEqual({ before: 5, after: 3, removed: { price: 2 } })
+  })
+})
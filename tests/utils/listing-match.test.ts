@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { distanceMeters, mergeCrossPlatformDuplicates } from '../../api/utils/listing-match'
+import { normalizePrice } from '../../api/utils/pricing'
+
+type Listing = Parameters<typeof mergeCrossPlatformDuplicates>[0][number]
+
+const DRISKILL = { lat: 30.2682, lng: -97.7420 }
+
+function listing(platform: string, id: string, name: string, fields: Partial<Listing> & { rate?: number } = {}): Listing {
+  const { rate = 200, ...rest } = fields
+  return {
+    id,
+    name,
+    url: `https://${platform}.example/${id}`,
+    platform,
+    price: normalizePrice({ rate, currency: 'USD' }, { currency: 'USD', nights: 2 }),
+    location: { city: 'Austin', coordinates: DRISKILL },
+    ...rest,
+  }
+}
+
+describe('mergeCrossPlatformDuplicates', () => {
+  it('merges the same property across platforms, keeping the first and offering the cheapest stay first', () => {
+    const [merged, ...rest] = mergeCrossPlatformDuplicates([
+      listing('airbnb', '1', 'The Driskill Hotel', { rate: 300, images: [], amenities: ['WiFi'] }),
+      listing('booking', '2', 'Driskill Hotel Austin', { rate: 250, images: ['driskill.jpg'], bedrooms: 1, amenities: ['WiFi', 'Gym'] }),
+    ])
+    expect(rest).toEqual([])
+    expect(merged).toMatchObject({ id: '1', platform: 'airbnb', images: ['driskill.jpg'], bedrooms: 1, amenities: ['WiFi', 'Gym'] })
+    expect(merged.offers?.map(offer => [offer.platform, offer.price.total])).toEqual([['booking', 500], ['airbnb', 600]])
+  })
+
+  it('never merges two listings of the same platform', () => {
+    const listings = [listing('airbnb', '1', 'Driskill Hotel'), listing('airbnb', '2', 'Driskill Hotel')]
+    expect(mergeCrossPlatformDuplicates(listings)).toHaveLength(2)
+  })
+
+  it('keeps apart similar names that are too far apart or differ in bedrooms', () => {
+    const far = { city: 'Austin', coordinates: { lat: 30.30, lng: -97.74 } }
+    expect(mergeCrossPlatformDuplicates([
+      listing('airbnb', '1', 'Driskill Hotel'),
+      listing('booking', '2', 'Driskill Hotel', { location: far }),
+    ])).toHaveLength(2)
+    expect(mergeCrossPlatformDuplicates([
+      listing('airbnb', '1', 'Driskill Hotel', { bedrooms: 1 }),
+      listing('booking', '2', 'Driskill Hotel', { bedrooms: 2 }),
+    ])).toHaveLength(2)
+  })
+
+  it('accepts a looser name match for listings next to each other', () => {
+    expect(mergeCrossPlatformDuplicates([
+      listing('airbnb', '1', 'Historic Driskill suite downtown'),
+      listing('vrbo', '2', 'Driskill suite with balcony'),
+    ])).toHaveLength(1)
+    expect(mergeCrossPlatformDuplicates([
+      listing('airbnb', '1', 'Historic Driskill suite downtown', { location: { city: 'Austin' } }),
+      listing('vrbo', '2', 'Driskill suite with balcony', { location: { city: 'Austin' } }),
+    ])).toHaveLength(2)
+  })
+})
+
+describe('distanceMeters', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceMeters(DRISKILL, DRISKILL)).toBe(0)
+    // One degree of latitude is about 111 km
+    expect(distanceMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111195, -1)
+  })
+})
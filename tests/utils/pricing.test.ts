@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { convertPriceLimits, normalizePrice, stayNights } from '../../api/utils/pricing'
+
+describe('stayNights', () => {
+  it('counts nights between the dates, only for a forward stay', () => {
+    expect(stayNights('2026-12-20', '2026-12-27')).toBe(7)
+    // Across the end of daylight saving time
+    expect(stayNights('2026-10-31', '2026-11-02')).toBe(2)
+    expect(stayNights('2026-12-27', '2026-12-20')).toBeUndefined()
+    expect(stayNights('2026-12-20')).toBeUndefined()
+  })
+})
+
+describe('normalizePrice', () => {
+  it('prices the stay from the rate and fees, converted to the display currency', () => {
+    const price = normalizePrice({ rate: 100, currency: 'usd', fees: { cleaning: 50 } }, { currency: 'EUR', nights: 3 })
+    expect(price).toEqual({
+      rate: 92,
+      total: 322,
+      currency: 'EUR',
+      nights: 3,
+      fees: { cleaning: 46 },
+      taxesIncluded: false,
+      original: { rate: 100, total: 350, currency: 'USD' },
+    })
+  })
+
+  it('keeps the provider total, which already holds its fees', () => {
+    const price = normalizePrice({ rate: 100, total: 420, currency: 'USD', fees: { cleaning: 50, taxes: 20 } }, { currency: 'USD', nights: 3 })
+    expect(price).toMatchObject({ rate: 100, total: 420, taxesIncluded: true })
+  })
+
+  it('prices one night without stay dates and nothing without a rate', () => {
+    expect(normalizePrice({ rate: 80, currency: 'USD' }, { currency: 'USD' })).toMatchObject({ total: 80, nights: undefined })
+    expect(normalizePrice({ rate: -5, currency: 'USD' }, { currency: 'USD', nights: 2 })).toMatchObject({ rate: 0, total: 0 })
+  })
+
+  it('leaves a currency missing from the rates table as quoted', () => {
+    expect(normalizePrice({ rate: 1000, currency: 'XYZ' }, { currency: 'USD', nights: 2 }))
+      .toMatchObject({ rate: 1000, total: 2000, currency: 'XYZ' })
+  })
+})
+
+describe('convertPriceLimits', () => {
+  it('converts the query limits from USD to the display currency', () => {
+    expect(convertPriceLimits({ priceMin: 100, priceMax: 200, adults: 2 }, 'EUR')).toEqual({ priceMin: 92, priceMax: 184, adults: 2 })
+  })
+
+  it('returns constraints without limits unchanged', () => {
+    const constraints = { adults: 2 }
+    expect(convertPriceLimits(constraints, 'EUR')).toBe(constraints)
+  })
+})
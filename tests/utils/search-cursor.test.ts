@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { decodeCursor, encodeCursor, hasMorePages } from '../../api/utils/search-cursor'
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+describe('search cursor', () => {
+  it('round-trips the page, provider states and batch', () => {
+    const providers = { airbnb: { offset: 20 }, booking: { token: 'abc' }, vrbo: null }
+    expect(decodeCursor(encodeCursor(3, providers, { page: 2, served: 40 })))
+      .toEqual({ v: 1, page: 3, providers, batch: { page: 2, served: 40 } })
+  })
+
+  it('reads cursors issued before batches were tracked', () => {
+    expect(decodeCursor(encode({ v: 1, page: 2, providers: { airbnb: { offset: 20 } } })))
+      .toEqual({ v: 1, page: 2, providers: { airbnb: { offset: 20 } } })
+  })
+
+  it('rejects anything it did not issue', () => {
+    expect(decodeCursor('not a cursor')).toBeNull()
+    expect(decodeCursor(encode({ v: 2, page: 2, providers: {} }))).toBeNull()
+    expect(decodeCursor(encode({ v: 1, page: '2', providers: {} }))).toBeNull()
+    expect(decodeCursor(encode({ v: 1, page: 2, providers: null }))).toBeNull()
+    expect(decodeCursor(encode({ v: 1, page: 2, providers: {}, batch: { page: 1 } }))).toBeNull()
+  })
+
+  it('has more pages while any provider has a state', () => {
+    expect(hasMorePages({ airbnb: null, booking: { token: 'abc' } })).toBe(true)
+    expect(hasMorePages({ airbnb: null, booking: null })).toBe(false)
+    // A provider skipped over budget keeps an empty state and is asked again
+    expect(hasMorePages({ booking: {} })).toBe(true)
+    expect(hasMorePages({})).toBe(false)
+  })
+})
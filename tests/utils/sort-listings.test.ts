@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { centroid, isSortMode, sortListings } from '../../api/utils/sort-listings'
+
+type Listing = Parameters<typeof sortListings>[0][number]
+
+const listing = (id: string, fields: Omit<Listing, 'id'> = {}): Listing => ({ id, ...fields })
+const ids = (listings: Listing[]) => listings.map(l => l.id)
+
+describe('sortListings', () => {
+  it('ranks price modes by stay total and puts listings without a price last either way', () => {
+    const listings = () => [
+      listing('fees', { price: { rate: 100, total: 900 } }),
+      listing('free', { price: { rate: 0 } }),
+      listing('cheap', { price: { rate: 120, total: 840 } }),
+      listing('none'),
+    ]
+    expect(ids(sortListings(listings(), 'price_asc'))).toEqual(['cheap', 'fees', 'free', 'none'])
+    expect(ids(sortListings(listings(), 'price_desc'))).toEqual(['fees', 'cheap', 'free', 'none'])
+  })
+
+  it('breaks ties by ID so equal listings keep their order between requests', () => {
+    const tied = [listing('b', { trustScore: 80 }), listing('c', { trustScore: 90 }), listing('a', { trustScore: 80 })]
+    expect(ids(sortListings(tied))).toEqual(['c', 'a', 'b'])
+  })
+
+  it('ranks value by quality per rate, falling back to rating without a trust score', () => {
+    const listings = [
+      listing('pricey', { price: { rate: 400 }, trustScore: 95 }),
+      listing('rated', { price: { rate: 100 }, rating: 4.5 }),
+      listing('unpriced', { trustScore: 99 }),
+    ]
+    expect(ids(sortListings(listings, 'value'))).toEqual(['rated', 'pricey', 'unpriced'])
+  })
+
+  it('sorts by distance from the origin with listings lacking coordinates last', () => {
+    const origin = { lat: 30.27, lng: -97.74 }
+    const listings = [
+      listing('far', { location: { coordinates: { lat: 30.4, lng: -97.74 } } }),
+      listing('nowhere'),
+      listing('near', { location: { coordinates: { lat: 30.271, lng: -97.741 } } }),
+    ]
+    expect(ids(sortListings(listings, 'distance', origin))).toEqual(['near', 'far', 'nowhere'])
+  })
+})
+
+describe('centroid', () => {
+  it('averages the listings that have coordinates', () => {
+    expect(centroid([
+      listing('a', { location: { coordinates: { lat: 10, lng: 20 } } }),
+      listing('b', { location: { coordinates: { lat: 20, lng: 40 } } }),
+      listing('c'),
+    ])).toEqual({ lat: 15, lng: 30 })
+    expect(centroid([listing('a')])).toBeUndefined()
+  })
+})
+
+describe('isSortMode', () => {
+  it('accepts only the known modes', () => {
+    expect(isSortMode('price_asc')).toBe(true)
+    expect(isSortMode('cheapest')).toBe(false)
+    expect(isSortMode(undefined)).toBe(false)
+  })
+})